@@ -0,0 +1,203 @@
+import {join, resolve} from 'node:path';
+import {
+  generateCode,
+  loadTemplates,
+  writeGeneratedFiles,
+  type GeneratedFiles,
+  type WriteOptions,
+  type WriteResult,
+} from '../codegen/index.js';
+import type {LintConfig, ProjectConfig, SourceOptions} from '../config/schema.js';
+import {
+  lintSpec,
+  loadOpenApiSpec,
+  locateDiagnostics,
+  prepareOpenApiSpec,
+  validateSpec,
+  type Diagnostic,
+  type FetchOptions,
+  type OpenAPIV3,
+  type RemoteDocument,
+} from '../parser/index.js';
+import {isUrl} from '../parser/loader.js';
+
+/**
+ * A spec to load: a file path or URL, or an already parsed OpenAPI 3.x or Swagger 2.0 document.
+ */
+export type SpecInput = string | object;
+
+/**
+ * Options for loading a spec.
+ */
+export interface ParseOptions {
+  /**
+   * Directory that relative paths are resolved against, including relative $refs in a
+   * document object. Defaults to the current directory.
+   */
+  cwd?: string;
+  /** How to fetch remote specs, as in the config file */
+  sourceOptions?: SourceOptions;
+  /** Paths or URLs of OpenAPI Overlay documents to apply, in order */
+  overlays?: string[];
+}
+
+/**
+ * A loaded, upgraded and bundled spec.
+ */
+export interface ParsedSpec {
+  document: OpenAPIV3.Document;
+  /** Raw content of the root file, undefined for a document object */
+  content?: string;
+  /** Every file path or URL that was read */
+  sources: string[];
+  /** How each URL that was read was obtained */
+  remote: RemoteDocument[];
+  /** Swagger 2.0 constructs that couldn't be upgraded, as `swagger2-upgrade` warnings */
+  warnings: Diagnostic[];
+}
+
+/**
+ * Options for validating a spec.
+ */
+export interface ValidateOptions extends ParseOptions {
+  /** Also check the spec against the lint rules, with these severities */
+  lint?: LintConfig;
+}
+
+/**
+ * What to generate: a project config whose `source` may also be a document object.
+ * `target` is only passed on to plugins; use `write` to write the files.
+ */
+export interface GenerateConfig extends ParseOptions, Omit<Partial<ProjectConfig>, 'source'> {
+  source: SpecInput;
+}
+
+/**
+ * Options for writing generated files.
+ */
+export interface WriteFilesOptions extends WriteOptions {
+  /** Directory that a relative target is resolved against. Defaults to the current directory. */
+  cwd?: string;
+}
+
+/**
+ * Thrown when a spec can't be read, parsed or bundled.
+ */
+export class SpecLoadError extends Error {
+  constructor(
+    message: string,
+    /** Path or URL of the spec, undefined for a document object */
+    readonly source?: string,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.name = 'SpecLoadError';
+  }
+}
+
+/**
+ * Thrown when a spec has validation errors, so code can't be generated from it.
+ */
+export class SpecValidationError extends Error {
+  constructor(readonly diagnostics: Diagnostic[]) {
+    const errors = diagnostics.filter((d) => d.severity === 'error');
+    super(
+      `OpenAPI spec has ${errors.length} validation error(s):\n${errors.map((d) => `  - ${d.message}`).join('\n')}`,
+    );
+    this.name = 'SpecValidationError';
+  }
+}
+
+const getFetchOptions = (options: ParseOptions, cwd: string): FetchOptions => {
+  const {sourceOptions} = options;
+  return {...sourceOptions, ca: sourceOptions?.ca === undefined ? undefined : resolve(cwd, sourceOptions.ca)};
+};
+
+/**
+ * Load a spec from a file path or URL, or prepare a document object, the same way the CLI does:
+ * Swagger 2.0 is upgraded, external $refs are bundled into `components` and overlays are applied.
+ *
+ * @throws SpecLoadError if the spec can't be read, parsed or bundled
+ */
+export const parse = async (input: SpecInput, options: ParseOptions = {}): Promise<ParsedSpec> => {
+  const cwd = resolve(options.cwd ?? process.cwd());
+  const warnings: Diagnostic[] = [];
+  const loadOptions = {
+    fetch: getFetchOptions(options, cwd),
+    overlays: options.overlays?.map((overlay) => (isUrl(overlay) ? overlay : resolve(cwd, overlay))),
+    onWarning: (message: string) => {
+      warnings.push({severity: 'warning' as const, code: 'swagger2-upgrade', message, pointer: ''});
+    },
+  };
+
+  const source = typeof input === 'string' ? (isUrl(input) ? input : resolve(cwd, input)) : undefined;
+  try {
+    if (source === undefined) {
+      // Relative $refs in a document object are resolved as if it were a file in `cwd`
+      const prepared = await prepareOpenApiSpec(input, join(cwd, 'openapi.json'), loadOptions);
+      return {...prepared, sources: prepared.sources.slice(1), warnings};
+    }
+    const spec = await loadOpenApiSpec(source, loadOptions);
+    return {...spec, warnings};
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new SpecLoadError(`Failed to load OpenAPI spec${source ? ` ${source}` : ''}: ${message}`, source, {
+      cause: error,
+    });
+  }
+};
+
+/**
+ * Check a spec for problems, and against the lint rules if `lint` is given.
+ * Diagnostics include line and column when the spec was loaded from a file or URL.
+ *
+ * @returns Diagnostics found, empty if the spec is valid
+ * @throws SpecLoadError if the spec can't be loaded
+ */
+export const validate = async (input: SpecInput, options: ValidateOptions = {}): Promise<Diagnostic[]> => {
+  const spec = await parse(input, options);
+
+  const diagnostics = [...validateSpec(spec.document), ...(options.lint ? lintSpec(spec.document, options.lint) : [])];
+  const located = spec.content === undefined ? diagnostics : locateDiagnostics(diagnostics, spec.content);
+  return [...spec.warnings, ...located];
+};
+
+/**
+ * Generate the client code for a spec without writing it.
+ *
+ * @returns Map of file name to content
+ * @throws SpecLoadError if the spec can't be loaded
+ * @throws SpecValidationError if the spec has validation errors
+ */
+export const generate = async (config: GenerateConfig): Promise<GeneratedFiles> => {
+  const {source, cwd, ...projectConfig} = config;
+  const spec = await parse(source, config);
+
+  const diagnostics = validateSpec(spec.document);
+  if (diagnostics.some((d) => d.severity === 'error')) {
+    throw new SpecValidationError(
+      spec.content === undefined ? diagnostics : locateDiagnostics(diagnostics, spec.content),
+    );
+  }
+
+  return generateCode(spec.document, {
+    ...projectConfig,
+    source: typeof source === 'string' ? source : undefined,
+    templates: await loadTemplates(projectConfig.templates, resolve(cwd ?? process.cwd())),
+  });
+};
+
+/**
+ * Write generated files to a target directory, keeping a manifest to remove stale files and
+ * protect files edited by hand (see `writeGeneratedFiles`).
+ *
+ * @throws ModifiedFilesError if a file that would be overwritten or deleted was edited by hand
+ */
+export const write = async (
+  files: GeneratedFiles,
+  targetDir: string,
+  options: WriteFilesOptions = {},
+): Promise<WriteResult> => {
+  const {cwd, ...writeOptions} = options;
+  return writeGeneratedFiles(files, resolve(cwd ?? process.cwd(), targetDir), writeOptions);
+};
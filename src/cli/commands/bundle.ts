@@ -0,0 +1,81 @@
+import {mkdir, writeFile} from 'node:fs/promises';
+import {dirname, extname, resolve} from 'node:path';
+import chalk from 'chalk';
+import {stringify as stringifyYaml} from 'yaml';
+import {prepareSpec} from '../../codegen/index.js';
+import {dereferenceDocument} from '../../parser/index.js';
+import {
+  CliError,
+  getErrorMessage,
+  loadSpec,
+  printRemoteDocuments,
+  resolveSpecTarget,
+  type SpecTargetOptions,
+} from '../utils.js';
+
+/**
+ * Formats the bundled spec can be written in.
+ */
+export type BundleFormat = 'json' | 'yaml';
+
+export const BUNDLE_FORMATS: BundleFormat[] = ['json', 'yaml'];
+
+export interface BundleOptions extends SpecTargetOptions {
+  /** File to write the bundled spec to; printed if not given */
+  output?: string;
+  /** Defaults to the format of `output`'s extension, or JSON */
+  format?: BundleFormat;
+  /** Replace every $ref with a copy of its target */
+  dereference?: boolean;
+  verbose?: boolean;
+}
+
+/**
+ * Serialize a document as JSON or YAML.
+ */
+const formatDocument = (document: unknown, format: BundleFormat): string => {
+  if (format === 'yaml') {
+    return stringifyYaml(document, {aliasDuplicateObjects: false, lineWidth: 0});
+  }
+  return `${JSON.stringify(document, null, 2)}\n`;
+};
+
+/**
+ * Write the document code is generated from: the spec with its referenced files bundled in,
+ * the config's overlays, plugins and filter applied and default operationIds and tags filled in,
+ * and with `dereference`, every $ref replaced by its target.
+ */
+export const bundle = async (options: BundleOptions): Promise<void> => {
+  const toStdout = options.output === undefined;
+  // Keep printed specs parseable
+  const log = toStdout ? console.error : console.log;
+  const verbose = (options.verbose ?? false) && !toStdout;
+
+  const {source, options: projectOptions, fetch, overlays} = await resolveSpecTarget(options, verbose);
+  const spec = await loadSpec(source, verbose, fetch, overlays);
+  printRemoteDocuments(spec.remote, log);
+
+  let document;
+  try {
+    document = prepareSpec(spec.document, projectOptions);
+  } catch (error) {
+    throw new CliError(`Failed to prepare the spec: ${getErrorMessage(error)}`);
+  }
+  if (options.dereference) {
+    document = dereferenceDocument(document);
+  }
+
+  const extension = extname(options.output ?? '').toLowerCase();
+  const format = options.format ?? (extension === '.yaml' || extension === '.yml' ? 'yaml' : 'json');
+  const content = formatDocument(document, format);
+
+  if (toStdout) {
+    process.stdout.write(content);
+    return;
+  }
+
+  const outputPath = resolve(options.output!);
+  await mkdir(dirname(outputPath), {recursive: true});
+  await writeFile(outputPath, content, 'utf-8');
+  log(chalk.green(`Wrote ${format.toUpperCase()} spec to ${options.output}`));
+};
@@ -0,0 +1,120 @@
+import chalk from 'chalk';
+import {diffSpecs, type SpecChange, type SpecDiff} from '../../diff/index.js';
+import type {ReportFormat} from '../diagnostics.js';
+import {
+  CliError,
+  createOverridePatch,
+  getFetchOptions,
+  getProjectOptions,
+  loadOptionalConfig,
+  loadSpec,
+  printRemoteDocuments,
+  resolveSpecSource,
+} from '../utils.js';
+
+export interface DiffOptions {
+  /** Previous version of the spec, file or URL */
+  oldSpec?: string;
+  /** New version of the spec, file or URL */
+  newSpec?: string;
+  config?: string;
+  /** Project whose codegen options are used when the config has several */
+  project?: string[];
+  /** `key=value` pairs overriding codegen options, e.g. `codegen.clientSuffix=Api` */
+  set?: string[];
+  /** Only use cached copies of remote specs */
+  offline?: boolean;
+  format?: ReportFormat;
+  verbose?: boolean;
+}
+
+const STATUS_MARKERS = {added: chalk.green('+'), removed: chalk.red('-'), changed: chalk.yellow('~')};
+
+/**
+ * Print a list of changes under a heading.
+ */
+const printChanges = (title: string, color: (text: string) => string, changes: SpecChange[]): void => {
+  if (changes.length === 0) return;
+
+  console.log(color(`${title} (${changes.length}):`));
+  for (const change of changes) {
+    console.log(`  ${change.message} ${chalk.dim(`[${change.code}]`)}`);
+    console.log(chalk.dim(`    at ${change.pointer || '/'}`));
+  }
+  console.log();
+};
+
+/**
+ * Print the diff as a report of breaking and non-breaking changes and affected files.
+ */
+const printDiff = (diff: SpecDiff): void => {
+  if (diff.changes.length === 0) {
+    console.log(chalk.green('No changes found'));
+    return;
+  }
+
+  printChanges(
+    'Breaking changes',
+    chalk.red,
+    diff.changes.filter((change) => change.breaking),
+  );
+  printChanges(
+    'Non-breaking changes',
+    chalk.green,
+    diff.changes.filter((change) => !change.breaking),
+  );
+
+  console.log(chalk.yellow('Affected files:'));
+  for (const file of diff.files) {
+    const className = file.className ? chalk.dim(` (${file.className})`) : '';
+    console.log(`  ${STATUS_MARKERS[file.status]} ${chalk.cyan(file.fileName)}${className}`);
+  }
+  console.log();
+
+  const color = diff.breakingCount > 0 ? chalk.red : chalk.green;
+  console.log(
+    color(
+      `Found ${diff.breakingCount} breaking change(s) and ${diff.changes.length - diff.breakingCount} non-breaking change(s)`,
+    ),
+  );
+};
+
+/**
+ * Compare two versions of a spec and report breaking changes for the generated clients.
+ * Sets a non-zero exit code when breaking changes are found.
+ */
+export const diff = async (options: DiffOptions): Promise<void> => {
+  const format = options.format ?? 'text';
+  // Keep JSON output parseable
+  const verbose = (options.verbose ?? false) && format === 'text';
+
+  if (!options.oldSpec || !options.newSpec) {
+    throw new CliError('Missing specs to compare', 'Usage: opencodegen diff <old> <new>');
+  }
+
+  const cliConfig = await loadOptionalConfig(options.config, verbose);
+  const patch = createOverridePatch({set: options.set}, process.cwd());
+  const oldSource = resolveSpecSource(options.oldSpec, process.cwd());
+  const newSource = resolveSpecSource(options.newSpec, process.cwd());
+
+  const projectOptions = getProjectOptions(cliConfig?.config, options.project, patch);
+  const fetch = getFetchOptions(projectOptions.sourceOptions, cliConfig?.configDir ?? process.cwd(), options.offline);
+
+  const oldSpec = await loadSpec(oldSource, verbose, fetch);
+  const newSpec = await loadSpec(newSource, verbose, fetch);
+  if (format === 'text') {
+    printRemoteDocuments([...oldSpec.remote, ...newSpec.remote]);
+  }
+
+  const result = diffSpecs(oldSpec.document, newSpec.document, projectOptions.codegen);
+
+  if (format === 'json') {
+    console.log(JSON.stringify({old: oldSource, new: newSource, ...result}, null, 2));
+  } else {
+    printDiff(result);
+  }
+
+  if (result.breakingCount > 0) {
+    process.exitCode = 1;
+  }
+};
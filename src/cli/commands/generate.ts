@@ -1,124 +1,357 @@
 import chalk from 'chalk';
-import {existsSync} from 'node:fs';
-import {resolve} from 'node:path';
-import {generateCode, writeGeneratedFiles} from '../../codegen/index.js';
-import {loadConfig} from '../../config/loader.js';
-import {getSpecSummary, parseOpenApiSpec} from '../../parser/index.js';
+import {relative, resolve} from 'node:path';
+import {
+  checkGeneratedFiles,
+  generateCode,
+  getTemplateFiles,
+  loadTemplates,
+  ModifiedFilesError,
+  writeGeneratedFiles,
+  type GeneratedFiles,
+} from '../../codegen/index.js';
+import type {ConfigOverrides} from '../../config/overrides.js';
+import {CODEGEN_DEFAULTS, type ProjectConfig} from '../../config/schema.js';
+import {createUnifiedDiff} from '../../diff/unified.js';
+import {getSpecSummary, locateDiagnostics, validateSpec} from '../../parser/index.js';
+import {printDiagnostics} from '../diagnostics.js';
+import {
+  CliError,
+  createOverridePatch,
+  DEFAULT_CONFIG_FILE,
+  findCliConfig,
+  getErrorMessage,
+  getFetchOptions,
+  loadCliConfig,
+  loadSpec,
+  printRemoteDocuments,
+  resolveOverlays,
+  resolveSpecSource,
+  selectProjects,
+} from '../utils.js';
+import {createFileWatcher} from '../watch.js';
 
-export interface GenerateOptions {
+export interface GenerateOptions extends ConfigOverrides {
   config?: string;
   verbose?: boolean;
+  /** Regenerate when the config or spec files change */
+  watch?: boolean;
+  /** Compare generated code with the target directory instead of writing it */
+  check?: boolean;
+  /** Overwrite generated files even if they were edited by hand */
+  force?: boolean;
+  /** Generate only the projects with these names */
+  project?: string[];
+  /** Only use cached copies of remote specs */
+  offline?: boolean;
 }
 
 /**
- * Print an error message and exit.
- * Throws after exit to help TypeScript understand control flow.
+ * State for a single generation run.
  */
-const exitWithError = (message: string, hint?: string): never => {
-  console.error(chalk.red(`Error: ${message}`));
-  if (hint) {
-    console.error(chalk.dim(hint));
-  }
-  process.exit(1);
-  throw new Error(message); // Never reached, but helps TypeScript
-};
+interface GenerateRun {
+  /** Re-import the config file instead of using the cached module */
+  reload: boolean;
+  /** Print a one-line summary instead of the spec summary and file list */
+  concise: boolean;
+  /** Local files the run depends on, collected as they become known */
+  files: Set<string>;
+}
+
+const isLocalFile = (source: string): boolean => !source.startsWith('http://') && !source.startsWith('https://');
 
 /**
- * Extract error message from unknown error.
+ * Color a unified diff for the terminal.
  */
-const getErrorMessage = (error: unknown): string => {
-  return error instanceof Error ? error.message : String(error);
+const colorDiff = (diff: string): string => {
+  return diff
+    .split('\n')
+    .map((line) => {
+      if (line.startsWith('+++') || line.startsWith('---')) return chalk.bold(line);
+      if (line.startsWith('@@')) return chalk.cyan(line);
+      if (line.startsWith('+')) return chalk.green(line);
+      if (line.startsWith('-')) return chalk.red(line);
+      return line;
+    })
+    .join('\n');
 };
 
-export const generate = async (options: GenerateOptions): Promise<void> => {
-  const configPath = resolve(options.config ?? 'opencodegen.config.ts');
-  const verbose = options.verbose ?? false;
-
-  // Check config file exists
-  if (!existsSync(configPath)) {
-    exitWithError(
-      `Config file not found: ${configPath}`,
-      'Create an opencodegen.config.ts file or specify one with --config',
-    );
-  }
+/**
+ * Where a project's output goes: the console for a single project, or a buffer so the
+ * output of projects generated in parallel doesn't interleave.
+ */
+type Log = (message?: string) => void;
 
-  // Load config
-  if (verbose) {
-    console.log(chalk.dim(`Loading config from ${configPath}`));
+/**
+ * Print an error and its hint without exiting.
+ */
+const printError = (error: unknown, log: Log = console.error): void => {
+  log(chalk.red(`Error: ${getErrorMessage(error)}`));
+  if (error instanceof CliError && error.hint) {
+    log(chalk.dim(error.hint));
   }
+};
 
-  let config;
+/**
+ * Compare generated files with the target directory and print a unified diff for each difference.
+ * Throws a `CliError` if anything differs.
+ */
+const checkTarget = async (files: GeneratedFiles, targetDir: string, target: string, log: Log): Promise<void> => {
+  let differences;
   try {
-    config = await loadConfig(configPath);
+    differences = await checkGeneratedFiles(files, targetDir);
   } catch (error) {
-    throw exitWithError(`Failed to load config: ${getErrorMessage(error)}`);
+    throw new CliError(`Failed to read generated files: ${getErrorMessage(error)}`);
+  }
+
+  if (differences.length === 0) {
+    log(chalk.green(`Generated files in ${target} are up to date`));
+    return;
   }
 
+  for (const {fileName, status, actual, expected} of differences) {
+    const oldLabel = status === 'missing' ? '/dev/null' : `a/${fileName}`;
+    const newLabel = status === 'extra' ? '/dev/null' : `b/${fileName}`;
+    log(colorDiff(createUnifiedDiff(actual, expected, oldLabel, newLabel)));
+  }
+
+  const counts = (['changed', 'missing', 'extra'] as const)
+    .map((status) => [status, differences.filter((d) => d.status === status).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([status, count]) => `${count} ${status}`);
+  throw new CliError(
+    `Generated files in ${target} are out of date (${counts.join(', ')})`,
+    'Run opencodegen to regenerate them',
+  );
+};
+
+/**
+ * Load a project's spec, validate, generate and write the files.
+ * Throws a `CliError` on failure.
+ */
+const generateProject = async (
+  project: ProjectConfig,
+  configDir: string,
+  options: GenerateOptions,
+  run: GenerateRun,
+  log: Log,
+): Promise<void> => {
+  const verbose = options.verbose ?? false;
+
   if (verbose) {
-    console.log(chalk.yellow('Configuration:'));
-    console.log(`  Source: ${chalk.cyan(config.source)}`);
-    console.log(`  Target: ${chalk.cyan(config.target)}`);
-    console.log(`  Date type: ${chalk.cyan(config.codegen.dateType)}`);
-    console.log(`  Enum type: ${chalk.cyan(config.codegen.enumType)}`);
-    console.log();
+    log(chalk.yellow('Configuration:'));
+    log(`  Source: ${chalk.cyan(project.source)}`);
+    log(`  Target: ${chalk.cyan(project.target)}`);
+    log(`  Date type: ${chalk.cyan(project.codegen?.dateType ?? CODEGEN_DEFAULTS.dateType)}`);
+    log(`  Enum type: ${chalk.cyan(project.codegen?.enumType ?? CODEGEN_DEFAULTS.enumType)}`);
+    log();
   }
 
   // Determine source - URL or file path
-  const isUrl = config.source.startsWith('http://') || config.source.startsWith('https://');
-  const source = isUrl ? config.source : resolve(configPath, '..', config.source);
-
-  // Check file exists (only for local files)
-  if (!isUrl && !existsSync(source)) {
-    exitWithError(`OpenAPI spec not found: ${source}`);
+  const source = resolveSpecSource(project.source, configDir);
+  if (isLocalFile(source)) {
+    run.files.add(source);
   }
 
   // Parse OpenAPI spec
   if (verbose) {
-    console.log(chalk.dim(`Parsing OpenAPI spec from ${source}`));
+    log(chalk.dim(`Parsing OpenAPI spec from ${source}`));
+  }
+  const overlays = resolveOverlays(project.overlays, configDir);
+  const fetch = getFetchOptions(project.sourceOptions, configDir, options.offline);
+  const spec = await loadSpec(source, false, fetch, overlays);
+  const doc = spec.document;
+  printRemoteDocuments(spec.remote, log);
+  for (const file of spec.sources.filter(isLocalFile)) {
+    run.files.add(file);
   }
 
-  let doc;
-  try {
-    doc = await parseOpenApiSpec(source);
-  } catch (error) {
-    throw exitWithError(`Failed to parse OpenAPI spec: ${getErrorMessage(error)}`);
+  // Validate before generating so problems are reported with their location
+  const diagnostics = locateDiagnostics(validateSpec(doc), spec.content);
+  printDiagnostics(diagnostics, source, log);
+
+  const errorCount = diagnostics.filter((d) => d.severity === 'error').length;
+  if (errorCount > 0) {
+    throw new CliError(`OpenAPI spec has ${errorCount} validation error(s)`);
   }
 
-  const summary = getSpecSummary(doc);
+  if (!run.concise) {
+    const summary = getSpecSummary(doc);
 
-  console.log(chalk.green(`Parsed: ${summary.title} v${summary.version}`));
-  console.log(`  OpenAPI: ${summary.openApiVersion}`);
-  console.log(`  Paths: ${summary.pathCount}`);
-  console.log(`  Operations: ${summary.operationCount}`);
-  console.log(`  Schemas: ${summary.schemaCount}`);
-  if (summary.tags.length > 0) {
-    console.log(`  Tags: ${summary.tags.join(', ')}`);
+    log(chalk.green(`Parsed: ${summary.title} v${summary.version}`));
+    log(`  OpenAPI: ${summary.openApiVersion}`);
+    log(`  Paths: ${summary.pathCount}`);
+    log(`  Operations: ${summary.operationCount}`);
+    log(`  Schemas: ${summary.schemaCount}`);
+    if (summary.tags.length > 0) {
+      log(`  Tags: ${summary.tags.join(', ')}`);
+    }
+    log();
   }
-  console.log();
 
   // Generate code
   if (verbose) {
-    console.log(chalk.dim('Generating code...'));
+    log(chalk.dim('Generating code...'));
   }
 
-  const files = generateCode(doc, config);
+  for (const file of getTemplateFiles(project.templates, configDir)) {
+    run.files.add(file);
+  }
 
-  // Write files
-  const targetDir = resolve(configPath, '..', config.target);
+  let files;
+  try {
+    const templates = await loadTemplates(project.templates, configDir, run.reload);
+    files = generateCode(doc, {...project, templates});
+  } catch (error) {
+    throw new CliError(`Failed to generate code: ${getErrorMessage(error)}`);
+  }
+
+  const targetDir = resolve(configDir, project.target);
 
+  if (options.check) {
+    return checkTarget(files, targetDir, project.target, log);
+  }
+
+  // Write files
   if (verbose) {
-    console.log(chalk.dim(`Writing files to ${targetDir}`));
+    log(chalk.dim(`Writing files to ${targetDir}`));
   }
 
+  let result;
   try {
-    await writeGeneratedFiles(files, targetDir);
+    result = await writeGeneratedFiles(files, targetDir, {force: options.force});
   } catch (error) {
-    throw exitWithError(`Failed to write generated files: ${getErrorMessage(error)}`);
+    if (error instanceof ModifiedFilesError) {
+      throw new CliError(
+        `Refusing to overwrite files edited since they were generated: ${error.files.join(', ')}`,
+        'Move your changes out of the generated files, or run with --force to discard them',
+      );
+    }
+    throw new CliError(`Failed to write generated files: ${getErrorMessage(error)}`);
   }
 
   // Success message
-  console.log(chalk.green(`Generated ${files.size} file(s) in ${config.target}`));
-  for (const filename of files.keys()) {
-    console.log(`  ${chalk.cyan(filename)}`);
+  const details = [
+    `${result.written.length} written`,
+    `${result.unchanged.length} unchanged`,
+    ...(result.deleted.length > 0 ? [`${result.deleted.length} removed`] : []),
+  ];
+  log(chalk.green(`Generated ${files.size} file(s) in ${project.target} (${details.join(', ')})`));
+  if (!run.concise) {
+    for (const filename of files.keys()) {
+      const unchanged = result.unchanged.includes(filename);
+      log(`  ${unchanged ? chalk.dim(filename) : chalk.cyan(filename)}`);
+    }
+    for (const filename of result.deleted) {
+      log(`  ${chalk.red(`${filename} (removed)`)}`);
+    }
+  }
+};
+
+/**
+ * Load the config and generate each selected project. Several projects are generated in
+ * parallel, and each project's output is printed as a block once all have finished.
+ * Throws a `CliError` on failure, after the other projects are done.
+ */
+const runGenerate = async (options: GenerateOptions, run: GenerateRun): Promise<void> => {
+  // Watch the config before loading it, so fixing a config that fails to load triggers a rebuild
+  const foundConfig = findCliConfig(options.config);
+  if (foundConfig) {
+    run.files.add(foundConfig);
+  }
+
+  const {config, configDir} = await loadCliConfig(options.config, options.verbose ?? false, run.reload, options);
+
+  const projects = selectProjects(config, options.project, createOverridePatch(options, configDir));
+
+  if (projects.length === 1) {
+    return generateProject(projects[0], configDir, options, run, console.log);
+  }
+
+  const results = await Promise.all(
+    projects.map(async (project) => {
+      const lines: string[] = [];
+      const log: Log = (message = '') => lines.push(message);
+      try {
+        await generateProject(project, configDir, options, run, log);
+        return {project, lines, failed: false};
+      } catch (error) {
+        printError(error, log);
+        return {project, lines, failed: true};
+      }
+    }),
+  );
+
+  for (const {project, lines} of results) {
+    console.log(chalk.bold(`[${project.name}]`));
+    for (const line of lines) {
+      console.log(line);
+    }
+    console.log();
+  }
+
+  const failed = results.filter((result) => result.failed).map((result) => result.project.name);
+  if (failed.length > 0) {
+    throw new CliError(`${failed.length} of ${projects.length} project(s) failed: ${failed.join(', ')}`);
+  }
+  console.log(chalk.green(`${options.check ? 'Checked' : 'Generated'} ${projects.length} project(s)`));
+};
+
+/**
+ * Generate once, then regenerate whenever the config, the spec or a file it references changes.
+ * Errors are printed and the watcher keeps running until the process is stopped.
+ */
+const watchGenerate = async (options: GenerateOptions): Promise<void> => {
+  let watchedFiles = new Set<string>();
+  let running = false;
+  let pending = false;
+
+  const rebuild = async (concise: boolean) => {
+    if (running) {
+      pending = true;
+      return;
+    }
+    running = true;
+
+    const run: GenerateRun = {reload: concise, concise, files: new Set()};
+    const startTime = performance.now();
+    try {
+      await runGenerate(options, run);
+      console.log(chalk.dim(`Done in ${Math.round(performance.now() - startTime)}ms`));
+      watchedFiles = run.files;
+    } catch (error) {
+      printError(error);
+      // Keep watching what the previous run saw, so fixing any of it triggers a rebuild
+      watchedFiles = new Set([...watchedFiles, ...run.files]);
+    }
+
+    if (watchedFiles.size === 0) {
+      watchedFiles.add(findCliConfig(options.config) ?? resolve(DEFAULT_CONFIG_FILE));
+    }
+    watcher.setFiles([...watchedFiles]);
+    console.log(chalk.dim(`Watching ${watchedFiles.size} file(s) for changes...`));
+
+    running = false;
+    if (pending) {
+      pending = false;
+      await rebuild(true);
+    }
+  };
+
+  const watcher = createFileWatcher((changed) => {
+    console.log();
+    console.log(chalk.yellow(`Changed: ${changed.map((file) => relative(process.cwd(), file)).join(', ')}`));
+    void rebuild(true);
+  });
+
+  await rebuild(false);
+};
+
+export const generate = async (options: GenerateOptions): Promise<void> => {
+  if (options.watch && options.check) {
+    throw new CliError('--check cannot be combined with --watch');
+  }
+  if (options.watch) {
+    return watchGenerate(options);
   }
+  await runGenerate(options, {reload: false, concise: false, files: new Set()});
 };
@@ -5,16 +5,78 @@ export const printHelp = (): void => {
 ${chalk.green('opencodegen')} - Generate typed API clients from OpenAPI specifications
 
 ${chalk.yellow('Usage:')}
-  opencodegen [options]
+  opencodegen [command] [options]
+
+${chalk.yellow('Commands:')}
+  generate             Generate code from the spec in the config (default)
+  init                 Create a config file, prompting for each option
+  validate [spec]      Check the spec for structural problems
+  lint [spec]          Check the spec against the style rules in the config
+  diff <old> <new>     Report breaking changes between two versions of a spec
+  bundle [spec]        Write the spec as code is generated from it, as one document
+  inspect [spec]       List operations with their client methods, and schemas with their types
 
 ${chalk.yellow('Options:')}
-  -c, --config <path>  Path to config file (default: opencodegen.config.ts)
+  -c, --config <path>  Path to config file (default: found from the current directory)
+  -p, --project <name> Only use this project from a config with several (repeatable)
+      --source <path>  Use this spec file or URL instead of the config's source;
+                       with --target, no config file is needed
+      --target <path>  Write generated files here instead of the config's target
+      --set <key=value>
+                       Override a config option, e.g. codegen.enumType=union (repeatable)
+  -f, --format <type>  Output format for validate, lint, diff and inspect: text, json
+                       (default: text); for bundle: json, yaml (default: from --output, or json)
+      --strict         Exit with an error on warnings too (validate and lint)
+      --offline        Use cached copies of remote specs instead of fetching them
+  -o, --output <path>  Write the bundled spec to this file instead of printing it
+      --dereference    Replace every $ref in the bundled spec with its target
+  -w, --watch          Regenerate when the config, spec or referenced files change
+      --check          Exit with an error if the generated files are out of date
+      --force          Overwrite generated files even if they were edited by hand,
+                       or an existing config file (init)
       --verbose        Show detailed output
   -h, --help           Show this help message
   -v, --version        Show version number
 
+${chalk.yellow('Inspect options:')}
+      --tag <tag>, --path <glob>, --method <method>, --operation <operationId>
+                       Only list operations matching each option given, and the schemas
+                       they use (repeatable)
+
+${chalk.yellow('Init options:')}
+      --source <path>  OpenAPI spec file or URL (default: detected in the project)
+      --target <path>  Output directory (default: ./src/api)
+      --date-type <type>, --enum-type <type>, --property-name-style <style>,
+      --nullable-type <type>, --client-suffix <suffix>
+                       Codegen options, see CodegenConfig
+  -y, --yes            Don't prompt; use flags and defaults
+
+${chalk.yellow('Config files:')}
+  Searched for in the current directory, then each parent, in this order:
+  opencodegen.config.{ts,js,mjs,cjs,json,yaml,yml}, or an "opencodegen" key in package.json
+
+${chalk.yellow('Remote specs:')}
+  Specs fetched from URLs are cached in node_modules/.cache/opencodegen next to the config
+  and revalidated on each run. The cached copy is used if the server can't be reached.
+
+${chalk.yellow('Exit codes:')}
+  0  Success, or only warnings were found
+  1  Errors or breaking changes were found, generated files are out of date (--check),
+     or the command failed
+
 ${chalk.yellow('Examples:')}
-  opencodegen                        # Use default config file
+  opencodegen                        # Use the config found from here
   opencodegen --config my.config.ts  # Use custom config file
+  opencodegen --watch                # Regenerate on every change
+  opencodegen --check                # Verify generated files in CI
+  opencodegen -p billing -p users    # Generate two of the config's projects
+  opencodegen --source https://staging.example.com/openapi.json --target ./tmp/api
+  opencodegen --set codegen.enumType=union --set codegen.dateType=Date
+  opencodegen init --yes --source ./openapi.yaml --enum-type union
+  opencodegen validate ./openapi.yaml
+  opencodegen lint --format json     # Lint the spec from the config as JSON
+  opencodegen diff ./main.yaml ./openapi.yaml
+  opencodegen bundle -o dist/openapi.yaml --dereference
+  opencodegen inspect --tag pets --method get
 `);
 };
@@ -0,0 +1,177 @@
+import chalk from 'chalk';
+import {existsSync} from 'node:fs';
+import {mkdir, writeFile} from 'node:fs/promises';
+import {dirname, relative, resolve} from 'node:path';
+import {createInterface, type Interface} from 'node:readline/promises';
+import {findConfigFile} from '../../config/discovery.js';
+import {
+  CODEGEN_OPTIONS,
+  DEFAULT_TARGET,
+  detectSpecFiles,
+  getConfigFileFormat,
+  renderConfigFile,
+} from '../../config/scaffold.js';
+import type {CodegenConfig, ProjectConfig} from '../../config/schema.js';
+import {CliError, DEFAULT_CONFIG_FILE, getErrorMessage} from '../utils.js';
+
+export interface InitOptions {
+  /** Where to write the config file */
+  config?: string;
+  source?: string;
+  target?: string;
+  /** Codegen options given as flags, keyed by `CodegenConfig` property */
+  codegen?: Partial<Record<keyof CodegenConfig, string>>;
+  /** Don't prompt; use flags, the detected spec and defaults */
+  yes?: boolean;
+  /** Overwrite an existing config file */
+  force?: boolean;
+}
+
+/**
+ * Turn a `CodegenConfig` key into its flag name, e.g. `dateType` -> `--date-type`.
+ */
+const toFlagName = (key: string): string => `--${key.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`)}`;
+
+/**
+ * Ask a question, returning the default when the answer is empty.
+ */
+const ask = async (rl: Interface, question: string, defaultValue?: string): Promise<string> => {
+  const suffix = defaultValue ? chalk.dim(` (${defaultValue})`) : '';
+  const answer = (await rl.question(`${question}${suffix}: `)).trim();
+  return answer || defaultValue || '';
+};
+
+/**
+ * Ask until one of the choices is given.
+ */
+const askChoice = async (rl: Interface, question: string, choices: string[], defaultValue: string): Promise<string> => {
+  for (;;) {
+    const answer = await ask(rl, `${question} [${choices.join('/')}]`, defaultValue);
+    if (choices.includes(answer)) return answer;
+    console.log(chalk.yellow(`  Please choose one of: ${choices.join(', ')}`));
+  }
+};
+
+/**
+ * Check codegen options given as flags against their allowed values.
+ */
+const validateCodegenFlags = (codegen: InitOptions['codegen'] = {}): void => {
+  for (const {key, choices} of CODEGEN_OPTIONS) {
+    const value = codegen[key];
+    if (value !== undefined && !(choices as string[]).includes(value)) {
+      throw new CliError(`Invalid value for ${toFlagName(key)}: ${value}`, `Use one of: ${choices.join(', ')}`);
+    }
+  }
+};
+
+/**
+ * Make a path typed relative to the current directory relative to the config file instead.
+ * URLs are kept as-is.
+ */
+const relativeToConfig = (path: string, configPath: string): string => {
+  if (path.startsWith('http://') || path.startsWith('https://')) return path;
+  const relativePath = relative(dirname(configPath), resolve(path)) || '.';
+  return relativePath.startsWith('.') ? relativePath : `./${relativePath}`;
+};
+
+/**
+ * Collect the config from flags, detected spec files and defaults, without prompting.
+ */
+const collectFromFlags = (options: InitOptions, detected: string[]): ProjectConfig => {
+  const source = options.source ?? detected[0];
+  if (!source) {
+    throw new CliError('No OpenAPI spec found in this project', 'Specify one with --source');
+  }
+
+  const codegen = Object.fromEntries(
+    CODEGEN_OPTIONS.map(({key, default: defaultValue}) => [key, options.codegen?.[key] ?? defaultValue]),
+  ) as unknown as CodegenConfig;
+
+  return {source, target: options.target ?? DEFAULT_TARGET, codegen};
+};
+
+/**
+ * Collect the config by prompting for each value not given as a flag.
+ */
+const collectFromPrompts = async (options: InitOptions, detected: string[]): Promise<ProjectConfig> => {
+  const rl = createInterface({input: process.stdin, output: process.stdout});
+
+  try {
+    if (detected.length > 0) {
+      console.log(chalk.dim(`Found spec files: ${detected.join(', ')}`));
+    }
+
+    const source = options.source ?? (await ask(rl, 'OpenAPI spec (file or URL)', detected[0]));
+    if (!source) {
+      throw new CliError('An OpenAPI spec is required', 'Specify one with --source');
+    }
+    const target = options.target ?? (await ask(rl, 'Output directory', DEFAULT_TARGET));
+
+    const codegen: Record<string, string> = {};
+    for (const {key, label, choices, default: defaultValue} of CODEGEN_OPTIONS) {
+      codegen[key] = options.codegen?.[key] ?? (await askChoice(rl, label, choices, defaultValue));
+    }
+
+    return {source, target, codegen: codegen as unknown as CodegenConfig};
+  } catch (error) {
+    // Ctrl+C or Ctrl+D while prompting
+    if ((error as NodeJS.ErrnoException).code === 'ABORT_ERR') {
+      throw new CliError('Cancelled, no config written');
+    }
+    throw error;
+  } finally {
+    rl.close();
+  }
+};
+
+/**
+ * Scaffold a config file: a module that uses `defineConfig`, or JSON or YAML for a `.json`,
+ * `.yaml` or `.yml` path. Prompts for values not given as flags, unless `yes` is set or stdin
+ * is not a terminal.
+ */
+export const init = async (options: InitOptions): Promise<void> => {
+  const configPath = resolve(options.config ?? DEFAULT_CONFIG_FILE);
+
+  const format = getConfigFileFormat(configPath);
+  if (!format) {
+    throw new CliError(
+      `Can't create a config file at ${configPath}`,
+      'Use a .ts, .js, .mjs, .json, .yaml or .yml file',
+    );
+  }
+
+  if (existsSync(configPath) && !options.force) {
+    throw new CliError(`Config file already exists: ${configPath}`, 'Run with --force to overwrite it');
+  }
+
+  // Another config in the same directory would hide the new one, or be hidden by it
+  const existing = findConfigFile(dirname(configPath));
+  if (existing && dirname(existing) === dirname(configPath) && !options.force) {
+    throw new CliError(`A config already exists in this directory: ${existing}`, 'Run with --force to add another');
+  }
+
+  validateCodegenFlags(options.codegen);
+
+  const detected = detectSpecFiles(process.cwd());
+  const interactive = !options.yes && process.stdin.isTTY === true;
+  const config = interactive ? await collectFromPrompts(options, detected) : collectFromFlags(options, detected);
+
+  const content = renderConfigFile(
+    {
+      ...config,
+      source: relativeToConfig(config.source, configPath),
+      target: relativeToConfig(config.target, configPath),
+    },
+    format,
+  );
+
+  try {
+    await mkdir(dirname(configPath), {recursive: true});
+    await writeFile(configPath, content, 'utf-8');
+  } catch (error) {
+    throw new CliError(`Failed to write config: ${getErrorMessage(error)}`);
+  }
+
+  console.log(chalk.green(`Created ${relative(process.cwd(), configPath)}`));
+  console.log(chalk.dim('Run opencodegen to generate your client'));
+};
@@ -0,0 +1,89 @@
+import chalk from 'chalk';
+import type {OperationFilter} from '../../config/schema.js';
+import {inspectSpec, prepareSpec, type ClientOperation, type SpecInspection} from '../../codegen/index.js';
+import type {ReportFormat} from '../diagnostics.js';
+import {
+  CliError,
+  getErrorMessage,
+  loadSpec,
+  printRemoteDocuments,
+  resolveSpecTarget,
+  type SpecTargetOptions,
+} from '../utils.js';
+
+export interface InspectOptions extends SpecTargetOptions {
+  /** Only list the operations matching every criterion, and the schemas they use */
+  filter?: OperationFilter;
+  format?: ReportFormat;
+  verbose?: boolean;
+}
+
+/**
+ * Format the parameters of an operation, e.g. `petId: string (path), limit?: number (query)`.
+ */
+const formatParameters = (operation: ClientOperation): string => {
+  return operation.parameters
+    .map((param) => `${param.name}${param.required ? '' : '?'}: ${param.type} ${chalk.dim(`(${param.in})`)}`)
+    .join(', ');
+};
+
+/**
+ * Print each operation with its client methods, and each schema with its type name.
+ */
+const printInspection = ({operations, schemas}: SpecInspection): void => {
+  console.log(chalk.yellow(`Operations (${operations.length}):`));
+  for (const operation of operations) {
+    const deprecated = operation.deprecated ? chalk.red(' (deprecated)') : '';
+    console.log(`  ${chalk.bold(operation.method)} ${chalk.cyan(operation.path)}${deprecated}`);
+    console.log(`    operationId  ${operation.operationId}`);
+    console.log(`    tags         ${operation.tags.join(', ')}`);
+    for (const client of operation.clients) {
+      const signature = `${operation.methodName}(${operation.arguments.join(', ')}): Promise<${operation.responseType}>`;
+      console.log(`    method       ${chalk.green(`${client}.${signature}`)}`);
+    }
+    if (operation.parameters.length > 0) {
+      console.log(`    parameters   ${formatParameters(operation)}`);
+    }
+    if (operation.bodyType) {
+      console.log(`    request      ${operation.bodyType}`);
+    }
+    console.log(`    response     ${operation.responseType}`);
+  }
+  console.log();
+
+  console.log(chalk.yellow(`Schemas (${schemas.length}):`));
+  const width = Math.max(0, ...schemas.map((schema) => schema.ref.length));
+  for (const schema of schemas) {
+    console.log(`  ${chalk.dim(schema.ref.padEnd(width))}  ${chalk.green(schema.typeName)}`);
+  }
+};
+
+/**
+ * List what code is generated from the spec: every operation with its client method, parameter,
+ * request and response types, and every schema with its type name.
+ */
+export const inspect = async (options: InspectOptions): Promise<void> => {
+  const format = options.format ?? 'text';
+  // Keep JSON output parseable
+  const verbose = (options.verbose ?? false) && format === 'text';
+
+  const {source, options: projectOptions, fetch, overlays} = await resolveSpecTarget(options, verbose);
+  const spec = await loadSpec(source, verbose, fetch, overlays);
+  if (format === 'text') {
+    printRemoteDocuments(spec.remote);
+  }
+
+  let inspection;
+  try {
+    const document = prepareSpec(spec.document, projectOptions);
+    inspection = inspectSpec(document, projectOptions.codegen ?? {}, options.filter);
+  } catch (error) {
+    throw new CliError(`Failed to prepare the spec: ${getErrorMessage(error)}`);
+  }
+
+  if (format === 'json') {
+    console.log(JSON.stringify({source, ...inspection}, null, 2));
+  } else {
+    printInspection(inspection);
+  }
+};
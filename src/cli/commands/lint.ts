@@ -0,0 +1,33 @@
+import {lintSpec, locateDiagnostics} from '../../parser/index.js';
+import {reportDiagnostics, type ReportFormat} from '../diagnostics.js';
+import {loadSpec, printRemoteDocuments, resolveSpecTarget, type SpecTargetOptions} from '../utils.js';
+
+export interface LintOptions extends SpecTargetOptions {
+  format?: ReportFormat;
+  /** Exit with an error on warnings too */
+  strict?: boolean;
+  verbose?: boolean;
+}
+
+/**
+ * Check the spec against the style rules configured in `lint.rules` without generating code.
+ * Sets a non-zero exit code when errors (or, with `strict`, warnings) are found.
+ */
+export const lint = async (options: LintOptions): Promise<void> => {
+  const format = options.format ?? 'text';
+  // Keep JSON output parseable
+  const verbose = (options.verbose ?? false) && format === 'text';
+
+  const {source, options: projectOptions, fetch, overlays} = await resolveSpecTarget(options, verbose);
+  const spec = await loadSpec(source, verbose, fetch, overlays);
+  if (format === 'text') {
+    printRemoteDocuments(spec.remote);
+  }
+
+  const diagnostics = locateDiagnostics(lintSpec(spec.document, projectOptions.lint), spec.content);
+  const {errorCount, warningCount} = reportDiagnostics(diagnostics, source, format);
+
+  if (errorCount > 0 || (options.strict && warningCount > 0)) {
+    process.exitCode = 1;
+  }
+};
@@ -0,0 +1,33 @@
+import {locateDiagnostics, validateSpec} from '../../parser/index.js';
+import {reportDiagnostics, type ReportFormat} from '../diagnostics.js';
+import {loadSpec, printRemoteDocuments, resolveSpecTarget, type SpecTargetOptions} from '../utils.js';
+
+export interface ValidateOptions extends SpecTargetOptions {
+  format?: ReportFormat;
+  /** Exit with an error on warnings too */
+  strict?: boolean;
+  verbose?: boolean;
+}
+
+/**
+ * Check the spec for structural problems without generating code.
+ * Sets a non-zero exit code when errors (or, with `strict`, warnings) are found.
+ */
+export const validate = async (options: ValidateOptions): Promise<void> => {
+  const format = options.format ?? 'text';
+  // Keep JSON output parseable
+  const verbose = (options.verbose ?? false) && format === 'text';
+
+  const {source, fetch, overlays} = await resolveSpecTarget(options, verbose);
+  const spec = await loadSpec(source, verbose, fetch, overlays);
+  if (format === 'text') {
+    printRemoteDocuments(spec.remote);
+  }
+
+  const diagnostics = locateDiagnostics(validateSpec(spec.document), spec.content);
+  const {errorCount, warningCount} = reportDiagnostics(diagnostics, source, format);
+
+  if (errorCount > 0 || (options.strict && warningCount > 0)) {
+    process.exitCode = 1;
+  }
+};
@@ -0,0 +1,77 @@
+import chalk from 'chalk';
+import {relative} from 'node:path';
+import type {Diagnostic} from '../parser/index.js';
+
+/**
+ * Format where a diagnostic was found: `file:line:column` when the position is known,
+ * otherwise the file name alone. URLs are printed as-is.
+ */
+const formatLocation = (diagnostic: Diagnostic, source: string): string => {
+  const file = source.startsWith('http://') || source.startsWith('https://') ? source : relative(process.cwd(), source);
+  if (diagnostic.line === undefined) {
+    return file;
+  }
+  return `${file}:${diagnostic.line}:${diagnostic.column}`;
+};
+
+/**
+ * Print diagnostics as a report grouped by severity.
+ *
+ * @param log - Where to print each line, e.g. a buffer for output that shouldn't interleave
+ */
+export const printDiagnostics = (
+  diagnostics: Diagnostic[],
+  source: string,
+  log: (message?: string) => void = console.log,
+): void => {
+  const groups = [
+    {title: 'Errors', color: chalk.red, items: diagnostics.filter((d) => d.severity === 'error')},
+    {title: 'Warnings', color: chalk.yellow, items: diagnostics.filter((d) => d.severity === 'warning')},
+  ];
+
+  for (const {title, color, items} of groups) {
+    if (items.length === 0) continue;
+
+    log(color(`${title} (${items.length}):`));
+    for (const diagnostic of items) {
+      log(
+        `  ${chalk.cyan(formatLocation(diagnostic, source))}  ${diagnostic.message} ${chalk.dim(`[${diagnostic.code}]`)}`,
+      );
+      log(chalk.dim(`    at ${diagnostic.pointer || '/'}`));
+    }
+    log();
+  }
+};
+
+/**
+ * Output format for commands that report diagnostics.
+ */
+export type ReportFormat = 'text' | 'json';
+
+/**
+ * Print diagnostics in the requested format and return how many of each severity were found.
+ * The JSON format prints a single object to stdout so it can be piped into other tools.
+ */
+export const reportDiagnostics = (
+  diagnostics: Diagnostic[],
+  source: string,
+  format: ReportFormat,
+): {errorCount: number; warningCount: number} => {
+  const errorCount = diagnostics.filter((d) => d.severity === 'error').length;
+  const warningCount = diagnostics.length - errorCount;
+
+  if (format === 'json') {
+    console.log(JSON.stringify({source, errorCount, warningCount, diagnostics}, null, 2));
+    return {errorCount, warningCount};
+  }
+
+  printDiagnostics(diagnostics, source);
+  if (diagnostics.length === 0) {
+    console.log(chalk.green('No problems found'));
+  } else {
+    const color = errorCount > 0 ? chalk.red : chalk.yellow;
+    console.log(color(`Found ${errorCount} error(s) and ${warningCount} warning(s)`));
+  }
+
+  return {errorCount, warningCount};
+};
@@ -1,19 +1,74 @@
 #!/usr/bin/env node
 import {parseArgs} from 'node:util';
 import {createRequire} from 'node:module';
+import {BUNDLE_FORMATS, bundle, type BundleFormat} from './commands/bundle.js';
+import {diff} from './commands/diff.js';
 import {generate} from './commands/generate.js';
 import {printHelp} from './commands/help.js';
+import {init} from './commands/init.js';
+import {inspect} from './commands/inspect.js';
+import {lint} from './commands/lint.js';
+import {validate} from './commands/validate.js';
+import type {OperationFilter} from '../config/schema.js';
+import type {ReportFormat} from './diagnostics.js';
+import {CliError, exitWithError} from './utils.js';
 
 const require = createRequire(import.meta.url);
 const packageJson = require('../../package.json') as {version: string};
 
+const FORMATS: ReportFormat[] = ['text', 'json'];
+
+type HttpMethod = NonNullable<OperationFilter['methods']>[number];
+
+const HTTP_METHODS: HttpMethod[] = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+/**
+ * Parse the `--method` values, which are case-insensitive.
+ *
+ * @throws CliError if a value isn't an HTTP method
+ */
+const parseMethods = (values: string[] | undefined): HttpMethod[] | undefined => {
+  return values?.map((value) => {
+    const method = HTTP_METHODS.find((candidate) => candidate === value.toLowerCase());
+    if (!method) {
+      throw new CliError(`Unknown HTTP method: ${value}`, `Use one of: ${HTTP_METHODS.join(', ')}`);
+    }
+    return method;
+  });
+};
+
 const main = async (): Promise<void> => {
-  const {values} = parseArgs({
+  const {values, positionals} = parseArgs({
     options: {
       help: {type: 'boolean', short: 'h'},
       version: {type: 'boolean', short: 'v'},
       config: {type: 'string', short: 'c'},
       verbose: {type: 'boolean'},
+      format: {type: 'string', short: 'f'},
+      strict: {type: 'boolean'},
+      watch: {type: 'boolean', short: 'w'},
+      check: {type: 'boolean'},
+      force: {type: 'boolean'},
+      project: {type: 'string', short: 'p', multiple: true},
+      source: {type: 'string'},
+      target: {type: 'string'},
+      set: {type: 'string', multiple: true},
+      offline: {type: 'boolean'},
+      // bundle
+      output: {type: 'string', short: 'o'},
+      dereference: {type: 'boolean'},
+      // inspect
+      tag: {type: 'string', multiple: true},
+      path: {type: 'string', multiple: true},
+      method: {type: 'string', multiple: true},
+      operation: {type: 'string', multiple: true},
+      // init
+      'date-type': {type: 'string'},
+      'enum-type': {type: 'string'},
+      'property-name-style': {type: 'string'},
+      'nullable-type': {type: 'string'},
+      'client-suffix': {type: 'string'},
+      yes: {type: 'boolean', short: 'y'},
     },
     allowPositionals: true,
   });
@@ -28,7 +83,115 @@ const main = async (): Promise<void> => {
     process.exit(0);
   }
 
-  await generate({config: values.config, verbose: values.verbose});
+  const [command = 'generate', ...args] = positionals;
+
+  const formats: string[] = command === 'bundle' ? BUNDLE_FORMATS : FORMATS;
+  if (values.format !== undefined && !formats.includes(values.format)) {
+    exitWithError(`Unknown format: ${values.format}`, `Use one of: ${formats.join(', ')}`);
+  }
+  const format = (values.format ?? 'text') as ReportFormat;
+  const checkOptions = {
+    spec: args[0] ?? values.source,
+    config: values.config,
+    project: values.project,
+    set: values.set,
+    offline: values.offline,
+    format,
+    strict: values.strict,
+    verbose: values.verbose,
+  };
+
+  try {
+    switch (command) {
+      case 'generate':
+        await generate({
+          config: values.config,
+          verbose: values.verbose,
+          watch: values.watch,
+          check: values.check,
+          force: values.force,
+          project: values.project,
+          source: values.source,
+          target: values.target,
+          set: values.set,
+          offline: values.offline,
+        });
+        break;
+      case 'validate':
+        await validate(checkOptions);
+        break;
+      case 'lint':
+        await lint(checkOptions);
+        break;
+      case 'bundle':
+        await bundle({
+          spec: args[0] ?? values.source,
+          config: values.config,
+          project: values.project,
+          set: values.set,
+          offline: values.offline,
+          output: values.output,
+          format: values.format as BundleFormat | undefined,
+          dereference: values.dereference,
+          verbose: values.verbose,
+        });
+        break;
+      case 'inspect': {
+        const filter: OperationFilter = {
+          tags: values.tag,
+          paths: values.path,
+          methods: parseMethods(values.method),
+          operationIds: values.operation,
+        };
+        await inspect({
+          spec: args[0] ?? values.source,
+          config: values.config,
+          project: values.project,
+          set: values.set,
+          offline: values.offline,
+          filter: Object.values(filter).some((criterion) => criterion !== undefined) ? filter : undefined,
+          format,
+          verbose: values.verbose,
+        });
+        break;
+      }
+      case 'diff':
+        await diff({
+          oldSpec: args[0],
+          newSpec: args[1],
+          config: values.config,
+          project: values.project,
+          set: values.set,
+          offline: values.offline,
+          format,
+          verbose: values.verbose,
+        });
+        break;
+      case 'init':
+        await init({
+          config: values.config,
+          source: values.source,
+          target: values.target,
+          codegen: {
+            dateType: values['date-type'],
+            enumType: values['enum-type'],
+            propertyNameStyle: values['property-name-style'],
+            nullableType: values['nullable-type'],
+            clientSuffix: values['client-suffix'],
+          },
+          yes: values.yes,
+          force: values.force,
+        });
+        break;
+      default:
+        throw new CliError(`Unknown command: ${command}`, 'Run opencodegen --help to see available commands');
+    }
+  } catch (error) {
+    if (error instanceof CliError) {
+      exitWithError(error.message, error.hint);
+    }
+    throw error;
+  }
 };
 
 main();
@@ -0,0 +1,386 @@
+import chalk from 'chalk';
+import {existsSync} from 'node:fs';
+import {dirname, relative, resolve} from 'node:path';
+import {CONFIG_FILE_NAMES, findConfigFile, isPackageJson, PACKAGE_JSON_KEY} from '../config/discovery.js';
+import {loadConfig} from '../config/loader.js';
+import {applyPatch, parseSetEntries, type ConfigOverrides, type ConfigPatch} from '../config/overrides.js';
+import {getProjects} from '../config/projects.js';
+import type {OpenCodegenConfig, ProjectConfig, SourceOptions} from '../config/schema.js';
+import {coerceProjectPatch, ConfigValidationError, validateProjectPatch} from '../config/validator.js';
+import {loadOpenApiSpec, type FetchOptions, type LoadedSpec, type RemoteDocument} from '../parser/index.js';
+import {isUrl} from '../parser/loader.js';
+
+/**
+ * Config file name written by `init` and suggested when no config is found.
+ */
+export const DEFAULT_CONFIG_FILE = 'opencodegen.config.ts';
+
+/**
+ * An error that is reported to the user as a message and hint, without a stack trace.
+ * Thrown by commands and caught in `main`, or by watch mode which reports it and keeps running.
+ */
+export class CliError extends Error {
+  constructor(
+    message: string,
+    readonly hint?: string,
+  ) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+/**
+ * Print an error message and exit.
+ * Throws after exit to help TypeScript understand control flow.
+ */
+export const exitWithError = (message: string, hint?: string): never => {
+  console.error(chalk.red(`Error: ${message}`));
+  if (hint) {
+    console.error(chalk.dim(hint));
+  }
+  process.exit(1);
+  throw new Error(message); // Never reached, but helps TypeScript
+};
+
+/**
+ * Extract error message from unknown error.
+ */
+export const getErrorMessage = (error: unknown): string => {
+  return error instanceof Error ? error.message : String(error);
+};
+
+/**
+ * A loaded config together with the file it came from.
+ */
+export interface CliConfig {
+  config: OpenCodegenConfig;
+  /** Absolute path of the config file, undefined when running from `--source` and `--target` alone */
+  configPath?: string;
+  /** Directory that paths in the config are relative to */
+  configDir: string;
+}
+
+/**
+ * Find the config file: the one given with `--config`, or the first found by searching
+ * the current directory and its parents.
+ *
+ * @returns Absolute path to the config file, or undefined if none was given or found
+ */
+export const findCliConfig = (configOption: string | undefined): string | undefined => {
+  return configOption !== undefined ? resolve(configOption) : findConfigFile(process.cwd());
+};
+
+/**
+ * Load the config file given with `--config`, or the one found from the current directory.
+ * Without a config file, a config made of `--source` and `--target` is used if both are given.
+ * Throws a `CliError` if the file doesn't exist or can't be loaded.
+ */
+export const loadCliConfig = async (
+  configOption: string | undefined,
+  verbose: boolean,
+  reload = false,
+  overrides: ConfigOverrides = {},
+): Promise<CliConfig> => {
+  const configPath = findCliConfig(configOption);
+
+  if (!configPath && overrides.source !== undefined && overrides.target !== undefined) {
+    if (verbose) {
+      console.log(chalk.dim('No config file found, using --source and --target'));
+    }
+    return {config: {source: overrides.source, target: overrides.target}, configDir: process.cwd()};
+  }
+
+  if (!configPath) {
+    throw new CliError(
+      'No config file found',
+      `Create an ${DEFAULT_CONFIG_FILE} file (or run opencodegen init), specify one with --config, ` +
+        'or give both --source and --target.\n' +
+        `Searched for ${CONFIG_FILE_NAMES.join(', ')} and an "${PACKAGE_JSON_KEY}" key in package.json.`,
+    );
+  }
+
+  // Check config file exists
+  if (!existsSync(configPath)) {
+    throw new CliError(`Config file not found: ${configPath}`);
+  }
+
+  // Load config
+  if (verbose) {
+    const key = isPackageJson(configPath) ? ` ("${PACKAGE_JSON_KEY}" key)` : '';
+    console.log(chalk.dim(`Using config ${configPath}${key}`));
+  }
+
+  try {
+    return {config: await loadConfig(configPath, {reload}), configPath, configDir: dirname(configPath)};
+  } catch (error) {
+    if (error instanceof ConfigValidationError) {
+      const issues = error.issues.map((issue) => `  - ${issue.message}`).join('\n');
+      throw new CliError(`Invalid config in ${relative(process.cwd(), configPath)}:\n${issues}`);
+    }
+    throw new CliError(`Failed to load config: ${getErrorMessage(error)}`);
+  }
+};
+
+/**
+ * Turn config values given on the command line into values to merge into each project.
+ * `--source` and `--target` are relative to the current directory, so they are made relative
+ * to `configDir` like the paths in the config.
+ * Throws a `CliError` for malformed or invalid values.
+ */
+export const createOverridePatch = (overrides: ConfigOverrides, configDir: string): ConfigPatch => {
+  let patch: ConfigPatch;
+  try {
+    patch = coerceProjectPatch(parseSetEntries(overrides.set ?? []));
+  } catch (error) {
+    throw new CliError(getErrorMessage(error));
+  }
+
+  const issues = validateProjectPatch(patch);
+  if (issues.length > 0) {
+    throw new CliError(`Invalid --set value:\n${issues.map((issue) => `  - ${issue.message}`).join('\n')}`);
+  }
+
+  const relativeToConfig = (path: string): string => (isUrl(path) ? path : relative(configDir, resolve(path)) || '.');
+  if (overrides.source !== undefined) {
+    patch.source = relativeToConfig(overrides.source);
+  }
+  if (overrides.target !== undefined) {
+    patch.target = relativeToConfig(overrides.target);
+  }
+
+  return patch;
+};
+
+/**
+ * Resolve the spec source: URLs are used as-is, file paths are resolved against `baseDir`.
+ * Throws a `CliError` if a local file doesn't exist.
+ */
+export const resolveSpecSource = (source: string, baseDir: string): string => {
+  const resolved = isUrl(source) ? source : resolve(baseDir, source);
+
+  // Check file exists (only for local files)
+  if (!isUrl(source) && !existsSync(resolved)) {
+    throw new CliError(`OpenAPI spec not found: ${resolved}`);
+  }
+
+  return resolved;
+};
+
+/**
+ * Resolve a project's overlay paths against a directory, checking that local files exist.
+ */
+export const resolveOverlays = (overlays: string[] = [], baseDir: string): string[] => {
+  return overlays.map((overlay) => {
+    const resolved = isUrl(overlay) ? overlay : resolve(baseDir, overlay);
+    if (!isUrl(overlay) && !existsSync(resolved)) {
+      throw new CliError(`Overlay not found: ${resolved}`);
+    }
+    return resolved;
+  });
+};
+
+/**
+ * Directory remote specs are cached in, relative to the config file.
+ */
+export const CACHE_DIR = 'node_modules/.cache/opencodegen';
+
+/**
+ * Get the options for fetching a project's remote spec, with `ca` resolved against the config
+ * directory and the cache kept next to it.
+ *
+ * @param offline - Only use cached copies (`--offline`)
+ */
+export const getFetchOptions = (
+  sourceOptions: SourceOptions | undefined,
+  configDir: string,
+  offline = false,
+): FetchOptions => {
+  return {
+    ...sourceOptions,
+    ca: sourceOptions?.ca === undefined ? undefined : resolve(configDir, sourceOptions.ca),
+    cacheDir: resolve(configDir, CACHE_DIR),
+    offline,
+  };
+};
+
+/**
+ * Print how each remote document was obtained, with a short hash of its content.
+ */
+export const printRemoteDocuments = (remote: RemoteDocument[], log: (message?: string) => void = console.log): void => {
+  for (const {url, status, reason, error, hash} of remote) {
+    const shortHash = chalk.dim(`sha256:${hash.slice(0, 12)}`);
+    if (status === 'fresh') {
+      log(`${chalk.dim('Downloaded')} ${url} ${shortHash}`);
+    } else if (reason === 'unavailable') {
+      log(chalk.yellow(`Using cached ${url} (${error})`) + ` ${shortHash}`);
+    } else {
+      log(`${chalk.dim(`Using cached (${reason === 'offline' ? 'offline' : 'not modified'})`)} ${url} ${shortHash}`);
+    }
+  }
+};
+
+/**
+ * Load and parse the OpenAPI spec and apply overlays to it, throwing a `CliError` if it can't
+ * be parsed.
+ */
+export const loadSpec = async (
+  source: string,
+  verbose: boolean,
+  fetch: FetchOptions = {},
+  overlays: string[] = [],
+): Promise<LoadedSpec> => {
+  if (verbose) {
+    console.log(chalk.dim(`Parsing OpenAPI spec from ${source}`));
+  }
+
+  try {
+    return await loadOpenApiSpec(source, {fetch, overlays});
+  } catch (error) {
+    const hint = fetch.offline ? 'Run once without --offline to cache remote specs' : undefined;
+    throw new CliError(`Failed to parse OpenAPI spec: ${getErrorMessage(error)}`, hint);
+  }
+};
+
+/**
+ * Load the config for commands that can run without one: only if given with `--config`
+ * or found from the current directory.
+ */
+export const loadOptionalConfig = async (
+  configOption: string | undefined,
+  verbose: boolean,
+): Promise<CliConfig | undefined> => {
+  const hasConfig = findCliConfig(configOption) !== undefined;
+  return hasConfig ? loadCliConfig(configOption, verbose) : undefined;
+};
+
+/**
+ * Pick the projects named with `--project`, or all projects in the config if none were named,
+ * and merge the values from `patch` into each.
+ * Throws a `CliError` for a name that isn't a project in the config.
+ */
+export const selectProjects = (
+  config: OpenCodegenConfig,
+  names: string[] = [],
+  patch: ConfigPatch = {},
+): ProjectConfig[] => {
+  const projects = getProjects(config);
+
+  const available = projects.flatMap((project) => (project.name ? [project.name] : []));
+  for (const name of names) {
+    if (!available.includes(name)) {
+      throw new CliError(
+        `Unknown project: ${name}`,
+        available.length > 0 ? `Available projects: ${available.join(', ')}` : 'The config has no named projects',
+      );
+    }
+  }
+
+  const selected =
+    names.length === 0
+      ? projects
+      : projects.filter((project) => project.name !== undefined && names.includes(project.name));
+
+  if (selected.length > 1 && ('source' in patch || 'target' in patch)) {
+    throw new CliError(
+      `Can't override the source or target of ${selected.length} projects at once`,
+      'Choose one with --project <name>',
+    );
+  }
+
+  return selected.map((project) => applyPatch(project, patch));
+};
+
+/**
+ * Options that commands working on a single spec take from the config.
+ */
+export type ProjectOptions = Pick<ProjectConfig, 'sourceOptions' | 'codegen' | 'lint' | 'plugins' | 'filter'>;
+
+/**
+ * Get the options for a command working on a single spec: those of the project named with
+ * `--project` or of the config's only project, otherwise the options shared by all projects.
+ * Values from `--set` are merged in.
+ */
+export const getProjectOptions = (
+  config: OpenCodegenConfig | undefined,
+  names: string[] = [],
+  patch: ConfigPatch = {},
+): ProjectOptions => {
+  if (!config) {
+    return applyPatch({}, patch);
+  }
+
+  const projects = selectProjects(config, names, patch);
+  if (projects.length === 1) {
+    return projects[0];
+  }
+  if (names.length > 1) {
+    throw new CliError('Only one --project can be given for this command');
+  }
+  const {sourceOptions, codegen, lint, plugins} = config;
+  return applyPatch({sourceOptions, codegen, lint, plugins}, patch);
+};
+
+/**
+ * Command options that choose the spec for commands working on a single spec.
+ */
+export interface SpecTargetOptions {
+  /** Spec file or URL; defaults to the `source` of the config's project */
+  spec?: string;
+  config?: string;
+  /** Project to use when the config has several */
+  project?: string[];
+  /** `key=value` pairs overriding project options, e.g. `lint.rules.operation-id=error` */
+  set?: string[];
+  /** Only use cached copies of remote specs */
+  offline?: boolean;
+}
+
+/**
+ * The spec source for commands that take an optional spec argument, and the options
+ * from the config and `--set`.
+ */
+export interface SpecTarget {
+  source: string;
+  options: ProjectOptions;
+  /** How to fetch `source` if it is a URL */
+  fetch: FetchOptions;
+  /** Overlays of the config's project; none for a spec given as an argument */
+  overlays: string[];
+}
+
+/**
+ * Resolve the spec to check from a positional argument, falling back to the `source` of the
+ * config's project (chosen with `--project` if the config has several).
+ * With an explicit spec the config is optional.
+ */
+export const resolveSpecTarget = async (options: SpecTargetOptions, verbose: boolean): Promise<SpecTarget> => {
+  if (options.spec) {
+    const cliConfig = await loadOptionalConfig(options.config, verbose);
+    const patch = createOverridePatch({set: options.set}, process.cwd());
+    const projectOptions = getProjectOptions(cliConfig?.config, options.project, patch);
+    return {
+      source: resolveSpecSource(options.spec, process.cwd()),
+      options: projectOptions,
+      fetch: getFetchOptions(projectOptions.sourceOptions, cliConfig?.configDir ?? process.cwd(), options.offline),
+      overlays: [],
+    };
+  }
+
+  const {config, configDir} = await loadCliConfig(options.config, verbose);
+  const patch = createOverridePatch({set: options.set}, configDir);
+  const projects = selectProjects(config, options.project, patch);
+  if (projects.length > 1) {
+    throw new CliError(
+      `The config has ${projects.length} projects: ${projects.map((project) => project.name).join(', ')}`,
+      'Choose one with --project <name>, or pass a spec to check',
+    );
+  }
+
+  const [project] = projects;
+  return {
+    source: resolveSpecSource(project.source, configDir),
+    options: project,
+    fetch: getFetchOptions(project.sourceOptions, configDir, options.offline),
+    overlays: resolveOverlays(project.overlays, configDir),
+  };
+};
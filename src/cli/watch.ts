@@ -0,0 +1,72 @@
+import {watch, type FSWatcher} from 'node:fs';
+import {basename, dirname, resolve} from 'node:path';
+
+/**
+ * Watches a set of files and calls back once changes settle.
+ */
+export interface FileWatcher {
+  /** Replace the set of watched files */
+  setFiles: (files: string[]) => void;
+  close: () => void;
+}
+
+/**
+ * Create a watcher that calls `onChange` with the changed files once no change
+ * has been seen for `delay` milliseconds.
+ *
+ * Directories are watched rather than the files themselves, because editors often save by
+ * writing a new file and renaming it over the old one, which ends a watch on the file.
+ */
+export const createFileWatcher = (onChange: (changed: string[]) => void, delay = 100): FileWatcher => {
+  const watchers = new Map<string, FSWatcher>();
+  let files = new Set<string>();
+  let changed = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const handleEvent = (dir: string, fileName: string | null) => {
+    if (!fileName) return;
+    const file = resolve(dir, fileName);
+    if (!files.has(file)) return;
+
+    changed.add(file);
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      const batch = [...changed];
+      changed = new Set();
+      onChange(batch);
+    }, delay);
+  };
+
+  const setFiles = (nextFiles: string[]) => {
+    files = new Set(nextFiles.map((file) => resolve(file)));
+    const dirs = new Set([...files].map((file) => dirname(file)));
+
+    for (const [dir, watcher] of watchers) {
+      if (!dirs.has(dir)) {
+        watcher.close();
+        watchers.delete(dir);
+      }
+    }
+    for (const dir of dirs) {
+      if (watchers.has(dir)) continue;
+      try {
+        watchers.set(
+          dir,
+          watch(dir, (_event, fileName) => handleEvent(dir, fileName && basename(fileName))),
+        );
+      } catch {
+        // Directory doesn't exist (yet); it is picked up on the next setFiles
+      }
+    }
+  };
+
+  const close = () => {
+    clearTimeout(timer);
+    for (const watcher of watchers.values()) {
+      watcher.close();
+    }
+    watchers.clear();
+  };
+
+  return {setFiles, close};
+};
@@ -1,13 +1,12 @@
-import type {CodegenConfig} from '../config/schema.js';
+import {CODEGEN_DEFAULTS, type CodegenConfig} from '../config/schema.js';
+import {renderHeader, renderTemplate, type BaseModel, type Templates} from './templates.js';
 
 /**
- * Generate the base client file containing BaseClient, ApiConfig, and ApiError.
+ * Built-in template for the base client file.
  */
-export const generateBase = (config: CodegenConfig): string => {
-  const suffix = config.clientSuffix ?? 'Client';
-
+const renderBase = ({header, className}: BaseModel): string => {
   const lines: string[] = [
-    '// Generated by OpenCodegen - do not edit manually',
+    header,
     '',
     '/**',
     ' * Headers can be static, a sync function, or an async function.',
@@ -63,7 +62,7 @@ export const generateBase = (config: CodegenConfig): string => {
     '/**',
     ` * Base class for all generated API clients.`,
     ' */',
-    `export class Base${suffix} {`,
+    `export class ${className} {`,
     '  protected config: ApiConfig;',
     '',
     '  constructor(config: ApiConfig) {',
@@ -142,3 +141,17 @@ export const generateBase = (config: CodegenConfig): string => {
 
   return lines.join('\n');
 };
+
+/**
+ * Generate the base client file containing BaseClient, ApiConfig, and ApiError.
+ */
+export const generateBase = (config: CodegenConfig, templates: Templates = {}): string => {
+  const fullConfig = {...CODEGEN_DEFAULTS, ...config};
+  const model: BaseModel = {
+    header: renderHeader(templates, 'base.ts'),
+    className: `Base${fullConfig.clientSuffix}`,
+    config: fullConfig,
+  };
+
+  return renderTemplate(templates.base, renderBase, model);
+};
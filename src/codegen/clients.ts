@@ -1,7 +1,24 @@
 import type {OpenAPIV3} from 'openapi-types';
-import type {CodegenConfig} from '../config/schema.js';
-import {isRef} from '../parser/resolver.js';
-import {toPascalCase, toCamelCase} from './types.js';
+import {CODEGEN_DEFAULTS, type CodegenConfig} from '../config/schema.js';
+import {isRef, resolveIfRef} from '../parser/resolver.js';
+import {
+  renderHeader,
+  renderTemplate,
+  type ClientModel,
+  type MethodModel,
+  type MethodParameter,
+  type Templates,
+} from './templates.js';
+import {
+  formatLiteral,
+  getComponentBodyTypes,
+  getRefTypeName,
+  getSchemaTypes,
+  hasConst,
+  toArrayType,
+  toPascalCase,
+  toCamelCase,
+} from './types.js';
 
 /**
  * HTTP methods supported by OpenAPI.
@@ -18,9 +35,10 @@ interface ParsedOperation {
   operationId: string;
   tags: string[];
   parameters: OpenAPIV3.ParameterObject[];
-  requestBody?: OpenAPIV3.RequestBodyObject;
+  /** Type of the JSON request body, if the operation has one */
+  bodyType?: string;
   responseType: string;
-  hasRequestBody: boolean;
+  operation: OpenAPIV3.OperationObject;
 }
 
 /**
@@ -34,11 +52,27 @@ interface GeneratedClient {
 }
 
 /**
- * Extract the type name from a $ref string.
+ * Type names that are built into TypeScript and never imported from types.ts.
  */
-const extractRefName = (ref: string): string | null => {
-  const match = ref.match(/^#\/components\/schemas\/(.+)$/);
-  return match ? match[1] : null;
+const BUILTIN_TYPES = new Set([
+  'string',
+  'number',
+  'boolean',
+  'null',
+  'undefined',
+  'unknown',
+  'void',
+  'Record',
+  'Date',
+]);
+
+/**
+ * Extract the schema type names referenced by a type string (e.g. `Pet | null` -> `['Pet']`).
+ */
+const extractTypeNames = (type: string): string[] => {
+  const withoutLiterals = type.replace(/'(?:[^'\\]|\\.)*'/g, '');
+  const identifiers = withoutLiterals.match(/[A-Za-z_$][\w$]*/g) ?? [];
+  return identifiers.filter((name) => !BUILTIN_TYPES.has(name) && name !== 'true' && name !== 'false');
 };
 
 /**
@@ -51,20 +85,34 @@ const getTypeFromSchema = (
   if (!schema) return 'unknown';
 
   if (isRef(schema)) {
-    const name = extractRefName(schema.$ref);
+    const name = getRefTypeName(schema.$ref);
     return name ?? 'unknown';
   }
 
   const schemaObj = schema as OpenAPIV3.SchemaObject;
+  const types = getSchemaTypes(schemaObj);
+
+  // Handle const (OpenAPI 3.1)
+  if (hasConst(schemaObj)) {
+    return formatLiteral((schemaObj as {const?: unknown}).const);
+  }
+
+  // Handle type arrays (OpenAPI 3.1), e.g. ['string', 'null']
+  if (types.length > 1) {
+    const parts = types.map((type) => getTypeFromSchema({...schemaObj, type} as OpenAPIV3.SchemaObject, config));
+    return [...new Set(parts)].join(' | ');
+  }
 
   // Handle arrays
-  if (schemaObj.type === 'array' && schemaObj.items) {
+  if (types[0] === 'array' && 'items' in schemaObj && schemaObj.items) {
     const itemType = getTypeFromSchema(schemaObj.items, config);
-    return `${itemType}[]`;
+    return toArrayType(itemType);
   }
 
   // Handle primitives
-  switch (schemaObj.type) {
+  switch (types[0]) {
+    case 'null':
+      return 'null';
     case 'string':
       if (schemaObj.format === 'date' || schemaObj.format === 'date-time') {
         return config.dateType;
@@ -87,11 +135,19 @@ const getTypeFromSchema = (
 };
 
 /**
- * Get the response type for an operation.
+ * Named types of the responses and request bodies in `components`, keyed by `$ref`.
+ */
+type BodyTypes = ReturnType<typeof getComponentBodyTypes>;
+
+/**
+ * Get the response type for an operation. A `$ref` to a response in `components` is typed with
+ * the response's named type.
  */
 const getResponseType = (
+  doc: OpenAPIV3.Document,
   responses: OpenAPIV3.ResponsesObject | undefined,
   config: CodegenConfig,
+  bodyTypes: BodyTypes,
 ): string => {
   if (!responses) return 'void';
 
@@ -101,10 +157,10 @@ const getResponseType = (
     const response = responses[code];
     if (!response) continue;
 
-    // Handle $ref to response
-    if (isRef(response)) continue; // Skip ref responses for now
+    const bodyType = isRef(response) ? bodyTypes.get(response.$ref) : undefined;
+    if (bodyType) return bodyType.name;
 
-    const responseObj = response as OpenAPIV3.ResponseObject;
+    const responseObj = resolveIfRef(doc, response);
     const content = responseObj.content;
 
     if (!content) {
@@ -124,21 +180,23 @@ const getResponseType = (
 };
 
 /**
- * Get the request body type for an operation.
+ * Get the request body type for an operation. A `$ref` to a request body in `components` is
+ * typed with the request body's named type.
  */
 const getRequestBodyType = (
+  doc: OpenAPIV3.Document,
   requestBody: OpenAPIV3.RequestBodyObject | OpenAPIV3.ReferenceObject | undefined,
   config: CodegenConfig,
-): string | null => {
-  if (!requestBody) return null;
+  bodyTypes: BodyTypes,
+): string | undefined => {
+  if (!requestBody) return undefined;
 
-  // Skip ref request bodies for now
-  if (isRef(requestBody)) return 'unknown';
+  const bodyType = isRef(requestBody) ? bodyTypes.get(requestBody.$ref) : undefined;
+  if (bodyType) return bodyType.name;
 
-  const bodyObj = requestBody as OpenAPIV3.RequestBodyObject;
-  const content = bodyObj.content;
+  const content = resolveIfRef(doc, requestBody).content;
 
-  if (!content) return null;
+  if (!content) return undefined;
 
   // Prefer application/json
   const jsonContent = content['application/json'];
@@ -146,71 +204,92 @@ const getRequestBodyType = (
     return getTypeFromSchema(jsonContent.schema, config);
   }
 
-  return null;
+  return undefined;
 };
 
 /**
- * Parse all operations from an OpenAPI document.
+ * Resolve the parameters of a path or operation. Operation parameters override path
+ * parameters with the same name and location.
  */
-const parseOperations = (
+const resolveParameters = (
   doc: OpenAPIV3.Document,
-  config: CodegenConfig,
-): ParsedOperation[] => {
-  const operations: ParsedOperation[] = [];
+  pathParams: OpenAPIV3.ParameterObject[],
+  params: (OpenAPIV3.ParameterObject | OpenAPIV3.ReferenceObject)[] = [],
+): OpenAPIV3.ParameterObject[] => {
+  const resolved = new Map<string, OpenAPIV3.ParameterObject>();
+  for (const param of [...pathParams, ...params.map((p) => resolveIfRef(doc, p))]) {
+    resolved.set(`${param.in}:${param.name}`, param);
+  }
+  return [...resolved.values()];
+};
 
-  for (const [path, pathItem] of Object.entries(doc.paths ?? {})) {
-    if (!pathItem) continue;
+/**
+ * Get the operationId of an operation, generated from the method and path if it has none.
+ */
+const getOperationId = (method: HttpMethod, path: string, operation: OpenAPIV3.OperationObject): string => {
+  return operation.operationId ?? `${method}${path.replace(/[^a-zA-Z0-9]/g, '_')}`;
+};
 
-    // Get path-level parameters
-    const pathParams: OpenAPIV3.ParameterObject[] = [];
-    if (pathItem.parameters) {
-      for (const param of pathItem.parameters) {
-        if (!isRef(param)) {
-          pathParams.push(param);
-        }
-      }
-    }
+/**
+ * Get the tags of an operation, `default` if it has none.
+ */
+const getOperationTags = (operation: OpenAPIV3.OperationObject): string[] => {
+  return operation.tags ?? ['default'];
+};
+
+/**
+ * Fill in the operationId and tags of operations that have none, with the defaults the
+ * generated clients use.
+ *
+ * @returns A copy of the document, which is left untouched
+ */
+export const applyOperationDefaults = (doc: OpenAPIV3.Document): OpenAPIV3.Document => {
+  const paths: OpenAPIV3.PathsObject = {};
 
+  for (const [path, pathItem] of Object.entries(doc.paths ?? {})) {
+    if (!pathItem) continue;
+    const item: OpenAPIV3.PathItemObject = {...pathItem};
     for (const method of HTTP_METHODS) {
-      const operation = pathItem[method] as OpenAPIV3.OperationObject | undefined;
+      const operation = pathItem[method];
       if (!operation) continue;
+      item[method] = {
+        ...operation,
+        operationId: getOperationId(method, path, operation),
+        tags: getOperationTags(operation),
+      };
+    }
+    paths[path] = item;
+  }
 
-      // Get operation-level parameters
-      const opParams: OpenAPIV3.ParameterObject[] = [...pathParams];
-      if (operation.parameters) {
-        for (const param of operation.parameters) {
-          if (!isRef(param)) {
-            opParams.push(param);
-          }
-        }
-      }
+  return {...doc, paths};
+};
 
-      // Generate operationId if not present
-      const operationId = operation.operationId ?? `${method}${path.replace(/[^a-zA-Z0-9]/g, '_')}`;
+/**
+ * Parse all operations from an OpenAPI document.
+ */
+const parseOperations = (doc: OpenAPIV3.Document, config: CodegenConfig): ParsedOperation[] => {
+  const operations: ParsedOperation[] = [];
+  const bodyTypes = getComponentBodyTypes(doc);
 
-      // Get tags (default to 'default' if none)
-      const tags = operation.tags ?? ['default'];
+  for (const [path, pathItem] of Object.entries(doc.paths ?? {})) {
+    if (!pathItem) continue;
 
-      // Get request body
-      let requestBody: OpenAPIV3.RequestBodyObject | undefined;
-      let hasRequestBody = false;
-      if (operation.requestBody && !isRef(operation.requestBody)) {
-        requestBody = operation.requestBody;
-        hasRequestBody = true;
-      }
+    // Get path-level parameters
+    const pathParams = resolveParameters(doc, [], pathItem.parameters);
 
-      // Get response type
-      const responseType = getResponseType(operation.responses, config);
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method] as OpenAPIV3.OperationObject | undefined;
+      if (!operation) continue;
 
       operations.push({
         method,
         path,
-        operationId,
-        tags,
-        parameters: opParams,
-        requestBody,
-        responseType,
-        hasRequestBody,
+        operationId: getOperationId(method, path, operation),
+        tags: getOperationTags(operation),
+        parameters: resolveParameters(doc, pathParams, operation.parameters),
+        bodyType: getRequestBodyType(doc, operation.requestBody, config, bodyTypes),
+        responseType: getResponseType(doc, operation.responses, config, bodyTypes),
+        operation,
       });
     }
   }
@@ -218,6 +297,20 @@ const parseOperations = (
   return operations;
 };
 
+/**
+ * Get the file name of the client generated for a tag, without extension (e.g. `user-accounts-client`).
+ */
+export const getClientFileName = (tag: string): string => {
+  return `${tag.toLowerCase().replace(/[^a-z0-9]/g, '-')}-client`;
+};
+
+/**
+ * Get the class name of the client generated for a tag (e.g. `UserAccountsClient`).
+ */
+export const getClientClassName = (tag: string, suffix: CodegenConfig['clientSuffix'] = 'Client'): string => {
+  return `${toPascalCase(tag)}${suffix}`;
+};
+
 /**
  * Group operations by tag.
  */
@@ -236,75 +329,69 @@ const groupOperationsByTag = (operations: ParsedOperation[]): Map<string, Parsed
   return groups;
 };
 
+/**
+ * Convert parameters to method parameters, with their name in the generated code and their type.
+ */
+const toMethodParameters = (params: OpenAPIV3.ParameterObject[], config: CodegenConfig): MethodParameter[] => {
+  return params.map((param) => ({
+    name: config.propertyNameStyle === 'camelCase' ? toCamelCase(param.name) : param.name,
+    originalName: param.name,
+    type: param.schema ? getTypeFromSchema(param.schema, config) : 'unknown',
+    required: param.required ?? false,
+  }));
+};
+
 /**
  * Generate parameter type for a method.
  */
-const generateParamsType = (params: OpenAPIV3.ParameterObject[], config: CodegenConfig): string | null => {
-  const queryParams = params.filter((p) => p.in === 'query');
-  if (queryParams.length === 0) return null;
-
-  const props = queryParams.map((p) => {
-    const type = p.schema ? getTypeFromSchema(p.schema, config) : 'unknown';
-    const name = config.propertyNameStyle === 'camelCase' ? toCamelCase(p.name) : p.name;
-    const optional = p.required ? '' : '?';
-    return `${name}${optional}: ${type}`;
-  });
+const generateParamsType = (queryParams: MethodParameter[]): string | undefined => {
+  if (queryParams.length === 0) return undefined;
+
+  const props = queryParams.map((p) => `${p.name}${p.required ? '' : '?'}: ${p.type}`);
 
   return `{ ${props.join('; ')} }`;
 };
 
-/**
- * Generate a single method for an operation.
- */
 /**
  * Request options that can be passed to each method.
  */
 const REQUEST_OPTIONS_TYPE = '{ headers?: Record<string, string> }';
 
-const generateMethod = (op: ParsedOperation, config: CodegenConfig): string => {
-  const methodName = op.operationId;
-
-  // Collect path parameters
-  const pathParams = op.parameters.filter((p) => p.in === 'path');
-
-  // Build method arguments
-  const args: string[] = [];
-
-  // Path parameters first (required)
-  for (const param of pathParams) {
-    const type = param.schema ? getTypeFromSchema(param.schema, config) : 'unknown';
-    const name = config.propertyNameStyle === 'camelCase' ? toCamelCase(param.name) : param.name;
-    args.push(`${name}: ${type}`);
-  }
-
-  // Request body
-  const bodyType = getRequestBodyType(op.requestBody, config);
+/**
+ * Get the arguments of a method, without the per-request options: path parameters first
+ * (required), then the body and query parameters.
+ */
+const getMethodArguments = ({pathParameters, bodyType, queryType}: MethodModel): string[] => {
+  const args: string[] = pathParameters.map((param) => `${param.name}: ${param.type}`);
   if (bodyType) {
     args.push(`body: ${bodyType}`);
   }
-
-  // Query parameters (optional object)
-  const paramsType = generateParamsType(op.parameters, config);
-  if (paramsType) {
-    args.push(`params?: ${paramsType}`);
+  if (queryType) {
+    args.push(`params?: ${queryType}`);
   }
+  return args;
+};
 
-  // Per-request options (always last, always optional)
-  args.push(`requestOptions?: ${REQUEST_OPTIONS_TYPE}`);
+/**
+ * Built-in template for a single method of a client class.
+ */
+const renderMethod = (model: MethodModel): string => {
+  const {pathParameters, queryType, bodyType, responseType} = model;
+
+  const args = [...getMethodArguments(model), `requestOptions?: ${REQUEST_OPTIONS_TYPE}`];
 
   // Build path with interpolation
-  let pathExpr = op.path;
-  for (const param of pathParams) {
-    const name = config.propertyNameStyle === 'camelCase' ? toCamelCase(param.name) : param.name;
-    pathExpr = pathExpr.replace(`{${param.name}}`, `\${${name}}`);
+  let pathExpr = model.path;
+  for (const param of pathParameters) {
+    pathExpr = pathExpr.replace(`{${param.originalName}}`, `\${${param.name}}`);
   }
 
   // Use template literal if path has parameters
-  const pathString = pathParams.length > 0 ? `\`${pathExpr}\`` : `'${op.path}'`;
+  const pathString = pathParameters.length > 0 ? `\`${pathExpr}\`` : `'${model.path}'`;
 
   // Build request options
   const requestOpts: string[] = [];
-  if (paramsType) {
+  if (queryType) {
     requestOpts.push('query: params');
   }
   if (bodyType) {
@@ -315,10 +402,9 @@ const generateMethod = (op: ParsedOperation, config: CodegenConfig): string => {
 
   const optsArg = `, { ${requestOpts.join(', ')} }`;
 
-  // Build method
   const lines: string[] = [
-    `  async ${methodName}(${args.join(', ')}): Promise<${op.responseType}> {`,
-    `    return this.request<${op.responseType}>('${op.method.toUpperCase()}', ${pathString}${optsArg});`,
+    `  async ${model.name}(${args.join(', ')}): Promise<${responseType}> {`,
+    `    return this.request<${responseType}>('${model.httpMethod}', ${pathString}${optsArg});`,
     '  }',
   ];
 
@@ -326,43 +412,42 @@ const generateMethod = (op: ParsedOperation, config: CodegenConfig): string => {
 };
 
 /**
- * Generate a client class for a tag.
+ * Get the model of a method for an operation.
  */
-const generateClientClass = (
-  tag: string,
-  operations: ParsedOperation[],
-  config: CodegenConfig,
-  typesUsed: Set<string>,
-): string => {
-  const suffix = config.clientSuffix ?? 'Client';
-  const className = `${toPascalCase(tag)}${suffix}`;
-
-  // Generate methods
-  const methods = operations.map((op) => generateMethod(op, config));
+const createMethodModel = (op: ParsedOperation, config: Required<CodegenConfig>): MethodModel => {
+  const queryParameters = toMethodParameters(
+    op.parameters.filter((p) => p.in === 'query'),
+    config,
+  );
+
+  return {
+    name: op.operationId,
+    httpMethod: op.method.toUpperCase(),
+    path: op.path,
+    pathParameters: toMethodParameters(
+      op.parameters.filter((p) => p.in === 'path'),
+      config,
+    ),
+    queryParameters,
+    queryType: generateParamsType(queryParameters),
+    bodyType: op.bodyType,
+    responseType: op.responseType,
+    operation: op.operation,
+    config,
+  };
+};
 
-  // Collect types used in this client
-  for (const op of operations) {
-    // Response type - extract base type (remove [] suffix)
-    if (op.responseType !== 'void' && op.responseType !== 'unknown') {
-      const baseType = op.responseType.replace(/\[\]$/, '');
-      if (!/^(string|number|boolean|Record<.+>)$/.test(baseType)) {
-        typesUsed.add(baseType);
-      }
-    }
+/**
+ * Built-in template for a client file.
+ */
+const renderClient = (model: ClientModel): string => {
+  const lines: string[] = [model.header, '', `import { ${model.baseClassName} } from './base.js';`];
 
-    // Request body type - extract base type (remove [] suffix)
-    const bodyType = getRequestBodyType(op.requestBody, config);
-    if (bodyType && bodyType !== 'unknown') {
-      const baseBodyType = bodyType.replace(/\[\]$/, '');
-      typesUsed.add(baseBodyType);
-    }
+  if (model.typeImports.length > 0) {
+    lines.push(`import { ${model.typeImports.join(', ')} } from './types.js';`);
   }
 
-  const lines: string[] = [
-    `export class ${className} extends Base${suffix} {`,
-    ...methods,
-    '}',
-  ];
+  lines.push('', `export class ${model.className} extends ${model.baseClassName} {`, ...model.methods, '}', '');
 
   return lines.join('\n');
 };
@@ -374,39 +459,48 @@ const generateClientClass = (
 export const generateClients = (
   doc: OpenAPIV3.Document,
   config: CodegenConfig,
+  templates: Templates = {},
 ): Map<string, string> => {
   const files = new Map<string, string>();
-  const suffix = config.clientSuffix ?? 'Client';
+  const fullConfig = {...CODEGEN_DEFAULTS, ...config};
 
   // Parse all operations
-  const operations = parseOperations(doc, config);
+  const operations = parseOperations(doc, fullConfig);
 
   // Group by tag
   const grouped = groupOperationsByTag(operations);
 
   // Generate client for each tag
   for (const [tag, ops] of grouped) {
+    const methods = ops.map((op) => createMethodModel(op, fullConfig));
+
+    // Collect types used in this client (response, request body and parameter types)
     const typesUsed = new Set<string>();
-    const clientCode = generateClientClass(tag, ops, config, typesUsed);
-
-    // Build imports
-    const imports: string[] = [
-      '// Generated by OpenCodegen - do not edit manually',
-      '',
-      `import { Base${suffix} } from './base.js';`,
-    ];
-
-    if (typesUsed.size > 0) {
-      const typeImports = Array.from(typesUsed).sort().join(', ');
-      imports.push(`import { ${typeImports} } from './types.js';`);
+    for (const method of methods) {
+      const types = [
+        method.responseType,
+        method.bodyType ?? '',
+        ...[...method.pathParameters, ...method.queryParameters].map((param) => param.type),
+      ];
+      for (const name of types.flatMap(extractTypeNames)) {
+        typesUsed.add(name);
+      }
     }
 
-    imports.push('');
-
-    // Build file
-    const fileName = `${tag.toLowerCase().replace(/[^a-z0-9]/g, '-')}-client.ts`;
-    const content = [...imports, clientCode, ''].join('\n');
-    files.set(fileName, content);
+    const fileName = getClientFileName(tag);
+    const model: ClientModel = {
+      header: renderHeader(templates, `${fileName}.ts`),
+      tag,
+      className: getClientClassName(tag, fullConfig.clientSuffix),
+      baseClassName: `Base${fullConfig.clientSuffix}`,
+      fileName,
+      typeImports: Array.from(typesUsed).sort(),
+      methods: methods.map((method) => renderTemplate(templates.method, renderMethod, method)),
+      operations: methods,
+      config: fullConfig,
+    };
+
+    files.set(`${fileName}.ts`, renderTemplate(templates.client, renderClient, model));
   }
 
   return files;
@@ -425,7 +519,7 @@ export const getClientClassNames = (
 
   const names: string[] = [];
   for (const tag of grouped.keys()) {
-    names.push(`${toPascalCase(tag)}${suffix}`);
+    names.push(getClientClassName(tag, suffix));
   }
 
   return names.sort();
@@ -440,8 +534,58 @@ export const getClientFileNames = (doc: OpenAPIV3.Document): string[] => {
 
   const names: string[] = [];
   for (const tag of grouped.keys()) {
-    names.push(`${tag.toLowerCase().replace(/[^a-z0-9]/g, '-')}-client`);
+    names.push(getClientFileName(tag));
   }
 
   return names.sort();
 };
+
+/**
+ * An operation and the client method generated for it.
+ */
+export interface ClientOperation {
+  /** HTTP method, e.g. `GET` */
+  method: string;
+  path: string;
+  operationId: string;
+  tags: string[];
+  deprecated: boolean;
+  /** Class names of the clients the method is in, one for each tag */
+  clients: string[];
+  /** Name of the method */
+  methodName: string;
+  /** Arguments of the method, without the per-request options, e.g. `petId: string` */
+  arguments: string[];
+  /** All parameters, including header and cookie parameters, which have no argument */
+  parameters: (MethodParameter & {in: string})[];
+  /** Type of the JSON request body, if the operation has one */
+  bodyType?: string;
+  responseType: string;
+}
+
+/**
+ * Get every operation in a document with the client method generated for it, in document order.
+ */
+export const getClientOperations = (doc: OpenAPIV3.Document, config: Partial<CodegenConfig>): ClientOperation[] => {
+  const fullConfig = {...CODEGEN_DEFAULTS, ...config};
+
+  return parseOperations(doc, fullConfig).map((op) => {
+    const model = createMethodModel(op, fullConfig);
+    return {
+      method: model.httpMethod,
+      path: op.path,
+      operationId: op.operationId,
+      tags: op.tags,
+      deprecated: op.operation.deprecated ?? false,
+      clients: op.tags.map((tag) => getClientClassName(tag, fullConfig.clientSuffix)),
+      methodName: model.name,
+      arguments: getMethodArguments(model),
+      parameters: toMethodParameters(op.parameters, fullConfig).map((param, index) => ({
+        ...param,
+        in: op.parameters[index].in,
+      })),
+      bodyType: op.bodyType,
+      responseType: op.responseType,
+    };
+  });
+};
@@ -0,0 +1,178 @@
+import type {OpenAPIV3} from 'openapi-types';
+import type {FilterConfig, OperationFilter} from '../config/schema.js';
+import {parsePointer} from '../parser/resolver.js';
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'] as const;
+
+/**
+ * Components that are only used through `$ref`s, and are removed when nothing uses them.
+ */
+const PRUNED_COMPONENTS = ['schemas', 'responses', 'parameters', 'requestBodies', 'headers'] as const;
+
+/**
+ * Convert a path glob to a regular expression. `*` matches within a path segment and `**`
+ * matches across segments, e.g. `/pets/*` matches `/pets/{petId}` and `/admin/**` matches
+ * everything under `/admin`.
+ */
+const globToRegExp = (glob: string): RegExp => {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // `/**` also matches the path itself, e.g. `/admin/**` matches `/admin`
+      if (pattern.endsWith('/')) {
+        pattern = `${pattern.slice(0, -1)}(?:/.*)?`;
+      } else {
+        pattern += '.*';
+      }
+      i++;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else {
+      pattern += char.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+};
+
+/**
+ * An operation as seen by a filter.
+ */
+interface FilteredOperation {
+  path: string;
+  method: (typeof HTTP_METHODS)[number];
+  operation: OpenAPIV3.OperationObject;
+}
+
+/**
+ * Check each criterion a filter sets against an operation.
+ *
+ * @returns Whether each criterion that is set matches, in no particular order
+ */
+const matchCriteria = ({path, method, operation}: FilteredOperation, filter: OperationFilter): boolean[] => {
+  const results: boolean[] = [];
+
+  if (filter.tags) {
+    results.push((operation.tags ?? []).some((tag) => filter.tags!.includes(tag)));
+  }
+  if (filter.paths) {
+    results.push(filter.paths.some((glob) => globToRegExp(glob).test(path)));
+  }
+  if (filter.operationIds) {
+    results.push(operation.operationId !== undefined && filter.operationIds.includes(operation.operationId));
+  }
+  if (filter.methods) {
+    results.push(filter.methods.includes(method));
+  }
+  if (filter.deprecated !== undefined) {
+    results.push((operation.deprecated ?? false) === filter.deprecated);
+  }
+  for (const [name, value] of Object.entries(filter.extensions ?? {})) {
+    results.push((operation as Record<string, unknown>)[name] === value);
+  }
+
+  return results;
+};
+
+/**
+ * Whether an operation is kept: it matches every criterion of `include`, and none of `exclude`.
+ */
+const isIncluded = (operation: FilteredOperation, filter: FilterConfig): boolean => {
+  if (filter.include && !matchCriteria(operation, filter.include).every(Boolean)) {
+    return false;
+  }
+  return !(filter.exclude && matchCriteria(operation, filter.exclude).some(Boolean));
+};
+
+/**
+ * Collect every `$ref` and discriminator mapping in a value.
+ */
+const collectRefs = (value: unknown, refs: string[]): void => {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectRefs(item, refs));
+    return;
+  }
+  if (typeof value !== 'object' || value === null) return;
+
+  for (const [key, child] of Object.entries(value)) {
+    if (key === '$ref' && typeof child === 'string') {
+      refs.push(child);
+    } else if (key === 'mapping' && typeof child === 'object' && child !== null) {
+      refs.push(...Object.values(child).filter((ref): ref is string => typeof ref === 'string'));
+    }
+    collectRefs(child, refs);
+  }
+};
+
+/**
+ * Find the components that the paths and webhooks (OpenAPI 3.1) of a document use, directly or
+ * through other components. Webhooks aren't filtered, so everything they use is kept.
+ *
+ * @returns Used components as `<kind>/<name>`, e.g. `schemas/Pet`
+ */
+const findUsedComponents = (doc: OpenAPIV3.Document): Set<string> => {
+  const visited = new Set<string>();
+  const pending: string[] = [];
+  collectRefs(doc.paths, pending);
+  collectRefs((doc as {webhooks?: unknown}).webhooks, pending);
+
+  while (pending.length > 0) {
+    const ref = pending.pop()!;
+    if (!ref.startsWith('#/components/')) continue;
+
+    // Only the component itself is visited; a ref into it uses all of it
+    const [, kind, name] = parsePointer(ref.slice(1));
+    const key = `${kind}/${name}`;
+    if (visited.has(key)) continue;
+    visited.add(key);
+
+    const components = doc.components?.[kind as keyof OpenAPIV3.ComponentsObject] as Record<string, unknown>;
+    collectRefs(components?.[name], pending);
+  }
+
+  return visited;
+};
+
+/**
+ * Remove the operations a filter doesn't keep, and then the schemas, responses, parameters,
+ * request bodies and headers in `components` that the remaining operations don't use.
+ * Path items left without operations are removed.
+ *
+ * @returns A filtered copy of the document, which is left untouched
+ */
+export const filterSpec = (doc: OpenAPIV3.Document, filter: FilterConfig): OpenAPIV3.Document => {
+  const paths: OpenAPIV3.PathsObject = {};
+
+  for (const [path, pathItem] of Object.entries(doc.paths ?? {})) {
+    if (!pathItem) continue;
+    const kept: OpenAPIV3.PathItemObject = {...pathItem};
+    let hasOperations = false;
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (!operation) continue;
+      if (isIncluded({path, method, operation}, filter)) {
+        hasOperations = true;
+      } else {
+        delete kept[method];
+      }
+    }
+    if (hasOperations) {
+      paths[path] = kept;
+    }
+  }
+
+  const filtered: OpenAPIV3.Document = {...doc, paths};
+  if (doc.components) {
+    const used = findUsedComponents(filtered);
+    const components: OpenAPIV3.ComponentsObject = {...doc.components};
+    for (const kind of PRUNED_COMPONENTS) {
+      const entries = Object.entries(doc.components[kind] ?? {});
+      if (entries.length > 0) {
+        components[kind] = Object.fromEntries(entries.filter(([name]) => used.has(`${kind}/${name}`)));
+      }
+    }
+    filtered.components = components;
+  }
+
+  return filtered;
+};
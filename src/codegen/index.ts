@@ -1,14 +1,37 @@
-import {mkdir, writeFile} from 'node:fs/promises';
+import {mkdir, readFile, rm, writeFile} from 'node:fs/promises';
 import {join} from 'node:path';
 import type {OpenAPIV3} from 'openapi-types';
-import type {OpenCodegenConfig} from '../config/schema.js';
+import {CODEGEN_DEFAULTS, type CodegenConfig, type ProjectConfig} from '../config/schema.js';
 import {generateBase} from './base.js';
-import {generateClients, getClientClassNames, getClientFileNames} from './clients.js';
+import {applyOperationDefaults, generateClients, getClientClassNames, getClientFileNames} from './clients.js';
+import {filterSpec} from './filter.js';
+import {createManifest, hashContent, readManifest, writeManifest} from './manifest.js';
+import {applyFilePlugins, applySpecPlugins} from './plugins.js';
+import {getTemplates, renderHeader, renderTemplate, type IndexModel, type Templates} from './templates.js';
 import {generateTypes} from './types.js';
 
 export {generateTypes} from './types.js';
 export {generateBase} from './base.js';
-export {generateClients} from './clients.js';
+export {applyOperationDefaults, generateClients} from './clients.js';
+export type {ClientOperation} from './clients.js';
+export {filterSpec} from './filter.js';
+export {inspectSpec} from './inspect.js';
+export type {SchemaType, SpecInspection} from './inspect.js';
+export {MANIFEST_FILE} from './manifest.js';
+export {definePlugin} from './plugins.js';
+export type {OpenCodegenPlugin, PluginContext, PluginOperation, ResolvedProjectConfig} from './plugins.js';
+export {GENERATED_HEADER, getTemplateFiles, loadTemplates} from './templates.js';
+export type {
+  BaseModel,
+  ClientModel,
+  HeaderModel,
+  IndexModel,
+  MethodModel,
+  MethodParameter,
+  Template,
+  Templates,
+  TemplatesConfig,
+} from './templates.js';
 
 /**
  * Map of filename to generated content.
@@ -18,33 +41,28 @@ export type GeneratedFiles = Map<string, string>;
 /**
  * Apply default values to codegen config.
  */
-const applyCodegenDefaults = (config: OpenCodegenConfig['codegen']): Required<OpenCodegenConfig['codegen']> => ({
-  dateType: config.dateType ?? 'string',
-  enumType: config.enumType ?? 'constObject',
-  propertyNameStyle: config.propertyNameStyle ?? 'original',
-  nullableType: config.nullableType ?? 'null',
-  methodNameStyle: config.methodNameStyle ?? 'operationId',
-  clientSuffix: config.clientSuffix ?? 'Client',
+const applyCodegenDefaults = (config: Partial<CodegenConfig> = {}): Required<CodegenConfig> => ({
+  dateType: config.dateType ?? CODEGEN_DEFAULTS.dateType,
+  enumType: config.enumType ?? CODEGEN_DEFAULTS.enumType,
+  propertyNameStyle: config.propertyNameStyle ?? CODEGEN_DEFAULTS.propertyNameStyle,
+  nullableType: config.nullableType ?? CODEGEN_DEFAULTS.nullableType,
+  methodNameStyle: config.methodNameStyle ?? CODEGEN_DEFAULTS.methodNameStyle,
+  clientSuffix: config.clientSuffix ?? CODEGEN_DEFAULTS.clientSuffix,
 });
 
 /**
- * Generate the index.ts file with re-exports.
+ * Built-in template for the index.ts file with re-exports.
  */
-const generateIndex = (doc: OpenAPIV3.Document, config: Required<OpenCodegenConfig['codegen']>): string => {
-  const clientFileNames = getClientFileNames(doc);
-  const clientClassNames = getClientClassNames(doc, config);
-
+const renderIndex = ({header, baseClassName, clients}: IndexModel): string => {
   const lines: string[] = [
-    '// Generated by OpenCodegen - do not edit manually',
+    header,
     '',
     "export * from './types.js';",
-    "export { ApiConfig, ApiError, Base" + config.clientSuffix + " } from './base.js';",
+    `export { ApiConfig, ApiError, ${baseClassName} } from './base.js';`,
   ];
 
   // Export each client
-  for (let i = 0; i < clientFileNames.length; i++) {
-    const fileName = clientFileNames[i];
-    const className = clientClassNames[i];
+  for (const {className, fileName} of clients) {
     lines.push(`export { ${className} } from './${fileName}.js';`);
   }
 
@@ -53,46 +71,235 @@ const generateIndex = (doc: OpenAPIV3.Document, config: Required<OpenCodegenConf
   return lines.join('\n');
 };
 
+/**
+ * Generate the index.ts file with re-exports.
+ */
+const generateIndex = (doc: OpenAPIV3.Document, config: Required<CodegenConfig>, templates: Templates): string => {
+  const clientFileNames = getClientFileNames(doc);
+  const clientClassNames = getClientClassNames(doc, config);
+
+  const model: IndexModel = {
+    header: renderHeader(templates, 'index.ts'),
+    baseClassName: `Base${config.clientSuffix}`,
+    clients: clientFileNames.map((fileName, i) => ({className: clientClassNames[i], fileName})),
+    config,
+  };
+
+  return renderTemplate(templates.index, renderIndex, model);
+};
+
+/**
+ * Get the document that code is generated from: the spec changed by the config's `plugins`,
+ * with missing operationIds and tags filled in (see `applyOperationDefaults`), and then only
+ * the operations its `filter` keeps and the components they use.
+ *
+ * @returns A copy of the spec, which is left untouched
+ */
+export const prepareSpec = (spec: OpenAPIV3.Document, config: Partial<ProjectConfig>): OpenAPIV3.Document => {
+  const plugins = config.plugins ?? [];
+  const resolvedConfig = {...config, codegen: applyCodegenDefaults(config.codegen)};
+  const transformed = plugins.length > 0 ? applySpecPlugins(spec, plugins, resolvedConfig) : spec;
+  const normalized = applyOperationDefaults(transformed);
+  return config.filter ? filterSpec(normalized, config.filter) : normalized;
+};
+
 /**
  * Generate all code files from an OpenAPI document.
  * Returns a map of filename to content.
+ *
+ * Code is generated from the document returned by `prepareSpec`, and the config's `plugins`
+ * then change the files. Its `templates` override the built-in output, and must already be
+ * loaded with `loadTemplates` if any is a file path.
  */
-export const generateCode = (doc: OpenAPIV3.Document, config: OpenCodegenConfig): GeneratedFiles => {
+export const generateCode = (spec: OpenAPIV3.Document, config: Partial<ProjectConfig>): GeneratedFiles => {
   const files: GeneratedFiles = new Map();
   const fullConfig = applyCodegenDefaults(config.codegen);
+  const plugins = config.plugins ?? [];
+  const resolvedConfig = {...config, codegen: fullConfig};
+  const templates = getTemplates(config.templates);
+  const doc = prepareSpec(spec, config);
 
   // Generate types
-  const typesContent = generateTypes(doc, config.codegen);
+  const typesContent = generateTypes(doc, fullConfig, templates);
   files.set('types.ts', typesContent);
 
   // Generate base client
-  const baseContent = generateBase(fullConfig);
+  const baseContent = generateBase(fullConfig, templates);
   files.set('base.ts', baseContent);
 
   // Generate client classes
-  const clientFiles = generateClients(doc, fullConfig);
+  const clientFiles = generateClients(doc, fullConfig, templates);
   for (const [fileName, content] of clientFiles) {
     files.set(fileName, content);
   }
 
   // Generate index.ts
-  const indexContent = generateIndex(doc, fullConfig);
+  const indexContent = generateIndex(doc, fullConfig, templates);
   files.set('index.ts', indexContent);
 
-  return files;
+  return plugins.length > 0 ? applyFilePlugins(files, plugins, {config: resolvedConfig, document: doc}) : files;
+};
+
+/**
+ * Thrown when generated files were edited by hand since they were last generated.
+ */
+export class ModifiedFilesError extends Error {
+  constructor(readonly files: string[]) {
+    super(`Generated files were edited since they were last generated: ${files.join(', ')}`);
+    this.name = 'ModifiedFilesError';
+  }
+}
+
+/**
+ * Options for writing generated files.
+ */
+export interface WriteOptions {
+  /** Overwrite or delete files even if they were edited since they were last generated */
+  force?: boolean;
+}
+
+/**
+ * What happened to each file when writing generated files.
+ */
+export interface WriteResult {
+  /** Files that were created or changed */
+  written: string[];
+  /** Files whose content was already up to date and were left untouched */
+  unchanged: string[];
+  /** Files from a previous run that are no longer generated */
+  deleted: string[];
+}
+
+/**
+ * Read the file at a path, returning null if it doesn't exist.
+ */
+const readIfExists = async (filePath: string): Promise<string | null> => {
+  try {
+    return await readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
 };
 
 /**
  * Write generated files to the target directory.
  * Creates the directory if it doesn't exist.
+ *
+ * A manifest of the written files and their hashes is kept in the target directory. It is used to
+ * delete files from previous runs that are no longer generated and to detect files that were edited
+ * by hand, which are not overwritten or deleted unless `force` is set. Files whose content hasn't
+ * changed are not rewritten, so their modification times stay stable.
+ *
+ * @throws ModifiedFilesError if a file that would be overwritten or deleted was edited by hand
  */
-export const writeGeneratedFiles = async (files: GeneratedFiles, targetDir: string): Promise<void> => {
+export const writeGeneratedFiles = async (
+  files: GeneratedFiles,
+  targetDir: string,
+  options: WriteOptions = {},
+): Promise<WriteResult> => {
   // Ensure target directory exists
   await mkdir(targetDir, {recursive: true});
 
+  const manifest = await readManifest(targetDir);
+  const previousFiles = manifest?.files ?? {};
+  const staleFiles = Object.keys(previousFiles).filter((filename) => !files.has(filename));
+
+  // Read the current content of every file that may be touched
+  const existing = new Map<string, string | null>();
+  for (const filename of [...files.keys(), ...staleFiles]) {
+    existing.set(filename, await readIfExists(join(targetDir, filename)));
+  }
+
+  // Without a manifest (first run) there is nothing to compare against, so any existing file is overwritten
+  if (manifest && !options.force) {
+    const modified = [...existing.entries()]
+      .filter(([filename, current]) => {
+        if (current === null || current === files.get(filename)) return false;
+        const hash = previousFiles[filename];
+        return hash === undefined || hashContent(current) !== hash;
+      })
+      .map(([filename]) => filename);
+
+    if (modified.length > 0) {
+      throw new ModifiedFilesError(modified.sort());
+    }
+  }
+
+  const result: WriteResult = {written: [], unchanged: [], deleted: []};
+
   // Write each file
   for (const [filename, content] of files) {
+    if (existing.get(filename) === content) {
+      result.unchanged.push(filename);
+      continue;
+    }
     const filePath = join(targetDir, filename);
     await writeFile(filePath, content, 'utf-8');
+    result.written.push(filename);
+  }
+
+  // Delete files from previous runs
+  for (const filename of staleFiles) {
+    if (existing.get(filename) !== null) {
+      await rm(join(targetDir, filename));
+      result.deleted.push(filename);
+    }
+  }
+
+  const nextManifest = createManifest(files);
+  if (JSON.stringify(nextManifest.files) !== JSON.stringify(manifest?.files)) {
+    await writeManifest(targetDir, nextManifest);
+  }
+
+  return result;
+};
+
+/**
+ * A generated file that doesn't match the file in the target directory.
+ */
+export interface FileDifference {
+  fileName: string;
+  /**
+   * - `'changed'` - The file exists with different content
+   * - `'missing'` - The file would be generated but doesn't exist
+   * - `'extra'` - A file from a previous generation exists but would no longer be generated
+   */
+  status: 'changed' | 'missing' | 'extra';
+  /** Content on disk, empty for missing files */
+  actual: string;
+  /** Generated content, empty for extra files */
+  expected: string;
+}
+
+/**
+ * Compare generated files against the files in the target directory without writing anything.
+ * Files listed in the target's manifest that would no longer be generated are reported as extra,
+ * as those are the files `writeGeneratedFiles` deletes.
+ *
+ * @returns Differences sorted by file name, empty if the target is up to date
+ */
+export const checkGeneratedFiles = async (files: GeneratedFiles, targetDir: string): Promise<FileDifference[]> => {
+  const differences: FileDifference[] = [];
+
+  for (const [filename, expected] of files) {
+    const actual = await readIfExists(join(targetDir, filename));
+    if (actual === null) {
+      differences.push({fileName: filename, status: 'missing', actual: '', expected});
+    } else if (actual !== expected) {
+      differences.push({fileName: filename, status: 'changed', actual, expected});
+    }
   }
+
+  // Only files from a previous generation are stale; other files are the user's
+  const manifest = await readManifest(targetDir);
+  for (const filename of Object.keys(manifest?.files ?? {})) {
+    if (files.has(filename)) continue;
+    const actual = await readIfExists(join(targetDir, filename));
+    if (actual !== null) {
+      differences.push({fileName: filename, status: 'extra', actual, expected: ''});
+    }
+  }
+
+  return differences.sort((a, b) => a.fileName.localeCompare(b.fileName));
 };
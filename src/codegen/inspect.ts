@@ -0,0 +1,66 @@
+import type {OpenAPIV3} from 'openapi-types';
+import type {CodegenConfig, OperationFilter} from '../config/schema.js';
+import {getClientOperations, type ClientOperation} from './clients.js';
+import {filterSpec} from './filter.js';
+import {getComponentBodyTypes, listNamedSchemas} from './types.js';
+
+/**
+ * A schema, or shared response or request body, and the type generated for it.
+ */
+export interface SchemaType {
+  /** Where the schema is, e.g. `#/components/schemas/Pet` */
+  ref: string;
+  /** Name of the type in types.ts */
+  typeName: string;
+}
+
+/**
+ * What code is generated from a document.
+ */
+export interface SpecInspection {
+  operations: ClientOperation[];
+  schemas: SchemaType[];
+}
+
+/**
+ * List the named schemas with the names of their types, followed by the shared responses and
+ * request bodies with a JSON body.
+ */
+const getSchemaTypes = (doc: OpenAPIV3.Document): SchemaType[] => {
+  const types: SchemaType[] = listNamedSchemas(doc).map(({ref, name}) => ({ref, typeName: name}));
+
+  for (const [ref, {name}] of getComponentBodyTypes(doc)) {
+    types.push({ref, typeName: name});
+  }
+
+  return types;
+};
+
+/**
+ * List the operations of a document with the client methods generated for them, and its schemas
+ * with the types generated for them. The document should be the one code is generated from,
+ * as returned by `prepareSpec`.
+ *
+ * @param filter - Only list the operations matching every criterion, and the schemas they use.
+ *   Type names are those of the whole document, as generated.
+ */
+export const inspectSpec = (
+  doc: OpenAPIV3.Document,
+  config: Partial<CodegenConfig>,
+  filter?: OperationFilter,
+): SpecInspection => {
+  const operations = getClientOperations(doc, config);
+  const schemas = getSchemaTypes(doc);
+  if (!filter) {
+    return {operations, schemas};
+  }
+
+  const filtered = filterSpec(doc, {include: filter});
+  const keptOperations = new Set(getClientOperations(filtered, config).map((op) => `${op.method} ${op.path}`));
+  const keptSchemas = new Set(getSchemaTypes(filtered).map((schema) => schema.ref));
+
+  return {
+    operations: operations.filter((op) => keptOperations.has(`${op.method} ${op.path}`)),
+    schemas: schemas.filter((schema) => keptSchemas.has(schema.ref)),
+  };
+};
@@ -0,0 +1,81 @@
+import {createHash} from 'node:crypto';
+import {readFile, writeFile} from 'node:fs/promises';
+import {basename, join} from 'node:path';
+
+/**
+ * Name of the manifest written to the target directory.
+ */
+export const MANIFEST_FILE = '.opencodegen-manifest.json';
+
+/**
+ * Record of the files written by the last generation, used to find stale and hand-edited files.
+ */
+export interface Manifest {
+  version: 1;
+  /** Map of filename to SHA-256 hash of the content that was written */
+  files: Record<string, string>;
+}
+
+/**
+ * Hash file content for the manifest.
+ */
+export const hashContent = (content: string): string => {
+  return createHash('sha256').update(content).digest('hex');
+};
+
+/**
+ * Create a manifest for a set of generated files.
+ */
+export const createManifest = (files: Map<string, string>): Manifest => {
+  const names = [...files.keys()].sort();
+  return {version: 1, files: Object.fromEntries(names.map((name) => [name, hashContent(files.get(name)!)]))};
+};
+
+/**
+ * Whether a manifest entry names a file directly in the target directory. Anything else, like
+ * `../x` in an edited or corrupted manifest, must never be deleted or overwritten.
+ */
+const isPlainFileName = (name: string): boolean => {
+  return name !== '' && name !== '.' && name !== '..' && !name.includes('\\') && basename(name) === name;
+};
+
+/**
+ * Read the manifest from a target directory. Entries that aren't plain file names are ignored.
+ *
+ * @returns The manifest, or null if the directory has none (e.g. on the first run)
+ */
+export const readManifest = async (targetDir: string): Promise<Manifest | null> => {
+  const manifestPath = join(targetDir, MANIFEST_FILE);
+
+  let content: string;
+  try {
+    content = await readFile(manifestPath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(content);
+  } catch {
+    throw new Error(`Invalid manifest ${manifestPath}: not valid JSON`);
+  }
+
+  const files = (manifest as Partial<Manifest> | null)?.files;
+  if (typeof files !== 'object' || files === null) {
+    throw new Error(`Invalid manifest ${manifestPath}: missing "files"`);
+  }
+
+  const entries = Object.entries(files).filter(
+    ([name, hash]) => isPlainFileName(name) && name !== MANIFEST_FILE && typeof hash === 'string',
+  );
+  return {version: 1, files: Object.fromEntries(entries)};
+};
+
+/**
+ * Write the manifest to a target directory.
+ */
+export const writeManifest = async (targetDir: string, manifest: Manifest): Promise<void> => {
+  await writeFile(join(targetDir, MANIFEST_FILE), `${JSON.stringify(manifest, null, 2)}\n`, 'utf-8');
+};
@@ -0,0 +1,231 @@
+import type {OpenAPIV3} from 'openapi-types';
+import type {CodegenConfig, ProjectConfig} from '../config/schema.js';
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'] as const;
+
+const SCHEMA_REF_PREFIX = '#/components/schemas/';
+
+/**
+ * The config a project is generated with, with the codegen defaults applied.
+ */
+export type ResolvedProjectConfig = Omit<Partial<ProjectConfig>, 'codegen'> & {codegen: Required<CodegenConfig>};
+
+/**
+ * Passed to every plugin hook.
+ */
+export interface PluginContext {
+  config: ResolvedProjectConfig;
+  /** The spec being generated, after every `transformSpec` hook has run */
+  document: OpenAPIV3.Document;
+}
+
+/**
+ * An operation in the spec, as passed to `onOperation`.
+ */
+export interface PluginOperation {
+  /** Path template, e.g. `/pets/{petId}` */
+  path: string;
+  method: (typeof HTTP_METHODS)[number];
+  operation: OpenAPIV3.OperationObject;
+}
+
+/**
+ * Extends code generation. Hooks are synchronous and run in the order the plugins are listed,
+ * each seeing the changes made by the previous ones. A hook that returns nothing keeps the
+ * value it was given, which it may also change in place.
+ *
+ * @example
+ * ```ts
+ * const prefixTypes = definePlugin({
+ *   name: 'prefix-types',
+ *   onSchema: (name) => ({name: `Api${name}`}),
+ * });
+ * ```
+ */
+export interface OpenCodegenPlugin {
+  /** Name used in error messages */
+  name: string;
+
+  /**
+   * Change the bundled spec before anything is generated from it.
+   */
+  transformSpec?: (document: OpenAPIV3.Document, context: Omit<PluginContext, 'document'>) => OpenAPIV3.Document | void;
+
+  /**
+   * Change a schema in `components.schemas`. Returning a new `name` renames the generated
+   * type, and every `$ref` to the schema is updated.
+   */
+  onSchema?: (
+    name: string,
+    schema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject,
+    context: PluginContext,
+  ) => {name?: string; schema?: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject} | void;
+
+  /**
+   * Change an operation before its client method is generated.
+   */
+  onOperation?: (operation: PluginOperation, context: PluginContext) => OpenAPIV3.OperationObject | void;
+
+  /**
+   * Change the content of a generated file, including files added by `addFiles`.
+   */
+  renderFile?: (fileName: string, content: string, context: PluginContext) => string | void;
+
+  /**
+   * Add files to the output, as a map or object of file name to content.
+   */
+  addFiles?: (context: PluginContext) => Map<string, string> | Record<string, string> | void;
+}
+
+/**
+ * Type helper for writing a plugin.
+ */
+export const definePlugin = (plugin: OpenCodegenPlugin): OpenCodegenPlugin => {
+  return plugin;
+};
+
+/**
+ * Run a plugin hook, naming the plugin and hook in any error it throws.
+ */
+const callHook = <T>(plugin: OpenCodegenPlugin, hook: keyof OpenCodegenPlugin, call: () => T): T => {
+  try {
+    return call();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Plugin "${plugin.name}" failed in ${hook}: ${message}`, {cause: error});
+  }
+};
+
+/**
+ * Point a ref to a renamed schema, or a value inside it, at the new name.
+ */
+const renameRef = (ref: string, renames: Map<string, string>): string => {
+  if (!ref.startsWith(SCHEMA_REF_PREFIX)) return ref;
+  const [name, ...rest] = ref.slice(SCHEMA_REF_PREFIX.length).split('/');
+  const renamed = renames.get(name);
+  return renamed === undefined ? ref : [`${SCHEMA_REF_PREFIX}${renamed}`, ...rest].join('/');
+};
+
+/**
+ * Point every `$ref` and discriminator mapping to a renamed schema at its new name.
+ */
+const renameSchemaRefs = (value: unknown, renames: Map<string, string>): void => {
+  if (Array.isArray(value)) {
+    value.forEach((item) => renameSchemaRefs(item, renames));
+    return;
+  }
+  if (typeof value !== 'object' || value === null) return;
+
+  const record = value as Record<string, unknown>;
+  for (const [key, child] of Object.entries(record)) {
+    if (key === '$ref' && typeof child === 'string') {
+      record[key] = renameRef(child, renames);
+      continue;
+    }
+    if (key === 'mapping' && typeof child === 'object' && child !== null) {
+      const mapping = child as Record<string, unknown>;
+      for (const [mappingKey, ref] of Object.entries(mapping)) {
+        if (typeof ref === 'string') mapping[mappingKey] = renameRef(ref, renames);
+      }
+    }
+    renameSchemaRefs(child, renames);
+  }
+};
+
+/**
+ * Run the `transformSpec`, `onSchema` and `onOperation` hooks on a copy of the spec.
+ *
+ * @returns The spec to generate code from
+ */
+export const applySpecPlugins = (
+  doc: OpenAPIV3.Document,
+  plugins: OpenCodegenPlugin[],
+  config: ResolvedProjectConfig,
+): OpenAPIV3.Document => {
+  let document: OpenAPIV3.Document = structuredClone(doc);
+
+  for (const plugin of plugins) {
+    if (!plugin.transformSpec) continue;
+    const current = document;
+    document = callHook(plugin, 'transformSpec', () => plugin.transformSpec!(current, {config})) ?? current;
+  }
+
+  const context: PluginContext = {config, document};
+
+  const schemas = document.components?.schemas;
+  if (schemas) {
+    const renames = new Map<string, string>();
+    const renamed: typeof schemas = {};
+    for (const [originalName, originalSchema] of Object.entries(schemas)) {
+      let name = originalName;
+      let schema = originalSchema;
+      for (const plugin of plugins) {
+        if (!plugin.onSchema) continue;
+        const result = callHook(plugin, 'onSchema', () => plugin.onSchema!(name, schema, context));
+        name = result?.name ?? name;
+        schema = result?.schema ?? schema;
+      }
+      if (Object.hasOwn(renamed, name)) {
+        throw new Error(`Two schemas are named "${name}" after running plugins`);
+      }
+      renamed[name] = schema;
+      if (name !== originalName) {
+        renames.set(originalName, name);
+      }
+    }
+    document.components!.schemas = renamed;
+    if (renames.size > 0) {
+      renameSchemaRefs(document, renames);
+    }
+  }
+
+  for (const [path, pathItem] of Object.entries(document.paths ?? {})) {
+    if (!pathItem) continue;
+    for (const method of HTTP_METHODS) {
+      for (const plugin of plugins) {
+        const operation = pathItem[method];
+        if (!operation || !plugin.onOperation) continue;
+        pathItem[method] =
+          callHook(plugin, 'onOperation', () => plugin.onOperation!({path, method, operation}, context)) ?? operation;
+      }
+    }
+  }
+
+  return document;
+};
+
+/**
+ * Run the `addFiles` and then the `renderFile` hooks on the generated files.
+ *
+ * @throws Error if a plugin adds a file that is already generated
+ */
+export const applyFilePlugins = (
+  files: Map<string, string>,
+  plugins: OpenCodegenPlugin[],
+  context: PluginContext,
+): Map<string, string> => {
+  const result = new Map(files);
+
+  for (const plugin of plugins) {
+    if (!plugin.addFiles) continue;
+    const added = callHook(plugin, 'addFiles', () => plugin.addFiles!(context));
+    for (const [fileName, content] of added instanceof Map ? added : Object.entries(added ?? {})) {
+      if (result.has(fileName)) {
+        throw new Error(`Plugin "${plugin.name}" added ${fileName}, which is already generated`);
+      }
+      result.set(fileName, content);
+    }
+  }
+
+  for (const [fileName, original] of result) {
+    let content = original;
+    for (const plugin of plugins) {
+      if (!plugin.renderFile) continue;
+      const current = content;
+      content = callHook(plugin, 'renderFile', () => plugin.renderFile!(fileName, current, context)) ?? current;
+    }
+    result.set(fileName, content);
+  }
+
+  return result;
+};
@@ -0,0 +1,198 @@
+import {resolve} from 'node:path';
+import type {OpenAPIV3} from 'openapi-types';
+import {importFresh} from '../config/loader.js';
+import type {CodegenConfig} from '../config/schema.js';
+
+/**
+ * Comment at the top of every generated file, unless the `header` template is overridden.
+ */
+export const GENERATED_HEADER = '// Generated by OpenCodegen - do not edit manually';
+
+/**
+ * Model for the `header` template.
+ */
+export interface HeaderModel {
+  /** File the header is for, e.g. `types.ts` */
+  fileName: string;
+}
+
+/**
+ * Model for the `base` template, which renders `base.ts`.
+ */
+export interface BaseModel {
+  /** Rendered `header` template */
+  header: string;
+  /** Name of the class every client extends, e.g. `BaseClient` */
+  className: string;
+  config: Required<CodegenConfig>;
+}
+
+/**
+ * A parameter of a generated client method.
+ */
+export interface MethodParameter {
+  /** Name in the generated code, camel-cased if `propertyNameStyle` is `camelCase` */
+  name: string;
+  /** Name in the spec */
+  originalName: string;
+  /** TypeScript type */
+  type: string;
+  required: boolean;
+}
+
+/**
+ * Model for the `method` template, which renders one method of a client class.
+ */
+export interface MethodModel {
+  /** Method name, from the `operationId` */
+  name: string;
+  /** Upper-case HTTP method, e.g. `GET` */
+  httpMethod: string;
+  /** Path template, e.g. `/pets/{petId}` */
+  path: string;
+  pathParameters: MethodParameter[];
+  queryParameters: MethodParameter[];
+  /** Inline type of the `params` argument holding the query parameters, if there are any */
+  queryType?: string;
+  /** Type of the request body, if the operation has one */
+  bodyType?: string;
+  responseType: string;
+  /** The operation in the spec */
+  operation: OpenAPIV3.OperationObject;
+  config: Required<CodegenConfig>;
+}
+
+/**
+ * Model for the `client` template, which renders the file of one client class.
+ */
+export interface ClientModel {
+  /** Rendered `header` template */
+  header: string;
+  /** Tag the client groups operations by */
+  tag: string;
+  className: string;
+  baseClassName: string;
+  /** File name without extension, e.g. `pets-client` */
+  fileName: string;
+  /** Names imported from `types.ts`, sorted */
+  typeImports: string[];
+  /** Rendered `method` template of each operation */
+  methods: string[];
+  operations: MethodModel[];
+  config: Required<CodegenConfig>;
+}
+
+/**
+ * Model for the `index` template, which renders `index.ts`.
+ */
+export interface IndexModel {
+  /** Rendered `header` template */
+  header: string;
+  baseClassName: string;
+  clients: {className: string; fileName: string}[];
+  config: Required<CodegenConfig>;
+}
+
+/**
+ * Renders part of the generated code from a model. `builtIn` renders it with the built-in
+ * template, so a template can change or wrap the default output.
+ */
+export type Template<Model> = (model: Model, builtIn: (model: Model) => string) => string;
+
+/**
+ * Templates that override the built-in output. The `header` is used by every file,
+ * including `types.ts`.
+ */
+export interface Templates {
+  header?: Template<HeaderModel>;
+  base?: Template<BaseModel>;
+  client?: Template<ClientModel>;
+  method?: Template<MethodModel>;
+  index?: Template<IndexModel>;
+}
+
+/**
+ * Templates as given in the config: a template function, or the path to a module whose
+ * default export is one, relative to the config file.
+ */
+export type TemplatesConfig = {[K in keyof Templates]?: Templates[K] | string};
+
+/**
+ * Render with a template, or with the built-in one if it isn't overridden.
+ */
+export const renderTemplate = <Model>(
+  template: Template<Model> | undefined,
+  builtIn: (model: Model) => string,
+  model: Model,
+): string => {
+  return template ? template(model, builtIn) : builtIn(model);
+};
+
+/**
+ * Render the header of a generated file.
+ */
+export const renderHeader = (templates: Templates, fileName: string): string => {
+  return renderTemplate(templates.header, () => GENERATED_HEADER, {fileName});
+};
+
+/**
+ * Get the template functions of a config, which must not contain paths to template files.
+ *
+ * @throws Error if a template is a path that wasn't loaded with `loadTemplates`
+ */
+export const getTemplates = (templates: TemplatesConfig = {}): Templates => {
+  for (const [name, template] of Object.entries(templates)) {
+    if (typeof template === 'string') {
+      throw new Error(`Template "${name}" is a file path (${template}); load it with loadTemplates first`);
+    }
+  }
+  return templates as Templates;
+};
+
+/**
+ * Get the absolute paths of the template files of a config.
+ *
+ * @param baseDir - Directory that template paths are relative to, usually the config file's
+ */
+export const getTemplateFiles = (templates: TemplatesConfig = {}, baseDir: string): string[] => {
+  return Object.values(templates).flatMap((template) =>
+    typeof template === 'string' ? [resolve(baseDir, template)] : [],
+  );
+};
+
+/**
+ * Import the template files of a config, so each template is a function.
+ *
+ * @param templates - Templates from the config
+ * @param baseDir - Directory that template paths are relative to, usually the config file's
+ * @param reload - Import the files afresh so changes to them are picked up (used by watch mode)
+ * @throws Error if a template file can't be imported or doesn't default-export a function
+ */
+export const loadTemplates = async (
+  templates: TemplatesConfig = {},
+  baseDir: string,
+  reload = false,
+): Promise<Templates> => {
+  const loaded: Record<string, unknown> = {};
+
+  for (const [name, template] of Object.entries(templates)) {
+    if (typeof template !== 'string') {
+      loaded[name] = template;
+      continue;
+    }
+
+    const templatePath = resolve(baseDir, template);
+    let module;
+    try {
+      module = await importFresh(templatePath, reload);
+    } catch (error) {
+      throw new Error(`Failed to load template "${name}" from ${templatePath}: ${(error as Error).message}`);
+    }
+    if (typeof module.default !== 'function') {
+      throw new Error(`Template file ${templatePath} must default-export a function`);
+    }
+    loaded[name] = module.default;
+  }
+
+  return loaded as Templates;
+};
@@ -1,6 +1,7 @@
 import type {OpenAPIV3} from 'openapi-types';
-import type {CodegenConfig} from '../config/schema.js';
-import {isRef, resolveIfRef} from '../parser/resolver.js';
+import {CODEGEN_DEFAULTS, type CodegenConfig} from '../config/schema.js';
+import {isRef, resolveIfRef, toPointer} from '../parser/resolver.js';
+import {renderHeader, type Templates} from './templates.js';
 
 /**
  * Collected inline enum that needs to be generated.
@@ -29,6 +30,183 @@ interface GenerationContext {
   discriminatorLiterals: Map<string, DiscriminatorLiteral>;
 }
 
+/**
+ * JSON Schema 2020-12 keywords used by OpenAPI 3.1 that the 3.0 typings don't describe.
+ * Schemas are read through this view so the rest of the pipeline can stay typed against 3.0.
+ */
+interface JsonSchemaKeywords {
+  type?: string | string[];
+  const?: unknown;
+  prefixItems?: (OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject)[];
+  items?: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject | boolean;
+  $defs?: Record<string, OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject>;
+}
+
+/**
+ * Get the declared types of a schema as a list.
+ * OpenAPI 3.0 uses a single string, OpenAPI 3.1 also allows an array (e.g. `['string', 'null']`).
+ */
+export const getSchemaTypes = (schema: OpenAPIV3.SchemaObject): string[] => {
+  const {type} = schema as JsonSchemaKeywords;
+  if (Array.isArray(type)) return type;
+  return type ? [type] : [];
+};
+
+/**
+ * Check if a schema defines a `const` value (OpenAPI 3.1).
+ */
+export const hasConst = (schema: OpenAPIV3.SchemaObject): boolean => {
+  return 'const' in schema;
+};
+
+/**
+ * Get the TypeScript type name for a schema $ref.
+ * Supports component schemas and JSON Schema `$defs`, either at the document root
+ * or nested in a component schema (named after the parent, e.g. `PetTag`).
+ * Returns null for refs that don't point to a named schema.
+ */
+export const getRefTypeName = (ref: string): string | null => {
+  const componentMatch = ref.match(/^#\/components\/schemas\/([^/]+)(?:\/\$defs\/([^/]+))?$/);
+  if (componentMatch) {
+    const [, name, def] = componentMatch;
+    return def ? `${name}${toPascalCase(def)}` : name;
+  }
+
+  const defsMatch = ref.match(/^#\/\$defs\/([^/]+)$/);
+  if (defsMatch) {
+    return defsMatch[1];
+  }
+
+  return null;
+};
+
+/**
+ * A schema that gets a named type.
+ */
+export interface NamedSchema {
+  /** Type name, e.g. `PetTag` for `#/components/schemas/Pet/$defs/tag` */
+  name: string;
+  /** Where the schema is in the document */
+  ref: string;
+  schema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject;
+}
+
+/**
+ * List all named schemas in document order: component schemas, their `$defs`, and root-level
+ * `$defs`. Names match those returned by `getRefTypeName`.
+ */
+export const listNamedSchemas = (doc: OpenAPIV3.Document): NamedSchema[] => {
+  const named: NamedSchema[] = [];
+
+  for (const [name, schema] of Object.entries(doc.components?.schemas ?? {})) {
+    named.push({name, ref: `#${toPointer(['components', 'schemas', name])}`, schema});
+    if (isRef(schema)) continue;
+    for (const [def, defSchema] of Object.entries((schema as JsonSchemaKeywords).$defs ?? {})) {
+      named.push({
+        name: `${name}${toPascalCase(def)}`,
+        ref: `#${toPointer(['components', 'schemas', name, '$defs', def])}`,
+        schema: defSchema,
+      });
+    }
+  }
+
+  const rootDefs = (doc as {$defs?: JsonSchemaKeywords['$defs']}).$defs ?? {};
+  for (const [def, defSchema] of Object.entries(rootDefs)) {
+    named.push({name: def, ref: `#${toPointer(['$defs', def])}`, schema: defSchema});
+  }
+
+  return named;
+};
+
+/**
+ * Collect all named schemas by type name, as listed by `listNamedSchemas`.
+ */
+export const collectNamedSchemas = (
+  doc: OpenAPIV3.Document,
+): Record<string, OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject> => {
+  return Object.fromEntries(listNamedSchemas(doc).map(({name, schema}) => [name, schema]));
+};
+
+/**
+ * Suffix of the type generated for each kind of component body.
+ */
+const COMPONENT_BODY_SUFFIXES = {responses: 'Response', requestBodies: 'RequestBody'} as const;
+
+/**
+ * A named type for the JSON body of a response or request body in `components`.
+ */
+export interface ComponentBodyType {
+  /** Type name, e.g. `PetListResponse` for `#/components/responses/PetList` */
+  name: string;
+  schema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject;
+  /** False if the body is a `$ref` to a schema whose type already has this name */
+  declared: boolean;
+}
+
+/**
+ * Get the named types for the responses and request bodies in `components`, keyed by their
+ * `$ref`. Components without a JSON body have no type. A name that is already taken by a
+ * schema gets a number appended.
+ */
+export const getComponentBodyTypes = (doc: OpenAPIV3.Document): Map<string, ComponentBodyType> => {
+  const types = new Map<string, ComponentBodyType>();
+  const taken = new Set(Object.keys(collectNamedSchemas(doc)));
+
+  for (const [kind, suffix] of Object.entries(COMPONENT_BODY_SUFFIXES) as [
+    keyof typeof COMPONENT_BODY_SUFFIXES,
+    string,
+  ][]) {
+    for (const [name, component] of Object.entries(doc.components?.[kind] ?? {})) {
+      const body = resolveIfRef<OpenAPIV3.ResponseObject | OpenAPIV3.RequestBodyObject>(doc, component);
+      const schema = body.content?.['application/json']?.schema;
+      if (!schema) continue;
+
+      const ref = `#${toPointer(['components', kind, name])}`;
+      const pascalName = toPascalCase(name);
+      const preferred = pascalName.endsWith(suffix) ? pascalName : `${pascalName}${suffix}`;
+      if (isRef(schema) && getRefTypeName(schema.$ref) === preferred) {
+        types.set(ref, {name: preferred, schema, declared: false});
+        continue;
+      }
+
+      let typeName = preferred;
+      for (let i = 2; taken.has(typeName); i++) {
+        typeName = `${preferred}${i}`;
+      }
+      taken.add(typeName);
+      types.set(ref, {name: typeName, schema, declared: true});
+    }
+  }
+
+  return types;
+};
+
+/**
+ * Format a literal value (from `const` or `enum`) as a TypeScript literal type.
+ */
+export const formatLiteral = (value: unknown): string => {
+  if (typeof value === 'string') {
+    return `'${value.replace(/'/g, "\\'")}'`;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean' || value === null) {
+    return String(value);
+  }
+  return 'unknown';
+};
+
+/**
+ * Wrap an item type in parentheses when needed to form an array type (e.g. `(string | null)[]`).
+ */
+export const toArrayType = (itemType: string): string => {
+  let depth = 0;
+  for (const char of itemType) {
+    if ('{[(<'.includes(char)) depth++;
+    else if ('}])>'.includes(char)) depth--;
+    else if (depth === 0 && (char === '|' || char === '&')) return `(${itemType})[]`;
+  }
+  return `${itemType}[]`;
+};
+
 /**
  * Convert snake_case or kebab-case to camelCase.
  */
@@ -152,32 +330,55 @@ export const schemaToTypeString = (
   // Handle $ref
   if (isRef(schema)) {
     const refPath = schema.$ref;
-    const match = refPath.match(/^#\/components\/schemas\/(.+)$/);
-    if (match) {
-      return match[1];
+    const name = getRefTypeName(refPath);
+    if (name) {
+      return name;
     }
     throw new Error(`Unsupported $ref format: ${refPath}`);
   }
 
   const schemaObj = schema as OpenAPIV3.SchemaObject;
+  const types = getSchemaTypes(schemaObj);
+  const nullType = ctx.config.nullableType === 'undefined' ? 'undefined' : 'null';
+
+  // Handle const (OpenAPI 3.1) - literal type
+  if (hasConst(schemaObj)) {
+    return formatLiteral((schemaObj as JsonSchemaKeywords).const);
+  }
 
   // Handle enum
   if (schemaObj.enum && Array.isArray(schemaObj.enum)) {
-    const values = schemaObj.enum as (string | number)[];
+    const values = schemaObj.enum.filter((v) => v !== null) as (string | number)[];
+    const isNullable = values.length < schemaObj.enum.length || types.includes('null');
+    const nullSuffix = isNullable ? ` | ${nullType}` : '';
 
     // If this is an inline enum (has parent and property), extract it
     if (parentName && propertyName) {
       const enumName = `${parentName}${toPascalCase(propertyName)}`;
       ctx.inlineEnums.push({name: enumName, values});
-      return enumName;
+      return `${enumName}${nullSuffix}`;
     }
 
     // For top-level enums without a name, return union directly
-    return values.map((v) => formatEnumValue(v)).join(' | ');
+    return values.map((v) => formatEnumValue(v)).join(' | ') + nullSuffix;
+  }
+
+  // Handle type arrays (OpenAPI 3.1), e.g. ['string', 'null'] - union of each type
+  if (types.length > 1) {
+    const parts = types
+      .filter((type) => type !== 'null')
+      .map((type) => schemaToTypeString({...schemaObj, type} as OpenAPIV3.SchemaObject, ctx, parentName, propertyName));
+    if (types.includes('null')) {
+      parts.push(nullType);
+    }
+    return [...new Set(parts)].join(' | ');
   }
 
   // Handle by type
-  switch (schemaObj.type) {
+  switch (types[0]) {
+    case 'null':
+      return nullType;
+
     case 'string':
       // Check for date formats
       if (schemaObj.format === 'date' || schemaObj.format === 'date-time') {
@@ -193,11 +394,7 @@ export const schemaToTypeString = (
       return 'boolean';
 
     case 'array':
-      if (schemaObj.items) {
-        const itemType = schemaToTypeString(schemaObj.items, ctx, parentName, propertyName);
-        return `${itemType}[]`;
-      }
-      return 'unknown[]';
+      return handleArrayType(schemaObj, ctx, parentName, propertyName);
 
     case 'object':
       return handleObjectType(schemaObj, ctx, parentName);
@@ -227,12 +424,37 @@ export const schemaToTypeString = (
 };
 
 /**
- * Handle allOf schema composition - returns intersection type for inline use.
+ * Handle array schemas, including tuples defined with `prefixItems` (OpenAPI 3.1).
  */
-const handleAllOf = (
-  allOf: (OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject)[],
+const handleArrayType = (
+  schema: OpenAPIV3.SchemaObject,
   ctx: GenerationContext,
+  parentName?: string,
+  propertyName?: string,
 ): string => {
+  const {prefixItems, items} = schema as JsonSchemaKeywords;
+
+  if (prefixItems) {
+    const elements = prefixItems.map((item) => schemaToTypeString(item, ctx, parentName, propertyName));
+    // items: false closes the tuple, otherwise additional items are allowed
+    if (items !== false) {
+      const restType = typeof items === 'object' ? schemaToTypeString(items, ctx, parentName, propertyName) : 'unknown';
+      elements.push(`...${toArrayType(restType)}`);
+    }
+    return `[${elements.join(', ')}]`;
+  }
+
+  if (typeof items === 'object') {
+    const itemType = schemaToTypeString(items, ctx, parentName, propertyName);
+    return toArrayType(itemType);
+  }
+  return 'unknown[]';
+};
+
+/**
+ * Handle allOf schema composition - returns intersection type for inline use.
+ */
+const handleAllOf = (allOf: (OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject)[], ctx: GenerationContext): string => {
   const parts: string[] = [];
 
   for (const schema of allOf) {
@@ -279,9 +501,9 @@ const generateAllOfInterface = (
 
   for (const schema of allOf) {
     if (isRef(schema)) {
-      const match = schema.$ref.match(/^#\/components\/schemas\/(.+)$/);
-      if (match) {
-        refs.push(match[1]);
+      const refName = getRefTypeName(schema.$ref);
+      if (refName) {
+        refs.push(refName);
       }
     } else {
       inlineSchemas.push(schema);
@@ -484,9 +706,10 @@ export const generateInterface = (
 
   const schemaObj = schema as OpenAPIV3.SchemaObject;
 
-  // Handle enum at top level
+  // Handle enum at top level (null is not a valid enum member, nullability is dropped)
   if (schemaObj.enum && Array.isArray(schemaObj.enum)) {
-    return generateEnum(name, schemaObj.enum as (string | number)[], ctx.config);
+    const values = schemaObj.enum.filter((v) => v !== null) as (string | number)[];
+    return generateEnum(name, values, ctx.config);
   }
 
   // Handle allOf (inheritance)
@@ -504,8 +727,9 @@ export const generateInterface = (
     return `export type ${name} = ${unionType};`;
   }
 
-  // Handle non-object types at top level
-  if (schemaObj.type !== 'object' && !schemaObj.properties) {
+  // Handle non-object types and type arrays (OpenAPI 3.1) at top level
+  const types = getSchemaTypes(schemaObj);
+  if (types.length > 1 || (types[0] !== 'object' && !schemaObj.properties)) {
     const typeStr = schemaToTypeString(schemaObj, ctx, name);
     return `export type ${name} = ${typeStr};`;
   }
@@ -554,10 +778,10 @@ export const generateInterface = (
  * Apply default values to config.
  */
 const applyDefaults = (config: Partial<CodegenConfig>): CodegenConfig => ({
-  dateType: config.dateType ?? 'string',
-  enumType: config.enumType ?? 'constObject',
-  propertyNameStyle: config.propertyNameStyle ?? 'original',
-  nullableType: config.nullableType ?? 'null',
+  dateType: config.dateType ?? CODEGEN_DEFAULTS.dateType,
+  enumType: config.enumType ?? CODEGEN_DEFAULTS.enumType,
+  propertyNameStyle: config.propertyNameStyle ?? CODEGEN_DEFAULTS.propertyNameStyle,
+  nullableType: config.nullableType ?? CODEGEN_DEFAULTS.nullableType,
 });
 
 /**
@@ -584,9 +808,9 @@ const collectDiscriminatorLiterals = (
     // Build reverse mapping: schema name -> discriminator value
     const reverseMapping = new Map<string, string>();
     for (const [value, ref] of Object.entries(mapping)) {
-      const match = ref.match(/^#\/components\/schemas\/(.+)$/);
-      if (match) {
-        reverseMapping.set(match[1], value);
+      const refName = getRefTypeName(ref);
+      if (refName) {
+        reverseMapping.set(refName, value);
       }
     }
 
@@ -594,10 +818,9 @@ const collectDiscriminatorLiterals = (
     for (const variant of variants) {
       if (!isRef(variant)) continue;
 
-      const match = variant.$ref.match(/^#\/components\/schemas\/(.+)$/);
-      if (!match) continue;
+      const schemaName = getRefTypeName(variant.$ref);
+      if (!schemaName) continue;
 
-      const schemaName = match[1];
       // Use mapping if available, otherwise use schema name in lowercase
       const literalValue = reverseMapping.get(schemaName) ?? schemaName.toLowerCase();
 
@@ -614,9 +837,14 @@ const collectDiscriminatorLiterals = (
 /**
  * Generate all TypeScript types from an OpenAPI document.
  */
-export const generateTypes = (doc: OpenAPIV3.Document, config: Partial<CodegenConfig>): string => {
-  const schemas = doc.components?.schemas;
-  if (!schemas || Object.keys(schemas).length === 0) {
+export const generateTypes = (
+  doc: OpenAPIV3.Document,
+  config: Partial<CodegenConfig>,
+  templates: Templates = {},
+): string => {
+  const schemas = collectNamedSchemas(doc);
+  const bodyTypes = [...getComponentBodyTypes(doc).values()].filter((type) => type.declared);
+  if (Object.keys(schemas).length === 0 && bodyTypes.length === 0) {
     return '// No schemas found in OpenAPI spec\n';
   }
 
@@ -637,11 +865,12 @@ export const generateTypes = (doc: OpenAPIV3.Document, config: Partial<CodegenCo
   for (const [name, schema] of Object.entries(schemas)) {
     interfaces.push(generateInterface(name, schema, ctx));
   }
+  const bodyInterfaces = bodyTypes.map(({name, schema}) => generateInterface(name, schema, ctx));
 
   // Build output: inline enums first, then interfaces
   const parts: string[] = [];
 
-  parts.push('// Generated by OpenCodegen - do not edit manually');
+  parts.push(renderHeader(templates, 'types.ts'));
   parts.push('');
 
   // Add inline enums
@@ -654,10 +883,21 @@ export const generateTypes = (doc: OpenAPIV3.Document, config: Partial<CodegenCo
   }
 
   // Add interfaces
-  parts.push('// Schemas');
-  for (const iface of interfaces) {
-    parts.push(iface);
-    parts.push('');
+  if (interfaces.length > 0) {
+    parts.push('// Schemas');
+    for (const iface of interfaces) {
+      parts.push(iface);
+      parts.push('');
+    }
+  }
+
+  // Add the bodies of shared responses and request bodies
+  if (bodyInterfaces.length > 0) {
+    parts.push('// Responses and request bodies');
+    for (const iface of bodyInterfaces) {
+      parts.push(iface);
+      parts.push('');
+    }
   }
 
   return parts.join('\n');
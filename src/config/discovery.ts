@@ -0,0 +1,62 @@
+import {existsSync, readFileSync} from 'node:fs';
+import {basename, dirname, join, resolve} from 'node:path';
+
+/**
+ * Config file names searched for in each directory, in order of preference.
+ */
+export const CONFIG_FILE_NAMES = [
+  'opencodegen.config.ts',
+  'opencodegen.config.js',
+  'opencodegen.config.mjs',
+  'opencodegen.config.cjs',
+  'opencodegen.config.json',
+  'opencodegen.config.yaml',
+  'opencodegen.config.yml',
+];
+
+/**
+ * Key holding the config in `package.json`.
+ */
+export const PACKAGE_JSON_KEY = 'opencodegen';
+
+/**
+ * Whether a config path points at a `package.json` whose `opencodegen` key holds the config.
+ */
+export const isPackageJson = (configPath: string): boolean => basename(configPath) === 'package.json';
+
+/**
+ * Check whether a `package.json` has an `opencodegen` key. Unreadable files are ignored.
+ */
+const hasPackageJsonConfig = (packagePath: string): boolean => {
+  try {
+    const pkg = JSON.parse(readFileSync(packagePath, 'utf-8'));
+    return typeof pkg === 'object' && pkg !== null && PACKAGE_JSON_KEY in pkg;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Find the config for a project by searching `startDir` and then each parent directory
+ * for one of `CONFIG_FILE_NAMES`, or a `package.json` with an `opencodegen` key.
+ *
+ * @param startDir - Directory to start searching from, usually the current directory
+ * @returns Absolute path to the config file, or undefined if none was found
+ */
+export const findConfigFile = (startDir: string): string | undefined => {
+  let dir = resolve(startDir);
+
+  for (;;) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const configPath = join(dir, name);
+      if (existsSync(configPath)) return configPath;
+    }
+
+    const packagePath = join(dir, 'package.json');
+    if (existsSync(packagePath) && hasPackageJsonConfig(packagePath)) return packagePath;
+
+    const parent = dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+};
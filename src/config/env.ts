@@ -0,0 +1,73 @@
+import {isMultiProjectConfig} from './projects.js';
+import type {OpenCodegenConfig, ProjectConfig, SourceOptions} from './schema.js';
+
+/**
+ * Matches `${NAME}` references to environment variables.
+ */
+const ENV_REFERENCE = /\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+/**
+ * Replace `${NAME}` references in a string with environment variables.
+ *
+ * @param value - String that may contain references
+ * @param path - Config key the string came from, used in the error message
+ * @param env - Environment to read from
+ * @throws Error if a referenced variable isn't set
+ */
+export const expandEnv = (value: string, path: string, env: NodeJS.ProcessEnv = process.env): string => {
+  return value.replace(ENV_REFERENCE, (_match, name: string) => {
+    const replacement = env[name];
+    if (replacement === undefined) {
+      throw new Error(`Environment variable ${name} is not set (used in "${path}")`);
+    }
+    return replacement;
+  });
+};
+
+const expandSourceOptions = (
+  options: SourceOptions | undefined,
+  path: string,
+  env: NodeJS.ProcessEnv,
+): SourceOptions | undefined => {
+  if (!options) return options;
+
+  const expanded: SourceOptions = {...options};
+  if (options.headers) {
+    expanded.headers = Object.fromEntries(
+      Object.entries(options.headers).map(([name, value]) => [name, expandEnv(value, `${path}.headers.${name}`, env)]),
+    );
+  }
+  if (options.proxy !== undefined) {
+    expanded.proxy = expandEnv(options.proxy, `${path}.proxy`, env);
+  }
+  if (options.ca !== undefined) {
+    expanded.ca = expandEnv(options.ca, `${path}.ca`, env);
+  }
+  return expanded;
+};
+
+const expandProject = <T extends ProjectConfig>(project: T, prefix: string, env: NodeJS.ProcessEnv): T => ({
+  ...project,
+  source: expandEnv(project.source, `${prefix}source`, env),
+  target: expandEnv(project.target, `${prefix}target`, env),
+  sourceOptions: expandSourceOptions(project.sourceOptions, `${prefix}sourceOptions`, env),
+  overlays: project.overlays?.map((overlay, index) => expandEnv(overlay, `${prefix}overlays[${index}]`, env)),
+});
+
+/**
+ * Replace `${NAME}` references to environment variables in `source`, `target`, `sourceOptions`
+ * and `overlays` of every project in a config.
+ *
+ * @throws Error if a referenced variable isn't set
+ */
+export const expandConfigEnv = (config: OpenCodegenConfig, env: NodeJS.ProcessEnv = process.env): OpenCodegenConfig => {
+  if (!isMultiProjectConfig(config)) {
+    return expandProject(config, '', env);
+  }
+
+  return {
+    ...config,
+    sourceOptions: expandSourceOptions(config.sourceOptions, 'sourceOptions', env),
+    projects: config.projects.map((project, index) => expandProject(project, `projects[${index}].`, env)),
+  };
+};
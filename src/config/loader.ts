@@ -1,26 +1,110 @@
+import {readFile} from 'node:fs/promises';
+import {createRequire} from 'node:module';
+import {extname} from 'node:path';
 import {pathToFileURL} from 'node:url';
+import {parse as parseYaml} from 'yaml';
+import {isPackageJson, PACKAGE_JSON_KEY} from './discovery.js';
 import type {OpenCodegenConfig} from './schema.js';
+import {expandConfigEnv} from './env.js';
+import {assertValidConfig} from './validator.js';
+
+const require = createRequire(import.meta.url);
+
+export interface LoadConfigOptions {
+  /**
+   * Bypass the module cache so changes to the file are picked up (used by watch mode).
+   */
+  reload?: boolean;
+}
 
 /**
- * Load a TypeScript/JavaScript config file.
- * Bun natively supports TypeScript imports, so no transpilation needed.
- *
- * @param configPath - Absolute path to the config file
- * @returns The loaded configuration object
+ * Number of reloads so far, which makes each reloaded module URL unique.
  */
-export const loadConfig = async (configPath: string): Promise<OpenCodegenConfig> => {
-  // Convert path to file URL for dynamic import
-  const configUrl = pathToFileURL(configPath).href;
+let reloadCount = 0;
 
+/**
+ * URL each reloaded module was last imported from, so later imports get the same version.
+ */
+const reloadedUrls = new Map<string, string>();
+
+/**
+ * Import a module by path. With `reload`, the module is imported afresh rather than taken from
+ * the module cache: ES modules are cached by URL, so a new query string gives a new module,
+ * and CommonJS modules are removed from `require.cache`.
+ */
+export const importFresh = async (modulePath: string, reload: boolean): Promise<Record<string, unknown>> => {
+  if (reload) {
+    delete require.cache[modulePath];
+    const url = pathToFileURL(modulePath);
+    url.searchParams.set('reload', String(++reloadCount));
+    reloadedUrls.set(modulePath, url.href);
+  }
+  return import(reloadedUrls.get(modulePath) ?? pathToFileURL(modulePath).href);
+};
+
+/**
+ * Import a TypeScript/JavaScript config module and return its default export.
+ * Bun natively supports TypeScript imports, so no transpilation needed.
+ */
+const importConfigModule = async (configPath: string, reload: boolean): Promise<unknown> => {
   // Import the config file (Bun handles TypeScript natively)
-  const configModule = await import(configUrl);
+  const configModule = await importFresh(configPath, reload);
 
   // Get the default export
-  const config = configModule.default as OpenCodegenConfig;
-
-  if (!config) {
+  if (!configModule.default) {
     throw new Error('Config file must have a default export');
   }
 
-  return config;
+  return configModule.default;
+};
+
+/**
+ * Read a JSON or YAML config file, or the `opencodegen` key of a `package.json`.
+ */
+const readDataConfig = async (configPath: string): Promise<unknown> => {
+  const content = await readFile(configPath, 'utf-8');
+
+  let data: unknown;
+  try {
+    data = extname(configPath) === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new Error(`Invalid ${extname(configPath).slice(1).toUpperCase()}: ${(error as Error).message}`);
+  }
+
+  if (isPackageJson(configPath)) {
+    const config = (data as Record<string, unknown> | null)?.[PACKAGE_JSON_KEY];
+    if (config === undefined) {
+      throw new Error(`package.json has no "${PACKAGE_JSON_KEY}" key`);
+    }
+    return config;
+  }
+
+  if (data === null || data === undefined) {
+    throw new Error('Config file is empty');
+  }
+
+  return data;
+};
+
+/**
+ * Load a config file. TypeScript and JavaScript files (`.ts`, `.js`, `.mjs`, `.cjs`) are
+ * imported and must have a default export; `.json`, `.yaml` and `.yml` files are parsed,
+ * and for `package.json` the config is read from its `opencodegen` key.
+ * `${NAME}` references to environment variables are expanded (see `SourceOptions`).
+ *
+ * @param configPath - Absolute path to the config file
+ * @param options - Loading options
+ * @returns The loaded configuration object
+ * @throws ConfigValidationError if the config doesn't match `OpenCodegenConfig`
+ * @throws Error if a referenced environment variable isn't set
+ */
+export const loadConfig = async (configPath: string, options: LoadConfigOptions = {}): Promise<OpenCodegenConfig> => {
+  const extension = extname(configPath);
+  const isData = extension === '.json' || extension === '.yaml' || extension === '.yml';
+
+  const config = isData
+    ? await readDataConfig(configPath)
+    : await importConfigModule(configPath, options.reload ?? false);
+
+  return expandConfigEnv(assertValidConfig(config));
 };
@@ -0,0 +1,68 @@
+/**
+ * Config values given on the command line, applied on top of the config file.
+ */
+export interface ConfigOverrides {
+  /** Replaces the project's `source` */
+  source?: string;
+  /** Replaces the project's `target` */
+  target?: string;
+  /** `key=value` pairs setting any project option, e.g. `codegen.enumType=union` */
+  set?: string[];
+}
+
+/**
+ * Nested config values to merge into a project.
+ */
+export type ConfigPatch = Record<string, unknown>;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Keys that would reach `Object.prototype` instead of setting an option.
+ */
+const FORBIDDEN_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+/**
+ * Parse `key=value` pairs into nested values, e.g. `codegen.enumType=union` into
+ * `{codegen: {enumType: 'union'}}`. Later pairs win. Values are strings; see
+ * `coerceProjectPatch` for converting them to the types the options expect.
+ *
+ * @throws Error for a pair without a key or `=`, or with a key like `__proto__`
+ */
+export const parseSetEntries = (entries: string[]): ConfigPatch => {
+  const patch: ConfigPatch = {};
+
+  for (const entry of entries) {
+    const separator = entry.indexOf('=');
+    const keys = separator === -1 ? [] : entry.slice(0, separator).split('.');
+    if (keys.length === 0 || keys.some((key) => key === '')) {
+      throw new Error(`Invalid --set value "${entry}": expected key=value, e.g. codegen.enumType=union`);
+    }
+    const forbidden = keys.find((key) => FORBIDDEN_KEYS.has(key));
+    if (forbidden) {
+      throw new Error(`Invalid --set value "${entry}": "${forbidden}" can't be set`);
+    }
+
+    let parent = patch;
+    for (const key of keys.slice(0, -1)) {
+      if (!isPlainObject(parent[key])) parent[key] = {};
+      parent = parent[key] as ConfigPatch;
+    }
+    parent[keys[keys.length - 1]] = entry.slice(separator + 1);
+  }
+
+  return patch;
+};
+
+/**
+ * Merge nested values into a config object, returning a new object.
+ * Objects are merged key by key; other values replace what was there.
+ */
+export const applyPatch = <T extends object>(config: T, patch: ConfigPatch): T => {
+  const result: Record<string, unknown> = {...(config as Record<string, unknown>)};
+  for (const [key, value] of Object.entries(patch)) {
+    result[key] = isPlainObject(value) && isPlainObject(result[key]) ? applyPatch(result[key], value) : value;
+  }
+  return result as T;
+};
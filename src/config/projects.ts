@@ -0,0 +1,30 @@
+import type {MultiProjectConfig, OpenCodegenConfig, ProjectConfig} from './schema.js';
+
+/**
+ * Whether a config lists several projects rather than being a single project.
+ */
+export const isMultiProjectConfig = (config: OpenCodegenConfig): config is MultiProjectConfig => 'projects' in config;
+
+/**
+ * List the projects in a config, with the shared `sourceOptions`, `codegen`, `lint`, `plugins`
+ * and `templates` options merged into each.
+ * A single-project config is returned as the only project.
+ */
+export const getProjects = (config: OpenCodegenConfig): ProjectConfig[] => {
+  if (!isMultiProjectConfig(config)) {
+    return [config];
+  }
+
+  return config.projects.map((project) => ({
+    ...project,
+    sourceOptions: {
+      ...config.sourceOptions,
+      ...project.sourceOptions,
+      headers: {...config.sourceOptions?.headers, ...project.sourceOptions?.headers},
+    },
+    codegen: {...config.codegen, ...project.codegen},
+    lint: {...config.lint, ...project.lint, rules: {...config.lint?.rules, ...project.lint?.rules}},
+    plugins: [...(config.plugins ?? []), ...(project.plugins ?? [])],
+    templates: {...config.templates, ...project.templates},
+  }));
+};
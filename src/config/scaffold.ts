@@ -0,0 +1,129 @@
+import {existsSync} from 'node:fs';
+import {extname, join} from 'node:path';
+import {stringify as stringifyYaml} from 'yaml';
+import {isPackageJson} from './discovery.js';
+import type {CodegenConfig, ProjectConfig} from './schema.js';
+
+/**
+ * A codegen option that can be chosen when scaffolding a config.
+ */
+export interface CodegenOption<K extends keyof CodegenConfig = keyof CodegenConfig> {
+  key: K;
+  /** Short description shown when prompting */
+  label: string;
+  choices: NonNullable<CodegenConfig[K]>[];
+  /** Default value, always the first choice */
+  default: NonNullable<CodegenConfig[K]>;
+}
+
+const option = <K extends keyof CodegenConfig>(
+  key: K,
+  label: string,
+  choices: NonNullable<CodegenConfig[K]>[],
+): CodegenOption<K> => ({key, label, choices, default: choices[0]});
+
+/**
+ * Codegen options offered when scaffolding a config, with their choices and defaults
+ * as documented on `CodegenConfig`.
+ */
+export const CODEGEN_OPTIONS: CodegenOption[] = [
+  option('dateType', 'Date type', ['string', 'Date']),
+  option('enumType', 'Enum type', ['constObject', 'union', 'enum']),
+  option('propertyNameStyle', 'Property name style', ['original', 'camelCase']),
+  option('nullableType', 'Nullable type', ['null', 'undefined']),
+  option('clientSuffix', 'Client suffix', ['Client', 'Api']),
+];
+
+/**
+ * Default target directory for generated code.
+ */
+export const DEFAULT_TARGET = './src/api';
+
+/**
+ * File names commonly used for OpenAPI specs, in order of preference.
+ */
+const SPEC_FILE_NAMES = ['openapi', 'swagger', 'api', 'spec'].flatMap((name) =>
+  ['yaml', 'yml', 'json'].map((ext) => `${name}.${ext}`),
+);
+
+/**
+ * Directories commonly holding OpenAPI specs, relative to the project root.
+ */
+const SPEC_DIRS = ['.', 'openapi', 'spec', 'specs', 'api', 'docs'];
+
+/**
+ * Find likely OpenAPI spec files in a project.
+ *
+ * @param dir - Project root to search
+ * @returns Paths relative to `dir` (e.g. `./openapi.yaml`), most likely first
+ */
+export const detectSpecFiles = (dir: string): string[] => {
+  const found: string[] = [];
+  for (const specDir of SPEC_DIRS) {
+    for (const name of SPEC_FILE_NAMES) {
+      if (existsSync(join(dir, specDir, name))) {
+        found.push(specDir === '.' ? `./${name}` : `./${specDir}/${name}`);
+      }
+    }
+  }
+  return found;
+};
+
+/**
+ * Quote a string as a single-quoted TypeScript literal.
+ */
+const quote = (value: string): string => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+/**
+ * Kind of config file that can be scaffolded: a module using `defineConfig`, JSON or YAML.
+ */
+export type ConfigFileFormat = 'module' | 'json' | 'yaml';
+
+const CONFIG_FILE_FORMATS: Record<string, ConfigFileFormat> = {
+  '.ts': 'module',
+  '.js': 'module',
+  '.mjs': 'module',
+  '.json': 'json',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+};
+
+/**
+ * Get the kind of config file to scaffold at a path, from its extension.
+ *
+ * @returns The format, or undefined for a path that can't be scaffolded, such as a `package.json`
+ *   or a CommonJS module
+ */
+export const getConfigFileFormat = (configPath: string): ConfigFileFormat | undefined => {
+  return isPackageJson(configPath) ? undefined : CONFIG_FILE_FORMATS[extname(configPath)];
+};
+
+/**
+ * Render a config file, listing every codegen option explicitly.
+ *
+ * @param format - A module that uses `defineConfig` by default, or plain JSON or YAML
+ */
+export const renderConfigFile = (config: ProjectConfig, format: ConfigFileFormat = 'module'): string => {
+  const codegenKeys = CODEGEN_OPTIONS.map(({key}) => key).filter((key) => config.codegen?.[key] !== undefined);
+
+  if (format !== 'module') {
+    const codegen = Object.fromEntries(codegenKeys.map((key) => [key, config.codegen?.[key]]));
+    const data = {source: config.source, target: config.target, codegen};
+    return format === 'json' ? `${JSON.stringify(data, null, 2)}\n` : stringifyYaml(data);
+  }
+
+  const codegenLines = codegenKeys.map((key) => `    ${key}: ${quote(String(config.codegen?.[key]))},`);
+
+  return [
+    "import {defineConfig} from 'opencodegen';",
+    '',
+    'export default defineConfig({',
+    `  source: ${quote(config.source)},`,
+    `  target: ${quote(config.target)},`,
+    '  codegen: {',
+    ...codegenLines,
+    '  },',
+    '});',
+    '',
+  ].join('\n');
+};
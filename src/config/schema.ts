@@ -1,3 +1,6 @@
+import type {OpenCodegenPlugin} from '../codegen/plugins.js';
+import type {TemplatesConfig} from '../codegen/templates.js';
+
 /**
  * Configuration for OpenCodegen.
  *
@@ -14,17 +17,45 @@
  *   },
  * });
  * ```
+ *
+ * To generate clients for several specs, list them as `projects` instead (see `MultiProjectConfig`).
+ */
+export type OpenCodegenConfig = ProjectConfig | MultiProjectConfig;
+
+/**
+ * Where to read a spec from and write its generated code to, and how to generate it.
  */
-export interface OpenCodegenConfig {
+export interface ProjectConfig {
+  /**
+   * Name used in output and to select the project with `--project`.
+   * Required for projects listed in `MultiProjectConfig`.
+   */
+  name?: string;
+
   /**
    * Path to the OpenAPI specification file.
    * Supports JSON and YAML formats.
    *
    * @example './openapi.yaml'
    * @example './specs/api.json'
+   * @example 'https://${API_HOST}/openapi.json'
    */
   source: string;
 
+  /**
+   * How to fetch `source` when it is a URL.
+   */
+  sourceOptions?: SourceOptions;
+
+  /**
+   * OpenAPI Overlay 1.0 documents that patch the spec before anything is done with it, applied
+   * in order. Paths are relative to the config file; URLs are fetched like `source`.
+   * An overlay action whose target matches nothing is an error.
+   *
+   * @example ['./overlays/add-operation-ids.yaml']
+   */
+  overlays?: string[];
+
   /**
    * Directory where generated code will be written.
    * Will be created if it doesn't exist.
@@ -36,8 +67,182 @@ export interface OpenCodegenConfig {
 
   /**
    * Code generation options that affect the generated TypeScript output.
+   * Every option is optional and falls back to the default documented on it.
+   */
+  codegen?: Partial<CodegenConfig>;
+
+  /**
+   * Style rules checked by `opencodegen lint`.
+   */
+  lint?: LintConfig;
+
+  /**
+   * Plugins that change the spec and the generated files, run in order.
+   *
+   * @example [renameTypes(), vendorExtensions()]
+   */
+  plugins?: OpenCodegenPlugin[];
+
+  /**
+   * Templates that override parts of the generated code: `header`, `base`, `client`, `method`
+   * and `index`. Each is a function from a model to code, or the path to a module that
+   * default-exports one, relative to the config file.
+   *
+   * @example { header: () => '// Copyright Acme Corp', method: './templates/method.ts' }
+   */
+  templates?: TemplatesConfig;
+
+  /**
+   * Generate only some of the operations in the spec. Schemas that the remaining operations
+   * don't use are left out of `types.ts`.
+   *
+   * @example { include: { tags: ['pets', 'store'] }, exclude: { extensions: { 'x-internal': true } } }
+   */
+  filter?: FilterConfig;
+}
+
+/**
+ * Several projects in one config, each generated from its own spec.
+ *
+ * @example
+ * ```ts
+ * export default defineConfig({
+ *   codegen: { enumType: 'union' },
+ *   projects: [
+ *     { name: 'billing', source: './specs/billing.yaml', target: './src/billing' },
+ *     { name: 'users', source: './specs/users.yaml', target: './src/users', codegen: { dateType: 'Date' } },
+ *   ],
+ * });
+ * ```
+ */
+export interface MultiProjectConfig {
+  /**
+   * The projects to generate. Their `codegen` and `lint` options override the shared ones.
+   */
+  projects: (ProjectConfig & {name: string})[];
+
+  /**
+   * Options for fetching remote sources shared by all projects. Headers are merged with
+   * those of each project.
+   */
+  sourceOptions?: SourceOptions;
+
+  /**
+   * Codegen options shared by all projects.
+   */
+  codegen?: Partial<CodegenConfig>;
+
+  /**
+   * Lint rules shared by all projects.
+   */
+  lint?: LintConfig;
+
+  /**
+   * Plugins run for every project, before each project's own plugins.
+   */
+  plugins?: OpenCodegenPlugin[];
+
+  /**
+   * Templates shared by all projects. Each project's templates override them.
+   */
+  templates?: TemplatesConfig;
+}
+
+/**
+ * Options for fetching a remote spec.
+ *
+ * `${NAME}` in `headers`, `proxy` and `ca` (as well as in `source`, `target` and `overlays`) is replaced
+ * with the environment variable `NAME`, so secrets can stay out of the config file.
+ */
+export interface SourceOptions {
+  /**
+   * HTTP headers sent with each request. They are only sent to the host of `source`,
+   * not to other hosts its `$ref`s point to.
+   *
+   * @example { Authorization: 'Bearer ${API_TOKEN}' }
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Milliseconds to wait for a response before giving up.
+   *
+   * @default 30000
+   */
+  timeout?: number;
+
+  /**
+   * Times to retry after a network error, a timeout, or a 429 or 5xx response.
+   *
+   * @default 2
+   */
+  retries?: number;
+
+  /**
+   * Proxy to send requests through.
+   *
+   * @example 'http://proxy.internal:8080'
+   */
+  proxy?: string;
+
+  /**
+   * Path to a PEM file with additional CA certificates to trust, relative to the config file.
+   */
+  ca?: string;
+}
+
+/**
+ * Which operations to generate code for.
+ */
+export interface FilterConfig {
+  /**
+   * Only generate operations that match every criterion set here.
+   */
+  include?: OperationFilter;
+
+  /**
+   * Don't generate operations that match any criterion set here, even if they are included.
+   */
+  exclude?: OperationFilter;
+}
+
+/**
+ * Criteria an operation is matched against. A criterion with a list matches if any item does.
+ */
+export interface OperationFilter {
+  /**
+   * Operations with any of these tags.
+   */
+  tags?: string[];
+
+  /**
+   * Paths matching any of these globs, where `*` matches within a path segment and `**` across
+   * segments.
+   *
+   * @example ['/pets/*', '/admin/**']
+   */
+  paths?: string[];
+
+  /**
+   * Operations with any of these `operationId`s.
+   */
+  operationIds?: string[];
+
+  /**
+   * Operations with any of these HTTP methods, in lower case.
+   */
+  methods?: ('get' | 'put' | 'post' | 'delete' | 'options' | 'head' | 'patch' | 'trace')[];
+
+  /**
+   * Operations whose `deprecated` flag is this value.
+   */
+  deprecated?: boolean;
+
+  /**
+   * Vendor extensions and the value each must be set to. Each extension is a separate criterion.
+   *
+   * @example { 'x-internal': true }
    */
-  codegen: CodegenConfig;
+  extensions?: Record<string, string | number | boolean>;
 }
 
 export interface CodegenConfig {
@@ -106,8 +311,45 @@ export interface CodegenConfig {
   clientSuffix?: 'Client' | 'Api';
 }
 
+/**
+ * Default values for options in `CodegenConfig` that aren't set.
+ */
+export const CODEGEN_DEFAULTS: Required<CodegenConfig> = {
+  dateType: 'string',
+  enumType: 'constObject',
+  propertyNameStyle: 'original',
+  nullableType: 'null',
+  methodNameStyle: 'operationId',
+  clientSuffix: 'Client',
+};
+
+/**
+ * Names of the style rules checked by `opencodegen lint`.
+ *
+ * - `'operation-id'` - Every operation has an `operationId`
+ * - `'operation-tags'` - Every operation has at least one tag
+ * - `'typed-responses'` - Successful responses with a body declare a schema
+ * - `'no-inline-schemas'` - Object schemas in request and response bodies are `$ref`s to components
+ */
+export type LintRuleName = 'operation-id' | 'operation-tags' | 'typed-responses' | 'no-inline-schemas';
+
+/**
+ * Severity of a lint rule, or `'off'` to disable it.
+ */
+export type LintRuleSetting = 'error' | 'warning' | 'off';
+
+export interface LintConfig {
+  /**
+   * Severity per rule. Rules that aren't listed are reported as warnings.
+   *
+   * @example { 'operation-tags': 'off', 'operation-id': 'error' }
+   */
+  rules?: Partial<Record<LintRuleName, LintRuleSetting>>;
+}
+
 /**
  * Helper function to define configuration with type checking and autocomplete.
+ * Accepts a single project or a `MultiProjectConfig`.
  *
  * @example
  * ```ts
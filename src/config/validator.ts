@@ -0,0 +1,418 @@
+import {LINT_RULES} from '../parser/linter.js';
+import type {ConfigPatch} from './overrides.js';
+import {CODEGEN_OPTIONS} from './scaffold.js';
+import type {OpenCodegenConfig} from './schema.js';
+
+/**
+ * Describes the expected shape of a config value.
+ */
+type ValueSchema =
+  | {type: 'string'}
+  | {type: 'function'}
+  | {type: 'boolean'}
+  | {type: 'union'; types: ('string' | 'function' | 'number' | 'boolean')[]}
+  | {type: 'number'; min: number}
+  | {type: 'enum'; values: readonly string[]}
+  | {type: 'object'; fields: Record<string, FieldSchema>}
+  | {type: 'array'; items: ValueSchema}
+  | {type: 'record'; values: ValueSchema};
+
+type FieldSchema = ValueSchema & {required?: boolean};
+
+/**
+ * A problem found in a config, e.g. an unknown key or an invalid value.
+ */
+export interface ConfigIssue {
+  /** Dotted path of the offending key, e.g. `codegen.enumType` */
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown when a config doesn't match the expected shape.
+ */
+export class ConfigValidationError extends Error {
+  constructor(readonly issues: ConfigIssue[]) {
+    super(`Invalid config:\n${issues.map((issue) => `  - ${issue.message}`).join('\n')}`);
+    this.name = 'ConfigValidationError';
+  }
+}
+
+const CODEGEN_SCHEMA: ValueSchema = {
+  type: 'object',
+  fields: {
+    ...Object.fromEntries(CODEGEN_OPTIONS.map(({key, choices}) => [key, {type: 'enum', values: choices}])),
+    methodNameStyle: {type: 'enum', values: ['operationId']},
+  },
+};
+
+const LINT_SCHEMA: ValueSchema = {
+  type: 'object',
+  fields: {
+    rules: {
+      type: 'object',
+      fields: Object.fromEntries(LINT_RULES.map((rule) => [rule, {type: 'enum', values: ['error', 'warning', 'off']}])),
+    },
+  },
+};
+
+const SOURCE_OPTIONS_SCHEMA: ValueSchema = {
+  type: 'object',
+  fields: {
+    headers: {type: 'record', values: {type: 'string'}},
+    timeout: {type: 'number', min: 1},
+    retries: {type: 'number', min: 0},
+    proxy: {type: 'string'},
+    ca: {type: 'string'},
+  },
+};
+
+const PLUGINS_SCHEMA: ValueSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    fields: {
+      name: {type: 'string', required: true},
+      ...Object.fromEntries(
+        ['transformSpec', 'onSchema', 'onOperation', 'renderFile', 'addFiles'].map((hook) => [
+          hook,
+          {type: 'function'},
+        ]),
+      ),
+    },
+  },
+};
+
+const TEMPLATES_SCHEMA: ValueSchema = {
+  type: 'object',
+  fields: Object.fromEntries(
+    ['header', 'base', 'client', 'method', 'index'].map((name) => [
+      name,
+      {type: 'union', types: ['function', 'string']},
+    ]),
+  ),
+};
+
+const OPERATION_FILTER_SCHEMA: ValueSchema = {
+  type: 'object',
+  fields: {
+    tags: {type: 'array', items: {type: 'string'}},
+    paths: {type: 'array', items: {type: 'string'}},
+    operationIds: {type: 'array', items: {type: 'string'}},
+    methods: {
+      type: 'array',
+      items: {type: 'enum', values: ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace']},
+    },
+    deprecated: {type: 'boolean'},
+    extensions: {type: 'record', values: {type: 'union', types: ['string', 'number', 'boolean']}},
+  },
+};
+
+const FILTER_SCHEMA: ValueSchema = {
+  type: 'object',
+  fields: {include: OPERATION_FILTER_SCHEMA, exclude: OPERATION_FILTER_SCHEMA},
+};
+
+const PROJECT_FIELDS: Record<string, FieldSchema> = {
+  name: {type: 'string'},
+  source: {type: 'string', required: true},
+  sourceOptions: SOURCE_OPTIONS_SCHEMA,
+  overlays: {type: 'array', items: {type: 'string'}},
+  target: {type: 'string', required: true},
+  codegen: CODEGEN_SCHEMA,
+  lint: LINT_SCHEMA,
+  plugins: PLUGINS_SCHEMA,
+  templates: TEMPLATES_SCHEMA,
+  filter: FILTER_SCHEMA,
+};
+
+const PROJECT_SCHEMA: ValueSchema = {type: 'object', fields: PROJECT_FIELDS};
+
+const MULTI_PROJECT_SCHEMA: ValueSchema = {
+  type: 'object',
+  fields: {
+    projects: {
+      type: 'array',
+      required: true,
+      items: {type: 'object', fields: {...PROJECT_FIELDS, name: {type: 'string', required: true}}},
+    },
+    sourceOptions: SOURCE_OPTIONS_SCHEMA,
+    codegen: CODEGEN_SCHEMA,
+    lint: LINT_SCHEMA,
+    plugins: PLUGINS_SCHEMA,
+    templates: TEMPLATES_SCHEMA,
+  },
+};
+
+/**
+ * Context for validation, accumulates issues.
+ */
+interface ValidationContext {
+  issues: ConfigIssue[];
+  /** Don't report missing required options */
+  partial: boolean;
+}
+
+const report = (ctx: ValidationContext, path: string, message: string): void => {
+  ctx.issues.push({path, message});
+};
+
+/**
+ * Levenshtein distance between two strings.
+ */
+const editDistance = (a: string, b: string): number => {
+  let prev = Array.from({length: b.length + 1}, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+};
+
+/**
+ * Find the candidate closest to a misspelled value, if any is close enough to be a likely typo.
+ */
+const findSuggestion = (value: string, candidates: readonly string[]): string | undefined => {
+  const lower = value.toLowerCase();
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = editDistance(lower, candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best !== undefined && bestDistance <= Math.max(2, Math.floor(best.length / 3)) ? best : undefined;
+};
+
+const didYouMean = (suggestion: string | undefined): string => (suggestion ? `. Did you mean "${suggestion}"?` : '');
+
+/**
+ * Describe the type of a value for error messages.
+ */
+const describeType = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'object' ? 'an object' : `a ${typeof value}`;
+};
+
+const joinPath = (parent: string, key: string): string => (parent ? `${parent}.${key}` : key);
+
+const validateValue = (ctx: ValidationContext, value: unknown, schema: ValueSchema, path: string): void => {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        report(ctx, path, `"${path}" must be a string, got ${describeType(value)}`);
+      }
+      return;
+
+    case 'function':
+      if (typeof value !== 'function') {
+        report(ctx, path, `"${path}" must be a function, got ${describeType(value)}`);
+      }
+      return;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        report(ctx, path, `"${path}" must be a boolean, got ${describeType(value)}`);
+      }
+      return;
+
+    case 'union':
+      if (!schema.types.includes(typeof value as (typeof schema.types)[number])) {
+        const types = schema.types.map((type) => `a ${type}`);
+        const expected = `${types.slice(0, -1).join(', ')} or ${types[types.length - 1]}`;
+        report(ctx, path, `"${path}" must be ${expected}, got ${describeType(value)}`);
+      }
+      return;
+
+    case 'number':
+      if (typeof value !== 'number' || !Number.isInteger(value)) {
+        const actual = typeof value === 'number' ? String(value) : describeType(value);
+        report(ctx, path, `"${path}" must be a whole number, got ${actual}`);
+      } else if (value < schema.min) {
+        report(ctx, path, `"${path}" must be at least ${schema.min}, got ${value}`);
+      }
+      return;
+
+    case 'enum': {
+      const expected = schema.values.map((v) => `"${v}"`).join(', ');
+      if (typeof value !== 'string') {
+        report(ctx, path, `"${path}" must be one of ${expected}, got ${describeType(value)}`);
+      } else if (!schema.values.includes(value)) {
+        const suggestion = findSuggestion(value, schema.values);
+        report(
+          ctx,
+          path,
+          `Invalid value "${value}" for "${path}", expected one of ${expected}${didYouMean(suggestion)}`,
+        );
+      }
+      return;
+    }
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        report(ctx, path, `"${path}" must be an array, got ${describeType(value)}`);
+        return;
+      }
+      value.forEach((item, index) => validateValue(ctx, item, schema.items, `${path}[${index}]`));
+      return;
+
+    case 'record':
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        report(ctx, path, `"${path}" must be an object, got ${describeType(value)}`);
+        return;
+      }
+      for (const [key, item] of Object.entries(value)) {
+        validateValue(ctx, item, schema.values, joinPath(path, key));
+      }
+      return;
+
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        report(ctx, path || 'config', `${path ? `"${path}"` : 'Config'} must be an object, got ${describeType(value)}`);
+        return;
+      }
+
+      const record = value as Record<string, unknown>;
+      const known = Object.keys(schema.fields);
+
+      for (const key of Object.keys(record)) {
+        if (!Object.hasOwn(schema.fields, key)) {
+          const keyPath = joinPath(path, key);
+          report(ctx, keyPath, `Unknown option "${keyPath}"${didYouMean(findSuggestion(key, known))}`);
+        }
+      }
+
+      for (const [key, field] of Object.entries(schema.fields)) {
+        const keyPath = joinPath(path, key);
+        if (record[key] === undefined) {
+          if (field.required && !ctx.partial) report(ctx, keyPath, `Missing required option "${keyPath}"`);
+          continue;
+        }
+        validateValue(ctx, record[key], field, keyPath);
+      }
+      return;
+    }
+  }
+};
+
+/**
+ * Check that a multi-project config has projects, and that their names are unique.
+ */
+const validateProjectList = (ctx: ValidationContext, projects: unknown[]): void => {
+  if (projects.length === 0) {
+    report(ctx, 'projects', '"projects" must list at least one project');
+  }
+
+  const seen = new Set<string>();
+  projects.forEach((project, index) => {
+    const name = (project as {name?: unknown} | null)?.name;
+    if (typeof name !== 'string') return;
+    if (seen.has(name)) {
+      report(ctx, `projects[${index}].name`, `Duplicate project name "${name}"`);
+    }
+    seen.add(name);
+  });
+};
+
+/**
+ * Check a loaded config against the expected shape: a single project, or a list of
+ * `projects` if the config has that key.
+ *
+ * @param config - The config file's default export
+ * @returns The issues found, empty if the config is valid
+ */
+export const validateConfig = (config: unknown): ConfigIssue[] => {
+  const ctx: ValidationContext = {issues: [], partial: false};
+  const isMultiProject = typeof config === 'object' && config !== null && 'projects' in config;
+
+  validateValue(ctx, config, isMultiProject ? MULTI_PROJECT_SCHEMA : PROJECT_SCHEMA, '');
+
+  const projects = isMultiProject ? (config as {projects: unknown}).projects : undefined;
+  if (Array.isArray(projects)) {
+    validateProjectList(ctx, projects);
+  }
+
+  return ctx.issues;
+};
+
+/**
+ * Check values to merge into a single project, e.g. given on the command line.
+ * Like `validateConfig`, but no option is required.
+ *
+ * @returns The issues found, empty if the values are valid
+ */
+export const validateProjectPatch = (patch: unknown): ConfigIssue[] => {
+  const ctx: ValidationContext = {issues: [], partial: true};
+  validateValue(ctx, patch, PROJECT_SCHEMA, '');
+  return ctx.issues;
+};
+
+/**
+ * Convert a string written as a boolean or number to that type if `types` allows it,
+ * e.g. `'5000'` to a number.
+ */
+const coerceString = (value: string, types: readonly string[]): unknown => {
+  if (types.includes('boolean') && (value === 'true' || value === 'false')) {
+    return value === 'true';
+  }
+  if (types.includes('number') && value.trim() !== '' && Number.isFinite(Number(value))) {
+    return Number(value);
+  }
+  return value;
+};
+
+const coerceValue = (value: unknown, schema: ValueSchema): unknown => {
+  if (typeof value === 'string') {
+    switch (schema.type) {
+      case 'boolean':
+      case 'number':
+        return coerceString(value, [schema.type]);
+      case 'union':
+        return coerceString(value, schema.types);
+      default:
+        return value;
+    }
+  }
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return value;
+  }
+  if (schema.type === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        Object.hasOwn(schema.fields, key) ? coerceValue(item, schema.fields[key]) : item,
+      ]),
+    );
+  }
+  if (schema.type === 'record') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, coerceValue(item, schema.values)]));
+  }
+  return value;
+};
+
+/**
+ * Convert the string values of a patch parsed from `--set` to the booleans and numbers the
+ * options expect, e.g. `{sourceOptions: {timeout: '5000'}}` to `{sourceOptions: {timeout: 5000}}`.
+ * Values that aren't written as the expected type are left for `validateProjectPatch` to report.
+ */
+export const coerceProjectPatch = (patch: ConfigPatch): ConfigPatch => {
+  return coerceValue(patch, PROJECT_SCHEMA) as ConfigPatch;
+};
+
+/**
+ * Check a loaded config, throwing a `ConfigValidationError` listing every issue if it's invalid.
+ */
+export const assertValidConfig = (config: unknown): OpenCodegenConfig => {
+  const issues = validateConfig(config);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+  return config as OpenCodegenConfig;
+};
@@ -0,0 +1,655 @@
+import type {OpenAPIV3} from 'openapi-types';
+import type {CodegenConfig} from '../config/schema.js';
+import {getClientClassName, getClientFileName, getClientFileNames} from '../codegen/clients.js';
+import {getRefTypeName, getSchemaTypes, hasConst} from '../codegen/types.js';
+import {isRef, resolveIfRef, toPointer} from '../parser/resolver.js';
+
+/**
+ * HTTP methods that generated clients have methods for.
+ */
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options'] as const;
+
+/**
+ * A single difference between two versions of a spec.
+ */
+export interface SpecChange {
+  /** Whether code using the generated clients may stop compiling or working */
+  breaking: boolean;
+  /** Stable identifier of the kind of change, e.g. `operation-removed` */
+  code: string;
+  message: string;
+  /** JSON pointer to the change in the new document, or in the old one for removals */
+  pointer: string;
+  /** Generated files whose content changes, e.g. `pets-client.ts` */
+  files: string[];
+}
+
+/**
+ * A generated file affected by the changes.
+ */
+export interface AffectedFile {
+  fileName: string;
+  /** Client class defined in the file, for client files */
+  className?: string;
+  status: 'added' | 'removed' | 'changed';
+}
+
+/**
+ * Result of comparing two versions of a spec.
+ */
+export interface SpecDiff {
+  changes: SpecChange[];
+  breakingCount: number;
+  files: AffectedFile[];
+}
+
+/**
+ * An operation with the parameters inherited from its path item merged in.
+ */
+interface OperationEntry {
+  operation: OpenAPIV3.OperationObject;
+  /** Parameters keyed by `getParameterKey` */
+  parameters: Map<string, OpenAPIV3.ParameterObject>;
+  /** e.g. `GET /pets/{petId}` */
+  label: string;
+  path: (string | number)[];
+  /** Client files the operation is generated into */
+  files: string[];
+}
+
+/**
+ * Context for diffing, accumulates changes.
+ */
+interface DiffContext {
+  oldDoc: OpenAPIV3.Document;
+  newDoc: OpenAPIV3.Document;
+  changes: SpecChange[];
+}
+
+const record = (
+  ctx: DiffContext,
+  breaking: boolean,
+  code: string,
+  message: string,
+  path: (string | number)[],
+  files: string[],
+): void => {
+  ctx.changes.push({breaking, code, message, pointer: toPointer(path), files});
+};
+
+/**
+ * Resolve a value, returning undefined for refs that don't resolve.
+ */
+const tryResolve = <T>(doc: OpenAPIV3.Document, value: T | OpenAPIV3.ReferenceObject): T | undefined => {
+  try {
+    return resolveIfRef(doc, value);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Describe a schema's type for messages and comparison, e.g. `Pet`, `string`, `integer | null`.
+ */
+const describeType = (schema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject): string => {
+  if (isRef(schema)) {
+    return getRefTypeName(schema.$ref) ?? schema.$ref;
+  }
+  const types = getSchemaTypes(schema);
+  if (schema.nullable && !types.includes('null')) {
+    types.push('null');
+  }
+  return types.length > 0 ? types.join(' | ') : 'unknown';
+};
+
+/**
+ * Get the schema of an array's items, an empty schema if it has none (allowed in 3.1, e.g. with
+ * only `prefixItems`).
+ */
+const getItems = (schema: OpenAPIV3.SchemaObject): OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject => {
+  const {items} = schema as {items?: unknown};
+  return typeof items === 'object' && items !== null ? (items as OpenAPIV3.SchemaObject) : {};
+};
+
+const formatValues = (values: unknown[]): string => values.map((value) => JSON.stringify(value)).join(', ');
+
+/**
+ * Keywords whose members make up a composed schema, compared member by member.
+ */
+const COMPOSITION_KEYWORDS = ['allOf', 'oneOf', 'anyOf'] as const;
+
+/**
+ * Compare two schemas. Refs are compared by name only; the referenced components are compared separately.
+ */
+const diffSchema = (
+  ctx: DiffContext,
+  oldSchema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject,
+  newSchema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject,
+  label: string,
+  path: (string | number)[],
+  files: string[],
+): void => {
+  const oldType = describeType(oldSchema);
+  const newType = describeType(newSchema);
+  if (oldType !== newType) {
+    record(ctx, true, 'type-changed', `Type of ${label} changed from ${oldType} to ${newType}`, path, files);
+    return;
+  }
+  if (isRef(oldSchema) || isRef(newSchema)) return;
+
+  // Enums
+  const oldEnum = oldSchema.enum ?? [];
+  const newEnum = newSchema.enum ?? [];
+  const removedValues = oldEnum.filter((value) => !newEnum.includes(value));
+  const addedValues = newEnum.filter((value) => !oldEnum.includes(value));
+  if (newSchema.enum && removedValues.length > 0) {
+    record(
+      ctx,
+      true,
+      'enum-narrowed',
+      `${label} no longer allows ${formatValues(removedValues)}`,
+      [...path, 'enum'],
+      files,
+    );
+  }
+  if (oldSchema.enum && addedValues.length > 0) {
+    record(
+      ctx,
+      false,
+      'enum-widened',
+      `${label} now also allows ${formatValues(addedValues)}`,
+      [...path, 'enum'],
+      files,
+    );
+  }
+
+  // Const values (OpenAPI 3.1)
+  const oldConst = (oldSchema as {const?: unknown}).const;
+  const newConst = (newSchema as {const?: unknown}).const;
+  const constPath = [...path, 'const'];
+  if (hasConst(oldSchema) && hasConst(newSchema) && JSON.stringify(oldConst) !== JSON.stringify(newConst)) {
+    record(
+      ctx,
+      true,
+      'const-changed',
+      `${label} changed from ${formatValues([oldConst])} to ${formatValues([newConst])}`,
+      constPath,
+      files,
+    );
+  } else if (!hasConst(oldSchema) && hasConst(newSchema)) {
+    record(ctx, true, 'const-added', `${label} now only allows ${formatValues([newConst])}`, constPath, files);
+  } else if (hasConst(oldSchema) && !hasConst(newSchema)) {
+    record(ctx, false, 'const-removed', `${label} no longer only allows ${formatValues([oldConst])}`, path, files);
+  }
+
+  // Properties
+  const oldProps = oldSchema.properties ?? {};
+  const newProps = newSchema.properties ?? {};
+  const oldRequired = new Set(oldSchema.required ?? []);
+  const newRequired = new Set(newSchema.required ?? []);
+
+  for (const name of Object.keys(oldProps)) {
+    if (!(name in newProps)) {
+      record(
+        ctx,
+        true,
+        'property-removed',
+        `Property "${name}" was removed from ${label}`,
+        [...path, 'properties', name],
+        files,
+      );
+    }
+  }
+  for (const [name, newProp] of Object.entries(newProps)) {
+    const propPath = [...path, 'properties', name];
+    const oldProp = oldProps[name];
+    if (!oldProp) {
+      if (newRequired.has(name)) {
+        record(
+          ctx,
+          true,
+          'required-property-added',
+          `Required property "${name}" was added to ${label}`,
+          propPath,
+          files,
+        );
+      } else {
+        record(ctx, false, 'property-added', `Property "${name}" was added to ${label}`, propPath, files);
+      }
+      continue;
+    }
+
+    if (!oldRequired.has(name) && newRequired.has(name)) {
+      record(ctx, true, 'property-now-required', `Property "${name}" of ${label} is now required`, propPath, files);
+    } else if (oldRequired.has(name) && !newRequired.has(name)) {
+      record(
+        ctx,
+        true,
+        'property-now-optional',
+        `Property "${name}" of ${label} is no longer required`,
+        propPath,
+        files,
+      );
+    }
+
+    diffSchema(ctx, oldProp, newProp, `${label}.${name}`, propPath, files);
+  }
+
+  // Array items, including in 3.1 type arrays like `['array', 'null']`
+  if (getSchemaTypes(oldSchema).includes('array') && getSchemaTypes(newSchema).includes('array')) {
+    diffSchema(ctx, getItems(oldSchema), getItems(newSchema), `${label}[]`, [...path, 'items'], files);
+  }
+
+  // Additional properties, when they have a schema
+  const oldAdditional = oldSchema.additionalProperties;
+  const newAdditional = newSchema.additionalProperties;
+  const additionalPath = [...path, 'additionalProperties'];
+  if (typeof oldAdditional === 'object' && typeof newAdditional === 'object') {
+    diffSchema(ctx, oldAdditional, newAdditional, `${label}[key]`, additionalPath, files);
+  } else if (typeof oldAdditional === 'object') {
+    record(
+      ctx,
+      true,
+      'additional-properties-removed',
+      `Schema of additional properties was removed from ${label}`,
+      path,
+      files,
+    );
+  } else if (typeof newAdditional === 'object') {
+    record(
+      ctx,
+      false,
+      'additional-properties-added',
+      `Schema of additional properties was added to ${label}`,
+      additionalPath,
+      files,
+    );
+  }
+
+  // Composition members, matched by position. Another allOf member adds constraints, another oneOf
+  // or anyOf member only widens the union.
+  for (const keyword of COMPOSITION_KEYWORDS) {
+    const oldMembers = oldSchema[keyword] ?? [];
+    const newMembers = newSchema[keyword] ?? [];
+    for (const [index, oldMember] of oldMembers.entries()) {
+      const memberPath = [...path, keyword, index];
+      const newMember = newMembers[index];
+      if (newMember) {
+        diffSchema(ctx, oldMember, newMember, `${label}.${keyword}[${index}]`, memberPath, files);
+      } else {
+        record(
+          ctx,
+          true,
+          'composition-member-removed',
+          `${keyword}[${index}] was removed from ${label}`,
+          memberPath,
+          files,
+        );
+      }
+    }
+    for (const index of newMembers.keys()) {
+      if (index < oldMembers.length) continue;
+      record(
+        ctx,
+        keyword === 'allOf',
+        'composition-member-added',
+        `${keyword}[${index}] was added to ${label}`,
+        [...path, keyword, index],
+        files,
+      );
+    }
+  }
+};
+
+/**
+ * Normalize a path template so renamed path parameters still match, e.g. `/pets/{id}` -> `/pets/{}`.
+ */
+const normalizePath = (path: string): string => path.replace(/\{[^}]+\}/g, '{}');
+
+/**
+ * Key parameters by location and name. Path parameters are passed to client methods
+ * positionally, so they are keyed by their position in the path template instead.
+ */
+const getParameterKey = (param: OpenAPIV3.ParameterObject, templateNames: string[]): string => {
+  const position = templateNames.indexOf(param.name);
+  return param.in === 'path' && position !== -1 ? `path:${position}` : `${param.in}:${param.name}`;
+};
+
+/**
+ * Collect every operation in a document keyed by method and normalized path.
+ */
+const collectOperations = (doc: OpenAPIV3.Document): Map<string, OperationEntry> => {
+  const operations = new Map<string, OperationEntry>();
+
+  for (const [pathKey, pathItem] of Object.entries(doc.paths ?? {})) {
+    if (!pathItem) continue;
+
+    const pathParams = (pathItem.parameters ?? []).map((param) => tryResolve(doc, param));
+    const templateNames = [...pathKey.matchAll(/\{([^}]+)\}/g)].map((match) => match[1]);
+
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (!operation) continue;
+
+      // Operation parameters override path parameters with the same name and location
+      const parameters = new Map<string, OpenAPIV3.ParameterObject>();
+      for (const param of [...pathParams, ...(operation.parameters ?? []).map((p) => tryResolve(doc, p))]) {
+        if (param) parameters.set(`${param.in}:${param.name}`, param);
+      }
+
+      operations.set(`${method} ${normalizePath(pathKey)}`, {
+        operation,
+        parameters: new Map([...parameters.values()].map((param) => [getParameterKey(param, templateNames), param])),
+        label: `${method.toUpperCase()} ${pathKey}`,
+        path: ['paths', pathKey, method],
+        files: (operation.tags ?? ['default']).map((tag) => `${getClientFileName(tag)}.ts`),
+      });
+    }
+  }
+
+  return operations;
+};
+
+/**
+ * Get the schema of the body generated clients use: the JSON media type, or the first one.
+ */
+const getBodySchema = (
+  content: Record<string, OpenAPIV3.MediaTypeObject> | undefined,
+): {mediaType: string; schema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject} | undefined => {
+  const mediaType = content?.['application/json'] ? 'application/json' : Object.keys(content ?? {})[0];
+  const schema = mediaType ? content?.[mediaType]?.schema : undefined;
+  return schema ? {mediaType, schema} : undefined;
+};
+
+/**
+ * Get the success response generated clients return, as for the response type of a method.
+ */
+const getSuccessResponse = (
+  doc: OpenAPIV3.Document,
+  responses: OpenAPIV3.ResponsesObject | undefined,
+): {code: string; response: OpenAPIV3.ResponseObject} | undefined => {
+  for (const code of ['200', '201', '202', '203', '204']) {
+    const response = responses?.[code] && tryResolve(doc, responses[code]);
+    if (response) return {code, response};
+  }
+  return undefined;
+};
+
+/**
+ * Compare the parameters of an operation.
+ */
+const diffParameters = (ctx: DiffContext, oldOp: OperationEntry, newOp: OperationEntry, files: string[]): void => {
+  const oldParams = oldOp.parameters;
+  const newParams = newOp.parameters;
+
+  for (const [paramKey, oldParam] of oldParams) {
+    if (!newParams.has(paramKey)) {
+      record(
+        ctx,
+        true,
+        'parameter-removed',
+        `${oldParam.in} parameter "${oldParam.name}" was removed from ${newOp.label}`,
+        [...newOp.path, 'parameters'],
+        files,
+      );
+    }
+  }
+
+  for (const [paramKey, newParam] of newParams) {
+    const description = `${newParam.in} parameter "${newParam.name}" of ${newOp.label}`;
+    const oldParam = oldParams.get(paramKey);
+    if (!oldParam) {
+      if (newParam.required) {
+        record(
+          ctx,
+          true,
+          'required-parameter-added',
+          `Required ${description} was added`,
+          [...newOp.path, 'parameters'],
+          files,
+        );
+      } else {
+        record(
+          ctx,
+          false,
+          'parameter-added',
+          `Optional ${description} was added`,
+          [...newOp.path, 'parameters'],
+          files,
+        );
+      }
+      continue;
+    }
+
+    if (!oldParam.required && newParam.required) {
+      record(
+        ctx,
+        true,
+        'parameter-now-required',
+        `${description} is now required`,
+        [...newOp.path, 'parameters'],
+        files,
+      );
+    }
+    if (oldParam.schema && newParam.schema) {
+      diffSchema(ctx, oldParam.schema, newParam.schema, description, [...newOp.path, 'parameters'], files);
+    }
+  }
+};
+
+/**
+ * Compare the request bodies of an operation.
+ */
+const diffRequestBody = (ctx: DiffContext, oldOp: OperationEntry, newOp: OperationEntry, files: string[]): void => {
+  const oldBody = oldOp.operation.requestBody && tryResolve(ctx.oldDoc, oldOp.operation.requestBody);
+  const newBody = newOp.operation.requestBody && tryResolve(ctx.newDoc, newOp.operation.requestBody);
+  const bodyPath = [...newOp.path, 'requestBody'];
+
+  if (!oldBody && newBody) {
+    record(
+      ctx,
+      newBody.required === true,
+      'request-body-added',
+      `Request body was added to ${newOp.label}`,
+      bodyPath,
+      files,
+    );
+    return;
+  }
+  if (oldBody && !newBody) {
+    record(ctx, true, 'request-body-removed', `Request body was removed from ${newOp.label}`, oldOp.path, files);
+    return;
+  }
+  if (!oldBody || !newBody) return;
+
+  if (!oldBody.required && newBody.required) {
+    record(ctx, true, 'request-body-now-required', `Request body of ${newOp.label} is now required`, bodyPath, files);
+  }
+
+  const oldSchema = getBodySchema(oldBody.content);
+  const newSchema = getBodySchema(newBody.content);
+  if (oldSchema && newSchema) {
+    diffSchema(
+      ctx,
+      oldSchema.schema,
+      newSchema.schema,
+      `request body of ${newOp.label}`,
+      [...bodyPath, 'content', newSchema.mediaType, 'schema'],
+      files,
+    );
+  }
+};
+
+/**
+ * Compare the success responses of an operation.
+ */
+const diffResponse = (ctx: DiffContext, oldOp: OperationEntry, newOp: OperationEntry, files: string[]): void => {
+  const oldSuccess = getSuccessResponse(ctx.oldDoc, oldOp.operation.responses);
+  const newSuccess = getSuccessResponse(ctx.newDoc, newOp.operation.responses);
+  const oldSchema = getBodySchema(oldSuccess?.response.content);
+  const newSchema = getBodySchema(newSuccess?.response.content);
+  const label = `response of ${newOp.label}`;
+
+  if (oldSchema && !newSchema) {
+    record(ctx, true, 'response-body-removed', `Response body was removed from ${newOp.label}`, newOp.path, files);
+  } else if (!oldSchema && newSchema) {
+    record(ctx, true, 'response-body-added', `Response body was added to ${newOp.label}`, newOp.path, files);
+  } else if (oldSchema && newSchema && newSuccess) {
+    diffSchema(
+      ctx,
+      oldSchema.schema,
+      newSchema.schema,
+      label,
+      [...newOp.path, 'responses', newSuccess.code, 'content', newSchema.mediaType, 'schema'],
+      files,
+    );
+  }
+};
+
+/**
+ * Compare operations matched by method and path.
+ */
+const diffOperations = (ctx: DiffContext): void => {
+  const oldOps = collectOperations(ctx.oldDoc);
+  const newOps = collectOperations(ctx.newDoc);
+
+  for (const [key, oldOp] of oldOps) {
+    if (!newOps.has(key)) {
+      const name = oldOp.operation.operationId ? ` (${oldOp.operation.operationId})` : '';
+      record(ctx, true, 'operation-removed', `${oldOp.label}${name} was removed`, oldOp.path, oldOp.files);
+    }
+  }
+
+  for (const [key, newOp] of newOps) {
+    const oldOp = oldOps.get(key);
+    if (!oldOp) {
+      record(ctx, false, 'operation-added', `${newOp.label} was added`, newOp.path, newOp.files);
+      continue;
+    }
+
+    const files = [...new Set([...oldOp.files, ...newOp.files])].sort();
+
+    if (oldOp.operation.operationId !== newOp.operation.operationId) {
+      record(
+        ctx,
+        true,
+        'operation-id-changed',
+        `operationId of ${newOp.label} changed from ${oldOp.operation.operationId ?? '(none)'} to ${newOp.operation.operationId ?? '(none)'}`,
+        [...newOp.path, 'operationId'],
+        files,
+      );
+    }
+
+    // Operations are generated into one client per tag
+    const oldTags = (oldOp.operation.tags ?? ['default']).join(', ');
+    const newTags = (newOp.operation.tags ?? ['default']).join(', ');
+    if (oldTags !== newTags) {
+      record(
+        ctx,
+        true,
+        'operation-moved',
+        `Tags of ${newOp.label} changed from ${oldTags} to ${newTags}`,
+        [...newOp.path, 'tags'],
+        files,
+      );
+    }
+
+    diffParameters(ctx, oldOp, newOp, files);
+    diffRequestBody(ctx, oldOp, newOp, files);
+    diffResponse(ctx, oldOp, newOp, files);
+  }
+};
+
+/**
+ * Compare the component schemas, which are generated into types.ts.
+ */
+const diffSchemas = (ctx: DiffContext): void => {
+  const oldSchemas = ctx.oldDoc.components?.schemas ?? {};
+  const newSchemas = ctx.newDoc.components?.schemas ?? {};
+  const files = ['types.ts'];
+
+  for (const name of Object.keys(oldSchemas)) {
+    if (!(name in newSchemas)) {
+      record(ctx, true, 'schema-removed', `Schema ${name} was removed`, ['components', 'schemas', name], files);
+    }
+  }
+
+  for (const [name, newSchema] of Object.entries(newSchemas)) {
+    const path = ['components', 'schemas', name];
+    const oldSchema = oldSchemas[name];
+    if (!oldSchema) {
+      record(ctx, false, 'schema-added', `Schema ${name} was added`, path, files);
+      continue;
+    }
+    diffSchema(ctx, oldSchema, newSchema, name, path, files);
+  }
+};
+
+/**
+ * Work out which generated files change, using the client files each document generates.
+ */
+const getAffectedFiles = (ctx: DiffContext, config: Partial<CodegenConfig>): AffectedFile[] => {
+  const classNames = new Map<string, string>();
+  for (const doc of [ctx.oldDoc, ctx.newDoc]) {
+    for (const {operation} of collectOperations(doc).values()) {
+      for (const tag of operation.tags ?? ['default']) {
+        classNames.set(`${getClientFileName(tag)}.ts`, getClientClassName(tag, config.clientSuffix));
+      }
+    }
+  }
+
+  const oldFiles = new Set(getClientFileNames(ctx.oldDoc).map((name) => `${name}.ts`));
+  const newFiles = new Set(getClientFileNames(ctx.newDoc).map((name) => `${name}.ts`));
+
+  const status = new Map<string, AffectedFile['status']>();
+  for (const change of ctx.changes) {
+    for (const file of change.files) {
+      status.set(file, 'changed');
+    }
+  }
+  for (const file of oldFiles) {
+    if (!newFiles.has(file)) status.set(file, 'removed');
+  }
+  for (const file of newFiles) {
+    if (!oldFiles.has(file)) status.set(file, 'added');
+  }
+  // index.ts re-exports every client
+  if ([...status.values()].some((value) => value !== 'changed')) {
+    status.set('index.ts', 'changed');
+  }
+
+  return [...status.entries()]
+    .map(([fileName, fileStatus]) => ({
+      fileName,
+      ...(classNames.has(fileName) && {className: classNames.get(fileName)}),
+      status: fileStatus,
+    }))
+    .sort((a, b) => a.fileName.localeCompare(b.fileName));
+};
+
+/**
+ * Compare two versions of an OpenAPI document and classify each change as breaking or
+ * non-breaking for code using the generated clients: removed or renamed operations,
+ * new required parameters, narrowed enums, removed properties, type changes and so on.
+ * Also reports which generated files would change.
+ *
+ * @param oldDoc - The previous version of the document
+ * @param newDoc - The new version of the document
+ * @param config - Codegen options, used for client class names
+ */
+export const diffSpecs = (
+  oldDoc: OpenAPIV3.Document,
+  newDoc: OpenAPIV3.Document,
+  config: Partial<CodegenConfig> = {},
+): SpecDiff => {
+  const ctx: DiffContext = {oldDoc, newDoc, changes: []};
+
+  diffOperations(ctx);
+  diffSchemas(ctx);
+
+  return {
+    changes: ctx.changes,
+    breakingCount: ctx.changes.filter((change) => change.breaking).length,
+    files: getAffectedFiles(ctx, config),
+  };
+};
@@ -0,0 +1,221 @@
+/**
+ * A line in an edit script turning one text into another.
+ */
+interface LineEdit {
+  type: 'equal' | 'delete' | 'insert';
+  line: string;
+}
+
+/**
+ * Split text into lines, ignoring the empty line after a trailing newline.
+ */
+const splitLines = (text: string): string[] => {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+};
+
+/**
+ * The middle snake of the shortest edit script between two ranges: a run of equal lines from
+ * (x, y) to (u, v), relative to the start of each range, that splits the script in two halves.
+ */
+interface Snake {
+  x: number;
+  y: number;
+  u: number;
+  v: number;
+}
+
+/**
+ * Find the middle snake between `a[aStart..aEnd)` and `b[bStart..bEnd)` by searching forward from
+ * the start and backward from the end at once until the paths overlap (Myers' linear space
+ * refinement). Both ranges must be non-empty.
+ */
+const findMiddleSnake = (
+  a: string[],
+  aStart: number,
+  aEnd: number,
+  b: string[],
+  bStart: number,
+  bEnd: number,
+): Snake => {
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  const delta = n - m;
+  const odd = (delta & 1) !== 0;
+  const max = Math.ceil((n + m) / 2);
+  const offset = max + 1;
+  // forward[k + offset] is the furthest x reached on diagonal k from the start, and
+  // backward[k + offset] the furthest distance from the end on diagonal k of the reversed ranges
+  const forward = new Int32Array(2 * max + 3);
+  const backward = new Int32Array(2 * max + 3);
+
+  for (let d = 0; d <= max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && forward[k - 1 + offset] < forward[k + 1 + offset])
+          ? forward[k + 1 + offset]
+          : forward[k - 1 + offset] + 1;
+      let y = x - k;
+      const startX = x;
+      const startY = y;
+      while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+        x++;
+        y++;
+      }
+      forward[k + offset] = x;
+      // Diagonal k of the ranges is diagonal delta - k of the reversed ranges
+      if (odd && delta - k >= -(d - 1) && delta - k <= d - 1 && x + backward[delta - k + offset] >= n) {
+        return {x: startX, y: startY, u: x, v: y};
+      }
+    }
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && backward[k - 1 + offset] < backward[k + 1 + offset])
+          ? backward[k + 1 + offset]
+          : backward[k - 1 + offset] + 1;
+      let y = x - k;
+      const startX = x;
+      const startY = y;
+      while (x < n && y < m && a[aEnd - 1 - x] === b[bEnd - 1 - y]) {
+        x++;
+        y++;
+      }
+      backward[k + offset] = x;
+      if (!odd && delta - k >= -d && delta - k <= d && x + forward[delta - k + offset] >= n) {
+        return {x: n - x, y: m - y, u: n - startX, v: m - startY};
+      }
+    }
+  }
+
+  // Not reached: the paths overlap after at most `max` steps
+  throw new Error('No middle snake found');
+};
+
+/**
+ * Append the shortest edit script between `a[aStart..aEnd)` and `b[bStart..bEnd)` to `edits`.
+ */
+const diffRanges = (
+  a: string[],
+  aStart: number,
+  aEnd: number,
+  b: string[],
+  bStart: number,
+  bEnd: number,
+  edits: LineEdit[],
+): void => {
+  // Equal lines at the start and end are kept as they are
+  while (aStart < aEnd && bStart < bEnd && a[aStart] === b[bStart]) {
+    edits.push({type: 'equal', line: a[aStart]});
+    aStart++;
+    bStart++;
+  }
+  const suffixEnd = aEnd;
+  while (aStart < aEnd && bStart < bEnd && a[aEnd - 1] === b[bEnd - 1]) {
+    aEnd--;
+    bEnd--;
+  }
+
+  if (aStart === aEnd) {
+    for (let i = bStart; i < bEnd; i++) edits.push({type: 'insert', line: b[i]});
+  } else if (bStart === bEnd) {
+    for (let i = aStart; i < aEnd; i++) edits.push({type: 'delete', line: a[i]});
+  } else {
+    const {x, y, u, v} = findMiddleSnake(a, aStart, aEnd, b, bStart, bEnd);
+    diffRanges(a, aStart, aStart + x, b, bStart, bStart + y, edits);
+    for (let i = aStart + x; i < aStart + u; i++) edits.push({type: 'equal', line: a[i]});
+    diffRanges(a, aStart + u, aEnd, b, bStart + v, bEnd, edits);
+  }
+
+  for (let i = aEnd; i < suffixEnd; i++) edits.push({type: 'equal', line: a[i]});
+};
+
+/**
+ * Compute the shortest edit script between two lists of lines (Myers' algorithm, in linear
+ * space so large generated files can be compared).
+ */
+const diffLines = (a: string[], b: string[]): LineEdit[] => {
+  const edits: LineEdit[] = [];
+  diffRanges(a, 0, a.length, b, 0, b.length, edits);
+  return edits;
+};
+
+/**
+ * Format a hunk range, e.g. `3,7` or `0,0` for an empty range.
+ */
+const formatRange = (start: number, count: number): string => {
+  const line = count === 0 ? start - 1 : start;
+  return count === 1 ? `${line}` : `${line},${count}`;
+};
+
+/**
+ * Create a unified diff between two texts, as printed by `diff -u`.
+ * Returns an empty string if the texts are equal.
+ *
+ * @param oldText - The original text
+ * @param newText - The changed text
+ * @param oldLabel - Name shown on the `---` line
+ * @param newLabel - Name shown on the `+++` line
+ * @param context - Number of unchanged lines shown around each change
+ */
+export const createUnifiedDiff = (
+  oldText: string,
+  newText: string,
+  oldLabel: string,
+  newLabel: string,
+  context = 3,
+): string => {
+  if (oldText === newText) return '';
+
+  const edits = diffLines(splitLines(oldText), splitLines(newText));
+  const lines = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+
+  // Line numbers (1-based) in the old and new text before each edit
+  const positions: {oldLine: number; newLine: number}[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const edit of edits) {
+    positions.push({oldLine, newLine});
+    if (edit.type !== 'insert') oldLine++;
+    if (edit.type !== 'delete') newLine++;
+  }
+
+  let index = 0;
+  while (index < edits.length) {
+    // Find the next change
+    while (index < edits.length && edits[index].type === 'equal') index++;
+    if (index >= edits.length) break;
+
+    // Extend the hunk while changes are within 2 * context lines of each other
+    const start = Math.max(0, index - context);
+    let end = index;
+    let equalRun = 0;
+    for (let i = index; i < edits.length; i++) {
+      if (edits[i].type === 'equal') {
+        equalRun++;
+        if (equalRun > 2 * context) break;
+      } else {
+        equalRun = 0;
+        end = i;
+      }
+    }
+    end = Math.min(edits.length - 1, end + context);
+
+    const hunk = edits.slice(start, end + 1);
+    const oldCount = hunk.filter((edit) => edit.type !== 'insert').length;
+    const newCount = hunk.filter((edit) => edit.type !== 'delete').length;
+    lines.push(
+      `@@ -${formatRange(positions[start].oldLine, oldCount)} +${formatRange(positions[start].newLine, newCount)} @@`,
+    );
+    for (const edit of hunk) {
+      const prefix = edit.type === 'equal' ? ' ' : edit.type === 'delete' ? '-' : '+';
+      lines.push(`${prefix}${edit.line}`);
+    }
+
+    index = end + 1;
+  }
+
+  return `${lines.join('\n')}\n`;
+};
@@ -1,2 +1,47 @@
 export {defineConfig} from './config/schema.js';
-export type {OpenCodegenConfig, CodegenConfig} from './config/schema.js';
+export type {
+  OpenCodegenConfig,
+  ProjectConfig,
+  MultiProjectConfig,
+  SourceOptions,
+  CodegenConfig,
+  LintConfig,
+  LintRuleName,
+  LintRuleSetting,
+  FilterConfig,
+  OperationFilter,
+} from './config/schema.js';
+export {loadConfig} from './config/loader.js';
+export {findConfigFile} from './config/discovery.js';
+export {getProjects} from './config/projects.js';
+export {ConfigValidationError} from './config/validator.js';
+export type {ConfigIssue} from './config/validator.js';
+
+export {parse, validate, generate, write, SpecLoadError, SpecValidationError} from './api/index.js';
+export type {
+  SpecInput,
+  ParseOptions,
+  ParsedSpec,
+  ValidateOptions,
+  GenerateConfig,
+  WriteFilesOptions,
+} from './api/index.js';
+export {ModifiedFilesError, definePlugin, loadTemplates, GENERATED_HEADER} from './codegen/index.js';
+export type {
+  GeneratedFiles,
+  WriteResult,
+  OpenCodegenPlugin,
+  PluginContext,
+  PluginOperation,
+  ResolvedProjectConfig,
+  Template,
+  Templates,
+  TemplatesConfig,
+  HeaderModel,
+  BaseModel,
+  ClientModel,
+  MethodModel,
+  MethodParameter,
+  IndexModel,
+} from './codegen/index.js';
+export type {Diagnostic, DiagnosticSeverity, OpenAPIV3, RemoteDocument} from './parser/index.js';
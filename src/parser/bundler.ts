@@ -0,0 +1,377 @@
+import {basename, dirname, extname, resolve} from 'node:path';
+import type {OpenAPIV3} from 'openapi-types';
+import {isUrl, loadDocument, type FetchOptions, type RemoteDocument} from './loader.js';
+import {isRef, parsePointer, toPointer} from './resolver.js';
+import {isSwagger2Doc, upgradeSwagger2, upgradeSwagger2Ref} from './swagger2.js';
+
+/**
+ * Options for bundling a multi-file document.
+ */
+export interface BundleOptions {
+  /**
+   * Cache of loaded documents keyed by absolute path or URL.
+   * Pass the same map to several bundles to avoid reloading shared files.
+   */
+  cache?: Map<string, Promise<unknown>>;
+  /**
+   * How to fetch referenced URLs. Headers are only sent to the origin of the root document,
+   * so credentials for it aren't leaked to other hosts.
+   */
+  fetch?: FetchOptions;
+  /**
+   * Called for each construct of a referenced Swagger 2.0 document that can't be mapped to
+   * OpenAPI 3.0. Ignored by default.
+   */
+  onWarning?: (message: string) => void;
+}
+
+/**
+ * Result of bundling a multi-file document.
+ */
+export interface BundleResult {
+  /** Single self-contained document with only internal $refs */
+  document: OpenAPIV3.Document;
+  /** Every file path or URL that was read, starting with the root source */
+  sources: string[];
+  /** How each referenced URL was obtained (fetched or cached) */
+  remote: RemoteDocument[];
+}
+
+/**
+ * Component sections an external $ref can be moved into.
+ */
+const COMPONENT_TYPES = [
+  'schemas',
+  'parameters',
+  'requestBodies',
+  'responses',
+  'headers',
+  'examples',
+  'links',
+  'callbacks',
+  'securitySchemes',
+] as const;
+type ComponentType = (typeof COMPONENT_TYPES)[number];
+
+/**
+ * State shared while bundling a single document.
+ */
+interface BundleContext {
+  rootLocation: string;
+  components: Record<ComponentType, Record<string, unknown>>;
+  cache: Map<string, Promise<unknown>>;
+  fetch: FetchOptions;
+  onWarning: (message: string) => void;
+  /** Referenced Swagger 2.0 documents upgraded to OpenAPI 3.0, keyed by location */
+  upgraded: Map<string, OpenAPIV3.Document>;
+  /** Maps `location#pointer` to the internal $ref it was bundled as */
+  bundled: Map<string, string>;
+  /** Path items currently being inlined, to detect cycles */
+  inlining: Set<string>;
+  sources: Set<string>;
+  remote: RemoteDocument[];
+}
+
+/**
+ * Keys whose values are lists or maps of objects of a given component type.
+ */
+const CONTAINER_KEYS: Partial<Record<string, ComponentType>> = {
+  parameters: 'parameters',
+  responses: 'responses',
+  headers: 'headers',
+  examples: 'examples',
+  links: 'links',
+  callbacks: 'callbacks',
+};
+
+/**
+ * Check if `path[index]` is the given keyword rather than a schema property that happens to share its name.
+ */
+const isKeywordAt = (path: string[], index: number, keyword: string): boolean => {
+  return index >= 0 && path[index] === keyword && path[index - 1] !== 'properties';
+};
+
+/**
+ * Work out which component type a $ref at the given location holds, from its parent keys.
+ * Returns null for path items, which have no component section in OpenAPI 3.0 and are inlined.
+ */
+const getComponentType = (path: string[]): ComponentType | null => {
+  const last = path.length - 1;
+
+  // Path items: entries of paths/webhooks, or expressions inside a callback
+  if (path.length === 2 && (path[0] === 'paths' || path[0] === 'webhooks')) return null;
+  if (isKeywordAt(path, last - 2, 'callbacks')) return null;
+
+  // Component entries: components/<type>/<name>
+  if (path.length === 3 && path[0] === 'components') {
+    return COMPONENT_TYPES.find((type) => type === path[1]) ?? 'schemas';
+  }
+
+  if (path[last] === 'requestBody') return 'requestBodies';
+
+  const container = CONTAINER_KEYS[path[last - 1]];
+  if (container && isKeywordAt(path, last - 1, path[last - 1])) {
+    return container;
+  }
+
+  return 'schemas';
+};
+
+/**
+ * Resolve a (possibly relative) location against the document that references it.
+ */
+const resolveLocation = (location: string, base: string): string => {
+  if (isUrl(location)) return location;
+  if (isUrl(base)) return new URL(location, base).href;
+  return resolve(dirname(base), location);
+};
+
+/**
+ * Turn a file name or pointer segment into a component name, e.g. "pet-owner.yaml" -> "PetOwner".
+ */
+const toComponentName = (value: string): string => {
+  const name = value
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+  return name || 'Component';
+};
+
+/**
+ * Pick a unique component name, preferring the name used in the referenced document
+ * so generated type names stay stable.
+ */
+const pickComponentName = (ctx: BundleContext, type: ComponentType, location: string, pointer: string[]): string => {
+  const last = pointer[pointer.length - 1];
+  const fileName = basename(isUrl(location) ? new URL(location).pathname : location, extname(location));
+  // Whole-file refs are named after the file, e.g. "pet-owner.yaml" -> "PetOwner"
+  const preferred = last !== undefined && /^[a-zA-Z0-9._-]+$/.test(last) ? last : toComponentName(last ?? fileName);
+
+  const section = ctx.components[type];
+  let name = preferred;
+  for (let i = 2; Object.hasOwn(section, name); i++) {
+    name = `${preferred}${i}`;
+  }
+  return name;
+};
+
+/**
+ * Get the fetch options for a location, dropping headers for other origins than the root document's.
+ */
+const getFetchOptions = (ctx: BundleContext, location: string): FetchOptions => {
+  const sameOrigin =
+    isUrl(location) && isUrl(ctx.rootLocation) && new URL(location).origin === new URL(ctx.rootLocation).origin;
+  return sameOrigin ? ctx.fetch : {...ctx.fetch, headers: undefined};
+};
+
+/**
+ * Load a document through the shared cache.
+ */
+const loadCached = (ctx: BundleContext, location: string): Promise<unknown> => {
+  let pending = ctx.cache.get(location);
+  if (!pending) {
+    pending = loadDocument(location, getFetchOptions(ctx, location)).then((loaded) => {
+      if (loaded.remote) ctx.remote.push(loaded.remote);
+      return loaded.data;
+    });
+    ctx.cache.set(location, pending);
+  }
+  ctx.sources.add(location);
+  return pending;
+};
+
+/**
+ * Load the document a $ref points into. Swagger 2.0 documents are upgraded to OpenAPI 3.0 once,
+ * and the pointer is moved to where its target is after the upgrade.
+ */
+const loadTarget = async (
+  ctx: BundleContext,
+  location: string,
+  pointer: string[],
+): Promise<{doc: unknown; pointer: string[]}> => {
+  const data = await loadCached(ctx, location);
+  if (!isSwagger2Doc(data)) {
+    return {doc: data, pointer};
+  }
+
+  let upgraded = ctx.upgraded.get(location);
+  if (!upgraded) {
+    const result = upgradeSwagger2(data);
+    for (const warning of result.warnings) {
+      ctx.onWarning(`${location}: ${warning}`);
+    }
+    upgraded = result.document;
+    ctx.upgraded.set(location, upgraded);
+  }
+  return {doc: upgraded, pointer: parsePointer(upgradeSwagger2Ref(data, `#${toPointer(pointer)}`).slice(1))};
+};
+
+/**
+ * Find the value a pointer refers to within a document.
+ */
+const getByPointer = (doc: unknown, pointer: string[], ref: string): unknown => {
+  let current = doc;
+  for (const segment of pointer) {
+    if (current === null || typeof current !== 'object') {
+      throw new Error(`Invalid $ref path: ${ref}`);
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  if (current === undefined) {
+    throw new Error(`$ref not found: ${ref}`);
+  }
+  return current;
+};
+
+/**
+ * Bundle the target of an external $ref and return the value that should replace the ref object.
+ */
+const bundleRef = async (
+  ctx: BundleContext,
+  ref: string,
+  base: string,
+  path: string[],
+): Promise<unknown> => {
+  const hashIndex = ref.indexOf('#');
+  const uri = hashIndex === -1 ? ref : ref.slice(0, hashIndex);
+  const fragment = hashIndex === -1 ? '' : ref.slice(hashIndex + 1);
+
+  const location = uri === '' ? base : resolveLocation(uri, base);
+
+  // Ref back into the root document
+  if (location === ctx.rootLocation) {
+    return {$ref: `#${toPointer(parsePointer(fragment))}`};
+  }
+
+  const {doc, pointer} = await loadTarget(ctx, location, parsePointer(fragment));
+  const key = `${location}#${toPointer(pointer)}`;
+  const type = getComponentType(path);
+
+  // Path items can't be components; inline them
+  if (type === null) {
+    if (ctx.inlining.has(key)) {
+      throw new Error(`Circular $ref to path item: ${ref}`);
+    }
+    ctx.inlining.add(key);
+    const target = getByPointer(doc, pointer, ref);
+    const inlined = await bundleValue(ctx, target, location, path);
+    ctx.inlining.delete(key);
+    return inlined;
+  }
+
+  const existing = ctx.bundled.get(key);
+  if (existing) {
+    return {$ref: existing};
+  }
+
+  const target = getByPointer(doc, pointer, ref);
+
+  // A ref that is itself a component entry keeps that component's name and is replaced by the content
+  const isComponentEntry = path.length === 3 && path[0] === 'components' && path[1] === type;
+  if (isComponentEntry) {
+    ctx.bundled.set(key, `#/components/${type}/${path[2]}`);
+    return bundleValue(ctx, target, location, path);
+  }
+
+  // Register before walking the target so cyclic refs resolve to the same component
+  const name = pickComponentName(ctx, type, location, pointer);
+  const internalRef = `#/components/${type}/${name}`;
+  ctx.bundled.set(key, internalRef);
+  ctx.components[type][name] = {};
+  ctx.components[type][name] = await bundleValue(ctx, target, location, ['components', type, name]);
+
+  return {$ref: internalRef};
+};
+
+/**
+ * Walk a value, bundling external $refs. `base` is the location of the document the value came from;
+ * values from external documents also have their local (`#/...`) refs bundled against that document.
+ */
+const bundleValue = async (ctx: BundleContext, value: unknown, base: string, path: string[]): Promise<unknown> => {
+  if (Array.isArray(value)) {
+    const items: unknown[] = [];
+    for (let i = 0; i < value.length; i++) {
+      items.push(await bundleValue(ctx, value[i], base, [...path, String(i)]));
+    }
+    return items;
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  if (isRef(value)) {
+    const isLocal = value.$ref.startsWith('#');
+    if (!isLocal || base !== ctx.rootLocation) {
+      return bundleRef(ctx, value.$ref, base, path);
+    }
+    return value;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    result[key] = await bundleValue(ctx, child, base, [...path, key]);
+  }
+  return result;
+};
+
+/**
+ * Bundle a multi-file OpenAPI document into a single document.
+ * Relative file and URL $refs are resolved against the document that contains them,
+ * loaded once through a shared cache, and moved into `components` under the name they
+ * have in the referenced file (or the file name for whole-file refs). Cyclic refs are supported.
+ * Referenced Swagger 2.0 documents are upgraded to OpenAPI 3.0 before their content is moved.
+ *
+ * @param doc - The parsed root document
+ * @param source - Path or URL of the root document, used to resolve relative refs
+ */
+export const bundleDocument = async (
+  doc: OpenAPIV3.Document,
+  source: string,
+  options: BundleOptions = {},
+): Promise<BundleResult> => {
+  const rootLocation = isUrl(source) ? source : resolve(source);
+
+  const components = Object.fromEntries(
+    COMPONENT_TYPES.map((type) => [type, {...doc.components?.[type]}]),
+  ) as Record<ComponentType, Record<string, unknown>>;
+
+  const ctx: BundleContext = {
+    rootLocation,
+    components,
+    cache: options.cache ?? new Map(),
+    fetch: options.fetch ?? {},
+    onWarning: options.onWarning ?? (() => {}),
+    upgraded: new Map(),
+    bundled: new Map(),
+    inlining: new Set(),
+    sources: new Set([rootLocation]),
+    remote: [],
+  };
+
+  // Walk existing components first so external refs used as component entries keep their names
+  for (const type of COMPONENT_TYPES) {
+    for (const name of Object.keys(doc.components?.[type] ?? {})) {
+      components[type][name] = await bundleValue(ctx, components[type][name], rootLocation, ['components', type, name]);
+    }
+  }
+
+  const {components: originalComponents, ...rest} = doc;
+  const bundledRest = (await bundleValue(ctx, rest, rootLocation, [])) as Omit<OpenAPIV3.Document, 'components'>;
+
+  // Keep sections the bundler doesn't know about and drop empty ones
+  const mergedComponents: Record<string, unknown> = {...originalComponents};
+  for (const type of COMPONENT_TYPES) {
+    if (Object.keys(components[type]).length > 0) {
+      mergedComponents[type] = components[type];
+    }
+  }
+
+  const document: OpenAPIV3.Document = {
+    ...bundledRest,
+    ...(Object.keys(mergedComponents).length > 0 && {components: mergedComponents}),
+  };
+
+  return {document, sources: [...ctx.sources], remote: ctx.remote};
+};
@@ -0,0 +1,55 @@
+import {createHash, randomUUID} from 'node:crypto';
+import {mkdir, readFile, rename, rm, writeFile} from 'node:fs/promises';
+import {join} from 'node:path';
+
+/**
+ * A remote document stored in the cache, with the validators used to revalidate it.
+ */
+export interface CacheEntry {
+  url: string;
+  content: string;
+  contentType?: string;
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * SHA-256 of a document's content, reported so runs can be compared.
+ */
+export const hashContent = (content: string): string => {
+  return createHash('sha256').update(content).digest('hex');
+};
+
+const getEntryPath = (cacheDir: string, url: string): string => join(cacheDir, `${hashContent(url)}.json`);
+
+/**
+ * Read the cached copy of a URL.
+ *
+ * @returns The entry, or null if the URL isn't cached or the entry can't be read
+ */
+export const readCacheEntry = async (cacheDir: string, url: string): Promise<CacheEntry | null> => {
+  try {
+    const entry = JSON.parse(await readFile(getEntryPath(cacheDir, url), 'utf-8')) as CacheEntry;
+    return entry.url === url && typeof entry.content === 'string' ? entry : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Store a fetched document in the cache, replacing any previous copy.
+ */
+export const writeCacheEntry = async (cacheDir: string, entry: CacheEntry): Promise<void> => {
+  await mkdir(cacheDir, {recursive: true});
+  // Write to a temporary file first so concurrent readers never see a partial entry. Each write
+  // has its own file, as projects generated in parallel may fetch the same URL.
+  const path = getEntryPath(cacheDir, entry.url);
+  const tempPath = `${path}.${randomUUID()}.tmp`;
+  try {
+    await writeFile(tempPath, JSON.stringify(entry), 'utf-8');
+    await rename(tempPath, path);
+  } catch (error) {
+    await rm(tempPath, {force: true});
+    throw error;
+  }
+};
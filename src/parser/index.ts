@@ -1,90 +1,160 @@
-import {readFileSync} from 'node:fs';
-import {extname} from 'node:path';
-import {parse as parseYaml} from 'yaml';
 import type {OpenAPIV3} from 'openapi-types';
+import {bundleDocument} from './bundler.js';
+import {isUrl, loadDocument, type FetchOptions, type RemoteDocument} from './loader.js';
+import {applyOverlay, assertOverlayDocument} from './overlay.js';
+import {isSwagger2Doc, upgradeSwagger2} from './swagger2.js';
 
 export type {OpenAPIV3} from 'openapi-types';
-export {resolveRef, resolveIfRef, isRef} from './resolver.js';
+export {resolveRef, resolveIfRef, isRef, dereferenceDocument} from './resolver.js';
+export {upgradeSwagger2, isSwagger2Doc} from './swagger2.js';
+export {bundleDocument} from './bundler.js';
+export type {BundleOptions, BundleResult} from './bundler.js';
+export type {FetchOptions, RemoteDocument} from './loader.js';
+export {validateSpec} from './validator.js';
+export type {Diagnostic, DiagnosticSeverity} from './validator.js';
+export {locateDiagnostics} from './positions.js';
+export {lintSpec, LINT_RULES} from './linter.js';
+export {applyOverlay} from './overlay.js';
+export type {OverlayAction, OverlayDocument} from './overlay.js';
+export {queryJsonPath} from './jsonpath.js';
 
 /**
- * Check if a source is a URL.
+ * An OpenAPI specification loaded from a file or URL.
  */
-const isUrl = (source: string): boolean => {
-  return source.startsWith('http://') || source.startsWith('https://');
+export interface LoadedSpec {
+  /** The parsed, upgraded and bundled document */
+  document: OpenAPIV3.Document;
+  /** Raw content of the root file, used to locate diagnostics */
+  content: string;
+  /** Every file path or URL that was read, starting with the root source */
+  sources: string[];
+  /** How each URL that was read was obtained (fetched or cached), starting with the root source */
+  remote: RemoteDocument[];
+}
+
+/**
+ * Options for loading an OpenAPI specification.
+ */
+export interface LoadSpecOptions {
+  /** How to fetch remote documents */
+  fetch?: FetchOptions;
+  /**
+   * Called for each Swagger 2.0 construct that can't be mapped to OpenAPI 3.0, in the root
+   * document or a referenced one. Defaults to printing a warning.
+   */
+  onWarning?: (message: string) => void;
+  /**
+   * Paths or URLs of OpenAPI Overlay documents, applied in order to the bundled document.
+   */
+  overlays?: string[];
+}
+
+const printWarning = (message: string): void => {
+  console.warn(`Warning: ${message}`);
 };
 
 /**
- * Determine format from content-type header or URL/path extension.
- * Throws if format cannot be determined.
+ * Load overlay documents and apply them to a spec in order.
+ * Headers are only sent to overlay URLs on the same origin as the spec.
+ *
+ * @throws Error naming the overlay if it can't be loaded or one of its actions fails
  */
-const getFormat = (source: string, contentType?: string): 'json' | 'yaml' => {
-  // Check content-type header first
-  if (contentType) {
-    if (contentType.includes('json')) return 'json';
-    if (contentType.includes('yaml') || contentType.includes('yml')) return 'yaml';
+const applyOverlayFiles = async (
+  doc: OpenAPIV3.Document,
+  source: string,
+  overlays: string[],
+  fetch: FetchOptions = {},
+): Promise<Omit<LoadedSpec, 'content'>> => {
+  let document = doc;
+  const remote: RemoteDocument[] = [];
+
+  for (const overlay of overlays) {
+    const sameOrigin = isUrl(overlay) && isUrl(source) && new URL(overlay).origin === new URL(source).origin;
+    try {
+      const loaded = await loadDocument(overlay, sameOrigin ? fetch : {...fetch, headers: undefined});
+      assertOverlayDocument(loaded.data);
+      document = applyOverlay(document, loaded.data);
+      if (loaded.remote) remote.push(loaded.remote);
+    } catch (error) {
+      throw new Error(`Failed to apply overlay ${overlay}: ${(error as Error).message}`, {cause: error});
+    }
   }
 
-  // Fall back to extension
-  const ext = extname(source).toLowerCase();
-  if (ext === '.json') return 'json';
-  if (ext === '.yaml' || ext === '.yml') return 'yaml';
-
-  throw new Error(`Unsupported file format. Expected .json, .yaml, or .yml extension.`);
+  return {document, sources: overlays, remote};
 };
 
 /**
- * Fetch content from a URL.
+ * Upgrade, check and bundle a parsed OpenAPI document.
+ * Swagger 2.0 documents are upgraded to OpenAPI 3.0 in memory; constructs
+ * that can't be mapped are reported through `onWarning`.
+ * External file and URL $refs are bundled into `components`, and then the `overlays`
+ * are applied.
+ *
+ * @param data - The parsed root document
+ * @param source - Path or URL of the root document, used to resolve relative refs
+ * @param options - How to fetch referenced URLs, and the overlays to apply
  */
-const fetchContent = async (url: string): Promise<{content: string; contentType?: string}> => {
-  const response = await fetch(url);
+export const prepareOpenApiSpec = async (
+  data: unknown,
+  source: string,
+  options: LoadSpecOptions = {},
+): Promise<Omit<LoadedSpec, 'content'>> => {
+  let doc = data;
+
+  if (isSwagger2Doc(doc)) {
+    const upgraded = upgradeSwagger2(doc);
+    for (const warning of upgraded.warnings) {
+      (options.onWarning ?? printWarning)(warning);
+    }
+    doc = upgraded.document;
+  }
 
-  if (!response.ok) {
-    throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+  if (!isValidOpenApiDoc(doc)) {
+    throw new Error('Invalid OpenAPI document: missing openapi version or paths');
   }
 
-  const content = await response.text();
-  const contentType = response.headers.get('content-type') ?? undefined;
+  // OpenAPI 3.1 allows documents without paths (webhooks or components only)
+  const withPaths: OpenAPIV3.Document = doc.paths ? doc : {...doc, paths: {}};
 
-  return {content, contentType};
+  const bundled = await bundleDocument(withPaths, source, {
+    fetch: options.fetch,
+    onWarning: options.onWarning ?? printWarning,
+  });
+  const overlaid = await applyOverlayFiles(bundled.document, source, options.overlays ?? [], options.fetch);
+  return {
+    document: overlaid.document,
+    sources: [...bundled.sources, ...overlaid.sources],
+    remote: [...bundled.remote, ...overlaid.remote],
+  };
 };
 
 /**
- * Parse content as OpenAPI document.
+ * Load an OpenAPI specification from a file path or URL.
+ * Supports both JSON and YAML formats, and is prepared with `prepareOpenApiSpec`.
+ *
+ * @param source - Path to file or URL (http/https)
+ * @param options - How to fetch `source` and referenced URLs
  */
-const parseContent = (content: string, format: 'json' | 'yaml'): unknown => {
-  if (format === 'json') {
-    return JSON.parse(content);
-  }
-  return parseYaml(content);
+export const loadOpenApiSpec = async (source: string, options: LoadSpecOptions = {}): Promise<LoadedSpec> => {
+  const loaded = await loadDocument(source, options.fetch);
+  const prepared = await prepareOpenApiSpec(loaded.data, source, options);
+
+  // The root document is listed once, even if refs point back into it
+  const refRemote = prepared.remote.filter((doc) => doc.url !== loaded.remote?.url);
+  const remote = loaded.remote ? [loaded.remote, ...refRemote] : refRemote;
+  return {document: prepared.document, content: loaded.content, sources: prepared.sources, remote};
 };
 
 /**
  * Parse an OpenAPI specification from a file path or URL.
- * Supports both JSON and YAML formats.
+ * See `loadOpenApiSpec` for the supported inputs.
  *
  * @param source - Path to file or URL (http/https)
  * @returns The parsed OpenAPI document
  */
 export const parseOpenApiSpec = async (source: string): Promise<OpenAPIV3.Document> => {
-  let content: string;
-  let contentType: string | undefined;
-
-  if (isUrl(source)) {
-    const result = await fetchContent(source);
-    content = result.content;
-    contentType = result.contentType;
-  } else {
-    content = readFileSync(source, 'utf-8');
-  }
-
-  const format = getFormat(source, contentType);
-  const doc = parseContent(content, format);
-
-  if (!isValidOpenApiDoc(doc)) {
-    throw new Error('Invalid OpenAPI document: missing openapi version or paths');
-  }
-
-  return doc;
+  const {document} = await loadOpenApiSpec(source);
+  return document;
 };
 
 /**
@@ -102,7 +172,12 @@ const isValidOpenApiDoc = (doc: unknown): doc is OpenAPIV3.Document => {
     return false;
   }
 
-  // Must have paths object
+  // OpenAPI 3.1 requires at least one of paths, webhooks or components
+  if (obj['openapi'].startsWith('3.1')) {
+    return ['paths', 'webhooks', 'components'].some((key) => typeof obj[key] === 'object' && obj[key] !== null);
+  }
+
+  // OpenAPI 3.0 must have paths object
   if (typeof obj['paths'] !== 'object') {
     return false;
   }
@@ -0,0 +1,360 @@
+/**
+ * A value selected by a JSONPath query, with where it is in the document so it can be
+ * changed or removed.
+ */
+export interface JsonPathNode {
+  value: unknown;
+  /** Object or array holding the value, undefined for the root */
+  parent?: Record<string, unknown> | unknown[];
+  /** Property name or array index of the value in `parent` */
+  key?: string | number;
+}
+
+type Selector =
+  | {type: 'name'; name: string}
+  | {type: 'wildcard'}
+  | {type: 'index'; index: number}
+  | {type: 'filter'; expression: Expression};
+
+interface Segment {
+  /** `..` segments select from the node and all its descendants */
+  descendant: boolean;
+  selectors: Selector[];
+}
+
+interface Query {
+  /** `$` for the document root, `@` for the current node in a filter */
+  root: '$' | '@';
+  segments: Segment[];
+}
+
+type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+type Operand = {type: 'literal'; value: unknown} | {type: 'query'; query: Query};
+
+type Expression =
+  | {type: 'or' | 'and'; left: Expression; right: Expression}
+  | {type: 'not'; operand: Expression}
+  | {type: 'exists'; query: Query}
+  | {type: 'compare'; operator: ComparisonOperator; left: Operand; right: Operand};
+
+const NAME_START = /[A-Za-z_$\u0080-\uffff]/;
+const NAME_CHAR = /[A-Za-z0-9_$\-\u0080-\uffff]/;
+const ESCAPES: Record<string, string> = {b: '\b', f: '\f', n: '\n', r: '\r', t: '\t', '/': '/', '\\': '\\'};
+
+/**
+ * Parse a JSONPath expression (RFC 9535) into a query. Supports names, wildcards, indexes,
+ * descendant segments and filters with comparisons and `&&`, `||` and `!`, but not slices or
+ * function extensions.
+ *
+ * @throws Error if the expression is invalid or uses an unsupported feature
+ */
+export const parseJsonPath = (path: string): Query => {
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`Invalid JSONPath "${path}": ${message} at position ${pos}`);
+  };
+
+  const skipSpaces = (): void => {
+    while (pos < path.length && /\s/.test(path[pos])) pos++;
+  };
+
+  const consume = (token: string): boolean => {
+    if (!path.startsWith(token, pos)) return false;
+    pos += token.length;
+    return true;
+  };
+
+  const expect = (token: string): void => {
+    if (!consume(token)) fail(`expected "${token}"`);
+  };
+
+  const parseString = (): string => {
+    const quote = path[pos++];
+    let value = '';
+    while (pos < path.length && path[pos] !== quote) {
+      if (path[pos] !== '\\') {
+        value += path[pos++];
+        continue;
+      }
+      const escaped = path[pos + 1];
+      if (escaped === 'u') {
+        const hex = path.slice(pos + 2, pos + 6);
+        if (!/^[0-9a-fA-F]{4}$/.test(hex)) fail('invalid unicode escape');
+        value += String.fromCharCode(parseInt(hex, 16));
+        pos += 6;
+      } else if (escaped === quote || escaped in ESCAPES) {
+        value += escaped === quote ? quote : ESCAPES[escaped];
+        pos += 2;
+      } else {
+        fail('invalid escape');
+      }
+    }
+    expect(quote);
+    return value;
+  };
+
+  const parseNumber = (): number => {
+    const match = /^-?\d+(\.\d+)?([eE][+-]?\d+)?/.exec(path.slice(pos));
+    if (!match) fail('expected a number');
+    pos += match![0].length;
+    return Number(match![0]);
+  };
+
+  const parseName = (): string => {
+    const start = pos;
+    if (!NAME_START.test(path[pos] ?? '')) fail('expected a name');
+    while (pos < path.length && NAME_CHAR.test(path[pos])) pos++;
+    return path.slice(start, pos);
+  };
+
+  const parseSelector = (): Selector => {
+    skipSpaces();
+    const char = path[pos];
+    if (char === "'" || char === '"') return {type: 'name', name: parseString()};
+    if (consume('*')) return {type: 'wildcard'};
+    if (consume('?')) return {type: 'filter', expression: parseOr()};
+    if (char === '-' || /\d/.test(char ?? '')) {
+      const index = parseNumber();
+      if (!Number.isInteger(index)) fail('expected an integer index');
+      skipSpaces();
+      if (path[pos] === ':') fail('slices are not supported');
+      return {type: 'index', index};
+    }
+    return fail('expected a selector');
+  };
+
+  const parseBracket = (): Selector[] => {
+    const selectors = [parseSelector()];
+    skipSpaces();
+    while (consume(',')) {
+      selectors.push(parseSelector());
+      skipSpaces();
+    }
+    expect(']');
+    return selectors;
+  };
+
+  const parseSegments = (): Segment[] => {
+    const segments: Segment[] = [];
+    for (;;) {
+      if (consume('..')) {
+        const selectors = consume('[') ? parseBracket() : consume('*') ? [{type: 'wildcard' as const}] : undefined;
+        segments.push({descendant: true, selectors: selectors ?? [{type: 'name', name: parseName()}]});
+      } else if (consume('.')) {
+        segments.push({
+          descendant: false,
+          selectors: [consume('*') ? {type: 'wildcard'} : {type: 'name', name: parseName()}],
+        });
+      } else if (consume('[')) {
+        segments.push({descendant: false, selectors: parseBracket()});
+      } else {
+        return segments;
+      }
+    }
+  };
+
+  const parseQuery = (): Query => {
+    const root = path[pos] as '$' | '@';
+    pos++;
+    return {root, segments: parseSegments()};
+  };
+
+  const parseOperand = (): Operand => {
+    skipSpaces();
+    const char = path[pos];
+    if (char === '$' || char === '@') return {type: 'query', query: parseQuery()};
+    if (char === "'" || char === '"') return {type: 'literal', value: parseString()};
+    for (const [token, value] of [
+      ['true', true],
+      ['false', false],
+      ['null', null],
+    ] as const) {
+      if (consume(token)) return {type: 'literal', value};
+    }
+    if (char === '-' || /\d/.test(char ?? '')) return {type: 'literal', value: parseNumber()};
+    if (/[a-z]/.test(char ?? '')) fail('function extensions are not supported');
+    return fail('expected a value');
+  };
+
+  const parseComparison = (): Expression => {
+    skipSpaces();
+    if (consume('!')) {
+      return {type: 'not', operand: parseComparison()};
+    }
+    if (consume('(')) {
+      const expression = parseOr();
+      skipSpaces();
+      expect(')');
+      return expression;
+    }
+
+    const left = parseOperand();
+    skipSpaces();
+    const operator = (['==', '!=', '<=', '>=', '<', '>'] as const).find((token) => consume(token));
+    if (!operator) {
+      if (left.type !== 'query') fail('expected a comparison');
+      return {type: 'exists', query: (left as {query: Query}).query};
+    }
+    return {type: 'compare', operator, left, right: parseOperand()};
+  };
+
+  const parseAnd = (): Expression => {
+    let expression = parseComparison();
+    skipSpaces();
+    while (consume('&&')) {
+      expression = {type: 'and', left: expression, right: parseComparison()};
+      skipSpaces();
+    }
+    return expression;
+  };
+
+  const parseOr = (): Expression => {
+    let expression = parseAnd();
+    skipSpaces();
+    while (consume('||')) {
+      expression = {type: 'or', left: expression, right: parseAnd()};
+      skipSpaces();
+    }
+    return expression;
+  };
+
+  if (path[pos] !== '$') fail('expected "$"');
+  const query = parseQuery();
+  if (pos < path.length) fail('unexpected character');
+  return query;
+};
+
+/**
+ * Whether two JSON values are equal, comparing arrays and objects by content.
+ */
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every((key) => isEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]))
+  );
+};
+
+/**
+ * The children of a value, in document order.
+ */
+const getChildren = (node: JsonPathNode): JsonPathNode[] => {
+  const {value} = node;
+  if (Array.isArray(value)) {
+    return value.map((item, index) => ({value: item, parent: value, key: index}));
+  }
+  if (typeof value === 'object' && value !== null) {
+    const record = value as Record<string, unknown>;
+    return Object.keys(record).map((key) => ({value: record[key], parent: record, key}));
+  }
+  return [];
+};
+
+/**
+ * A node and all its descendants, in document order.
+ */
+const getDescendants = (node: JsonPathNode): JsonPathNode[] => {
+  return [node, ...getChildren(node).flatMap(getDescendants)];
+};
+
+const select = (node: JsonPathNode, selector: Selector, root: unknown): JsonPathNode[] => {
+  const {value} = node;
+  switch (selector.type) {
+    case 'name':
+      if (typeof value !== 'object' || value === null || Array.isArray(value) || !Object.hasOwn(value, selector.name)) {
+        return [];
+      }
+      return [
+        {
+          value: (value as Record<string, unknown>)[selector.name],
+          parent: value as Record<string, unknown>,
+          key: selector.name,
+        },
+      ];
+
+    case 'index': {
+      if (!Array.isArray(value)) return [];
+      const index = selector.index < 0 ? value.length + selector.index : selector.index;
+      return index >= 0 && index < value.length ? [{value: value[index], parent: value, key: index}] : [];
+    }
+
+    case 'wildcard':
+      return getChildren(node);
+
+    case 'filter':
+      return getChildren(node).filter((child) => evaluate(selector.expression, child.value, root));
+  }
+};
+
+const runQuery = (query: Query, current: unknown, root: unknown): JsonPathNode[] => {
+  let nodes: JsonPathNode[] = [{value: query.root === '$' ? root : current}];
+  for (const segment of query.segments) {
+    const inputs = segment.descendant ? nodes.flatMap(getDescendants) : nodes;
+    nodes = inputs.flatMap((node) => segment.selectors.flatMap((selector) => select(node, selector, root)));
+  }
+  return nodes;
+};
+
+/** Marks a query in a comparison that selected nothing */
+const NOTHING = Symbol('nothing');
+
+const getOperandValue = (operand: Operand, current: unknown, root: unknown): unknown => {
+  if (operand.type === 'literal') return operand.value;
+  const nodes = runQuery(operand.query, current, root);
+  return nodes.length === 1 ? nodes[0].value : NOTHING;
+};
+
+const compare = (operator: ComparisonOperator, left: unknown, right: unknown): boolean => {
+  switch (operator) {
+    case '==':
+      return isEqual(left, right);
+    case '!=':
+      return !isEqual(left, right);
+    case '<=':
+    case '>=':
+      return compare(operator[0] as '<' | '>', left, right) || isEqual(left, right);
+    case '<':
+    case '>': {
+      const comparable =
+        (typeof left === 'number' && typeof right === 'number') ||
+        (typeof left === 'string' && typeof right === 'string');
+      if (!comparable) return false;
+      return operator === '<' ? (left as number) < (right as number) : (left as number) > (right as number);
+    }
+  }
+};
+
+const evaluate = (expression: Expression, current: unknown, root: unknown): boolean => {
+  switch (expression.type) {
+    case 'or':
+      return evaluate(expression.left, current, root) || evaluate(expression.right, current, root);
+    case 'and':
+      return evaluate(expression.left, current, root) && evaluate(expression.right, current, root);
+    case 'not':
+      return !evaluate(expression.operand, current, root);
+    case 'exists':
+      return runQuery(expression.query, current, root).length > 0;
+    case 'compare':
+      return compare(
+        expression.operator,
+        getOperandValue(expression.left, current, root),
+        getOperandValue(expression.right, current, root),
+      );
+  }
+};
+
+/**
+ * Select the values in a document that a JSONPath expression matches, in document order.
+ *
+ * @example queryJsonPath(doc, "$.paths['/pets'].get") // The GET operation of /pets
+ * @throws Error if the expression is invalid (see `parseJsonPath`)
+ */
+export const queryJsonPath = (document: unknown, path: string): JsonPathNode[] => {
+  return runQuery(parseJsonPath(path), document, document);
+};
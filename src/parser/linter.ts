@@ -0,0 +1,173 @@
+import type {OpenAPIV3} from 'openapi-types';
+import type {LintConfig, LintRuleName, LintRuleSetting} from '../config/schema.js';
+import {isRef, resolveIfRef, toPointer} from './resolver.js';
+import type {Diagnostic} from './validator.js';
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'] as const;
+
+/**
+ * Every lint rule, in the order they are checked.
+ */
+export const LINT_RULES: LintRuleName[] = ['operation-id', 'operation-tags', 'typed-responses', 'no-inline-schemas'];
+
+/**
+ * Context for linting, accumulates diagnostics.
+ */
+interface LintContext {
+  doc: OpenAPIV3.Document;
+  rules: Record<LintRuleName, LintRuleSetting>;
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * An operation together with where it was found.
+ */
+interface OperationInfo {
+  operation: OpenAPIV3.OperationObject;
+  /** e.g. `GET /pets` */
+  label: string;
+  path: (string | number)[];
+}
+
+/**
+ * Record a diagnostic for a rule, using the severity configured for it.
+ */
+const report = (ctx: LintContext, rule: LintRuleName, message: string, path: (string | number)[]): void => {
+  const severity = ctx.rules[rule];
+  if (severity === 'off') return;
+  ctx.diagnostics.push({severity, code: rule, message, pointer: toPointer(path)});
+};
+
+/**
+ * Resolve a value for inspection, returning undefined for refs that don't resolve
+ * (those are reported by `validateSpec`).
+ */
+const tryResolve = <T>(ctx: LintContext, value: T | OpenAPIV3.ReferenceObject): T | undefined => {
+  try {
+    return resolveIfRef(ctx.doc, value);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Check if a schema is an object with its own properties defined inline,
+ * directly or as the items of an array.
+ */
+const isInlineObjectSchema = (schema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject): boolean => {
+  if (isRef(schema)) return false;
+  if (schema.type === 'array') {
+    // `items` is optional in OpenAPI 3.1, e.g. with only `prefixItems`
+    return schema.items !== undefined && isInlineObjectSchema(schema.items);
+  }
+  return schema.properties !== undefined && Object.keys(schema.properties).length > 0;
+};
+
+/**
+ * Check the schemas of a request or response body for inline objects.
+ */
+const checkInlineSchemas = (
+  ctx: LintContext,
+  content: Record<string, OpenAPIV3.MediaTypeObject> | undefined,
+  description: string,
+  path: (string | number)[],
+): void => {
+  for (const [mediaType, media] of Object.entries(content ?? {})) {
+    if (media.schema && isInlineObjectSchema(media.schema)) {
+      report(ctx, 'no-inline-schemas', `Inline object schema in ${description}; move it to components.schemas`, [
+        ...path,
+        'content',
+        mediaType,
+        'schema',
+      ]);
+    }
+  }
+};
+
+/**
+ * Check that successful responses declare what they return.
+ */
+const checkResponses = (ctx: LintContext, {operation, label, path}: OperationInfo): void => {
+  for (const [code, responseOrRef] of Object.entries(operation.responses ?? {})) {
+    const response = tryResolve(ctx, responseOrRef);
+    if (!response) continue;
+
+    const responsePath = [...path, 'responses', code];
+    const isSuccess = code.startsWith('2') && code !== '204';
+
+    if (isSuccess) {
+      if (!response.content || Object.keys(response.content).length === 0) {
+        report(ctx, 'typed-responses', `${code} response of ${label} has no content`, responsePath);
+      }
+      for (const [mediaType, media] of Object.entries(response.content ?? {})) {
+        if (!media.schema) {
+          report(ctx, 'typed-responses', `${code} response of ${label} has no schema for ${mediaType}`, [
+            ...responsePath,
+            'content',
+            mediaType,
+          ]);
+        }
+      }
+    }
+
+    // Refs to components.responses are reusable already; only check responses defined in place
+    if (!isRef(responseOrRef)) {
+      checkInlineSchemas(ctx, response.content, `${code} response of ${label}`, responsePath);
+    }
+  }
+};
+
+/**
+ * Collect every operation in the document.
+ */
+const collectOperations = (doc: OpenAPIV3.Document): OperationInfo[] => {
+  const operations: OperationInfo[] = [];
+  for (const [pathKey, pathItem] of Object.entries(doc.paths ?? {})) {
+    if (!pathItem) continue;
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (operation) {
+        operations.push({operation, label: `${method.toUpperCase()} ${pathKey}`, path: ['paths', pathKey, method]});
+      }
+    }
+  }
+  return operations;
+};
+
+/**
+ * Check an OpenAPI document against style rules: missing operationIds, missing tags,
+ * untyped responses and inline schemas that should be components.
+ * Rules are reported as warnings unless configured otherwise.
+ *
+ * @param doc - The parsed (and bundled) OpenAPI document
+ * @param config - Severity per rule
+ * @returns Diagnostics found, empty if every rule passes
+ */
+export const lintSpec = (doc: OpenAPIV3.Document, config: LintConfig = {}): Diagnostic[] => {
+  const rules = Object.fromEntries(LINT_RULES.map((rule) => [rule, config.rules?.[rule] ?? 'warning'])) as Record<
+    LintRuleName,
+    LintRuleSetting
+  >;
+
+  const ctx: LintContext = {doc, rules, diagnostics: []};
+
+  for (const info of collectOperations(doc)) {
+    const {operation, label, path} = info;
+
+    if (!operation.operationId) {
+      report(ctx, 'operation-id', `${label} has no operationId`, path);
+    }
+
+    if (!operation.tags || operation.tags.length === 0) {
+      report(ctx, 'operation-tags', `${label} has no tags`, path);
+    }
+
+    if (operation.requestBody && !isRef(operation.requestBody)) {
+      checkInlineSchemas(ctx, operation.requestBody.content, `request body of ${label}`, [...path, 'requestBody']);
+    }
+
+    checkResponses(ctx, info);
+  }
+
+  return ctx.diagnostics;
+};
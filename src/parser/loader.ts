@@ -0,0 +1,297 @@
+import {readFileSync} from 'node:fs';
+import {extname} from 'node:path';
+import type {RequestInit as UndiciRequestInit} from 'undici';
+import {parse as parseYaml} from 'yaml';
+import {hashContent, readCacheEntry, writeCacheEntry, type CacheEntry} from './cache.js';
+
+/**
+ * A document loaded from a file or URL.
+ */
+export interface LoadedDocument {
+  /** Raw file content */
+  content: string;
+  format: 'json' | 'yaml';
+  /** Parsed content */
+  data: unknown;
+  /** How the document was obtained, for URLs */
+  remote?: RemoteDocument;
+}
+
+/**
+ * Check if a source is a URL.
+ */
+export const isUrl = (source: string): boolean => {
+  return source.startsWith('http://') || source.startsWith('https://');
+};
+
+/**
+ * Determine format from content-type header or URL/path extension.
+ * Throws if format cannot be determined.
+ */
+const getFormat = (source: string, contentType?: string): 'json' | 'yaml' => {
+  // Check content-type header first
+  if (contentType) {
+    if (contentType.includes('json')) return 'json';
+    if (contentType.includes('yaml') || contentType.includes('yml')) return 'yaml';
+  }
+
+  // Fall back to extension (ignoring any query string or fragment in URLs)
+  const path = isUrl(source) ? new URL(source).pathname : source;
+  const ext = extname(path).toLowerCase();
+  if (ext === '.json') return 'json';
+  if (ext === '.yaml' || ext === '.yml') return 'yaml';
+
+  throw new Error(`Unsupported file format. Expected .json, .yaml, or .yml extension.`);
+};
+
+/**
+ * Options for fetching remote documents.
+ */
+export interface FetchOptions {
+  /** HTTP headers sent with each request */
+  headers?: Record<string, string>;
+  /** Milliseconds to wait for each attempt before giving up (default: 30000) */
+  timeout?: number;
+  /** Times to retry after a network error, timeout, 429 or 5xx response (default: 2) */
+  retries?: number;
+  /** Proxy URL to send requests through */
+  proxy?: string;
+  /** Path to a PEM file with CA certificates to trust */
+  ca?: string;
+  /**
+   * Directory to cache fetched documents in. Cached copies are revalidated with their
+   * ETag or Last-Modified header, and used if the server can't be reached.
+   */
+  cacheDir?: string;
+  /** Only use cached copies, never the network */
+  offline?: boolean;
+}
+
+/**
+ * How a remote document was obtained.
+ */
+export interface RemoteDocument {
+  url: string;
+  /** Whether the content was downloaded or taken from the cache */
+  status: 'fresh' | 'cached';
+  /** Why the cached copy was used: the server said it hadn't changed, `offline` was set, or the fetch failed */
+  reason?: 'not-modified' | 'offline' | 'unavailable';
+  /** Why the fetch failed, for `unavailable` */
+  error?: string;
+  /** SHA-256 of the content */
+  hash: string;
+}
+
+const DEFAULT_TIMEOUT = 30_000;
+const DEFAULT_RETRIES = 2;
+/** Delay before the first retry, doubled for each further one */
+const RETRY_DELAY = 250;
+
+/**
+ * Whether a response status is worth retrying.
+ */
+const isRetryableStatus = (status: number): boolean => status === 429 || status >= 500;
+
+/**
+ * A request that got an error response from the server.
+ */
+class HttpError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Content fetched from a URL, or `notModified` if the cached copy is still current.
+ */
+interface FetchedContent {
+  notModified: boolean;
+  content: string;
+  contentType?: string;
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * A `fetch` that honours the `proxy` and `ca` options, and closes its connections when done.
+ */
+interface Fetcher {
+  fetch: (url: string, init: RequestInit) => Promise<Response>;
+  close: () => Promise<void>;
+}
+
+/**
+ * Create the `fetch` to send requests with. Bun's `fetch` takes the proxy and CA certificates as
+ * options; Node's needs an undici dispatcher for them, used with undici's own `fetch` so the two
+ * always come from the same version.
+ */
+const createFetcher = async (options: FetchOptions): Promise<Fetcher> => {
+  const {proxy} = options;
+  const ca = options.ca ? readFileSync(options.ca, 'utf-8') : undefined;
+
+  if (process.versions.bun || (!proxy && !ca)) {
+    return {
+      fetch: (url, init) => fetch(url, {...init, proxy, tls: ca ? {ca} : undefined}),
+      close: async () => {},
+    };
+  }
+
+  const undici = await import('undici');
+  const dispatcher = proxy
+    ? new undici.ProxyAgent({uri: proxy, requestTls: {ca}, proxyTls: {ca}})
+    : new undici.Agent({connect: {ca}});
+  return {
+    fetch: (url, init) =>
+      undici.fetch(url, {...(init as UndiciRequestInit), dispatcher}) as unknown as Promise<Response>,
+    close: () => dispatcher.close(),
+  };
+};
+
+/**
+ * Fetch content from a URL, retrying transient failures. If a cached copy is given,
+ * the request is conditional on its ETag or Last-Modified date.
+ */
+const fetchContent = async (url: string, options: FetchOptions, cached: CacheEntry | null): Promise<FetchedContent> => {
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+  const retries = options.retries ?? DEFAULT_RETRIES;
+
+  const headers = new Headers(options.headers);
+  if (cached?.etag) headers.set('if-none-match', cached.etag);
+  if (cached?.lastModified) headers.set('if-modified-since', cached.lastModified);
+
+  const fetcher = await createFetcher(options);
+  try {
+    for (let attempt = 0; ; attempt++) {
+      if (attempt > 0) {
+        await new Promise((done) => setTimeout(done, RETRY_DELAY * 2 ** (attempt - 1)));
+      }
+      const canRetry = attempt < retries;
+
+      let response: Response;
+      let content: string;
+      try {
+        response = await fetcher.fetch(url, {headers, signal: AbortSignal.timeout(timeout)});
+        content = await response.text();
+      } catch (error) {
+        if (canRetry) continue;
+        const reason =
+          (error as Error).name === 'TimeoutError' ? `timed out after ${timeout}ms` : (error as Error).message;
+        throw new Error(`Failed to fetch ${url}: ${reason}`);
+      }
+
+      if (response.status === 304 && cached) {
+        return {notModified: true, content: cached.content};
+      }
+
+      if (!response.ok) {
+        if (canRetry && isRetryableStatus(response.status)) continue;
+        throw new HttpError(`Failed to fetch ${url}: ${response.status} ${response.statusText}`, response.status);
+      }
+
+      return {
+        notModified: false,
+        content,
+        contentType: response.headers.get('content-type') ?? undefined,
+        etag: response.headers.get('etag') ?? undefined,
+        lastModified: response.headers.get('last-modified') ?? undefined,
+      };
+    }
+  } finally {
+    await fetcher.close();
+  }
+};
+
+/**
+ * Load a remote document through the cache if one is configured.
+ */
+const loadRemote = async (
+  url: string,
+  options: FetchOptions,
+): Promise<{content: string; contentType?: string; remote: RemoteDocument}> => {
+  const cached = options.cacheDir ? await readCacheEntry(options.cacheDir, url) : null;
+
+  const useCached = (entry: CacheEntry, reason: RemoteDocument['reason'], error?: string) => ({
+    content: entry.content,
+    contentType: entry.contentType,
+    remote: {url, status: 'cached' as const, reason, error, hash: hashContent(entry.content)},
+  });
+
+  if (options.offline) {
+    if (!cached) {
+      throw new Error(`No cached copy of ${url} to use offline`);
+    }
+    return useCached(cached, 'offline');
+  }
+
+  let fetched: FetchedContent;
+  try {
+    fetched = await fetchContent(url, options, cached);
+  } catch (error) {
+    // Fall back to the cached copy when the server can't be reached, but not when it refuses the request
+    const unreachable = !(error instanceof HttpError) || isRetryableStatus(error.status);
+    if (cached && unreachable) {
+      return useCached(cached, 'unavailable', (error as Error).message);
+    }
+    throw error;
+  }
+
+  if (fetched.notModified && cached) {
+    return useCached(cached, 'not-modified');
+  }
+
+  if (options.cacheDir) {
+    const {content, contentType, etag, lastModified} = fetched;
+    try {
+      await writeCacheEntry(options.cacheDir, {url, content, contentType, etag, lastModified});
+    } catch (error) {
+      // The document was fetched, so a cache that can't be written doesn't stop the load
+      console.warn(`Warning: Failed to cache ${url}: ${(error as Error).message}`);
+    }
+  }
+
+  return {
+    content: fetched.content,
+    contentType: fetched.contentType,
+    remote: {url, status: 'fresh', hash: hashContent(fetched.content)},
+  };
+};
+
+/**
+ * Parse content as OpenAPI document.
+ */
+const parseContent = (content: string, format: 'json' | 'yaml'): unknown => {
+  if (format === 'json') {
+    return JSON.parse(content);
+  }
+  return parseYaml(content);
+};
+
+/**
+ * Load and parse a JSON or YAML document from a file path or URL.
+ *
+ * @param source - Path to file or URL (http/https)
+ * @param options - How to fetch the document if `source` is a URL
+ */
+export const loadDocument = async (source: string, options: FetchOptions = {}): Promise<LoadedDocument> => {
+  let content: string;
+  let contentType: string | undefined;
+  let remote: RemoteDocument | undefined;
+
+  if (isUrl(source)) {
+    const result = await loadRemote(source, options);
+    content = result.content;
+    contentType = result.contentType;
+    remote = result.remote;
+  } else {
+    content = readFileSync(source, 'utf-8');
+  }
+
+  const format = getFormat(source, contentType);
+  const data = parseContent(content, format);
+
+  return {content, format, data, remote};
+};
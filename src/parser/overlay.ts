@@ -0,0 +1,161 @@
+import type {OpenAPIV3} from 'openapi-types';
+import {queryJsonPath, type JsonPathNode} from './jsonpath.js';
+
+/**
+ * One change in an overlay: merge `update` into, or `remove`, every value `target` selects.
+ */
+export interface OverlayAction {
+  /** JSONPath expression selecting the values to change */
+  target: string;
+  description?: string;
+  /** Merged into each selected object, or appended to each selected array as one item */
+  update?: unknown;
+  /** Remove the selected values instead */
+  remove?: boolean;
+}
+
+/**
+ * An OpenAPI Overlay 1.0 document: a list of changes to apply to a spec.
+ *
+ * @see https://spec.openapis.org/overlay/v1.0.0.html
+ */
+export interface OverlayDocument {
+  overlay: string;
+  info: {title: string; version: string};
+  /** URL of the spec the overlay is meant for; informational only */
+  extends?: string;
+  actions: OverlayAction[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+/**
+ * Check that a parsed document is an Overlay 1.x document.
+ *
+ * @throws Error describing the first problem found
+ */
+export const assertOverlayDocument: (data: unknown) => asserts data is OverlayDocument = (data) => {
+  if (!isObject(data) || typeof data.overlay !== 'string' || !data.overlay.startsWith('1.')) {
+    throw new Error('Invalid overlay document: missing overlay version 1.x');
+  }
+  if (!Array.isArray(data.actions)) {
+    throw new Error('Invalid overlay document: "actions" must be an array');
+  }
+  data.actions.forEach((action: unknown, index) => {
+    if (!isObject(action) || typeof action.target !== 'string') {
+      throw new Error(`Invalid overlay document: actions[${index}] must have a "target"`);
+    }
+    if (action.update === undefined && action.remove !== true) {
+      throw new Error(`Invalid overlay document: actions[${index}] must have "update" or "remove: true"`);
+    }
+  });
+};
+
+/**
+ * Merge an update into a value: objects are merged recursively and arrays concatenated, in
+ * place so other selected values inside them stay attached. Anything else is replaced.
+ *
+ * @returns The merged value
+ */
+const mergeUpdate = (target: unknown, update: unknown): unknown => {
+  if (Array.isArray(target) && Array.isArray(update)) {
+    target.push(...structuredClone(update));
+    return target;
+  }
+  if (!isObject(target) || !isObject(update)) {
+    return structuredClone(update);
+  }
+  for (const [key, value] of Object.entries(update)) {
+    target[key] = key in target ? mergeUpdate(target[key], value) : structuredClone(value);
+  }
+  return target;
+};
+
+/**
+ * Replace a selected value in its parent, or remove it if `value` is undefined.
+ */
+const setNode = ({parent, key}: JsonPathNode, value: unknown): void => {
+  if (Array.isArray(parent)) {
+    if (value === undefined) {
+      parent.splice(key as number, 1);
+    } else {
+      parent[key as number] = value;
+    }
+  } else if (parent) {
+    if (value === undefined) {
+      delete parent[key as string];
+    } else {
+      parent[key as string] = value;
+    }
+  }
+};
+
+/**
+ * Remove selected values from their parents. A value selected more than once is removed once,
+ * and the items of each array are removed from the highest index down so the indexes of the
+ * others stay valid.
+ */
+const removeNodes = (nodes: JsonPathNode[]): void => {
+  const keysByParent = new Map<NonNullable<JsonPathNode['parent']>, Set<string | number>>();
+  for (const {parent, key} of nodes) {
+    if (!parent || key === undefined) continue;
+    const keys = keysByParent.get(parent) ?? new Set();
+    keys.add(key);
+    keysByParent.set(parent, keys);
+  }
+
+  for (const [parent, keys] of keysByParent) {
+    const sorted = Array.isArray(parent) ? [...keys].sort((a, b) => (b as number) - (a as number)) : [...keys];
+    for (const key of sorted) {
+      setNode({value: undefined, parent, key}, undefined);
+    }
+  }
+};
+
+/**
+ * Apply the actions of an overlay to a spec, in order.
+ *
+ * @param doc - The spec to change, which is left untouched
+ * @param overlay - The overlay document
+ * @returns A changed copy of the spec
+ * @throws Error if an action's target is invalid or selects nothing
+ */
+export const applyOverlay = (doc: OpenAPIV3.Document, overlay: OverlayDocument): OpenAPIV3.Document => {
+  let result: unknown = structuredClone(doc);
+
+  overlay.actions.forEach((action, index) => {
+    const label = `action ${index + 1}${action.description ? ` (${action.description})` : ''}`;
+    let nodes;
+    try {
+      nodes = queryJsonPath(result, action.target);
+    } catch (error) {
+      throw new Error(`Overlay ${label}: ${(error as Error).message}`);
+    }
+    if (nodes.length === 0) {
+      throw new Error(`Overlay ${label}: target ${action.target} matched nothing`);
+    }
+
+    if (action.remove) {
+      if (nodes.some((node) => !node.parent)) {
+        throw new Error(`Overlay ${label}: the document root can't be removed`);
+      }
+      removeNodes(nodes);
+      return;
+    }
+
+    for (const node of nodes) {
+      // An update for an array is one item to append, even if it's an array itself
+      const update = Array.isArray(node.value) ? [action.update] : action.update;
+      const updated = mergeUpdate(node.value, update);
+      if (node.parent) {
+        setNode(node, updated);
+      } else {
+        result = updated;
+      }
+    }
+  });
+
+  return result as OpenAPIV3.Document;
+};
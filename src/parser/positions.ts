@@ -0,0 +1,32 @@
+import {isNode, LineCounter, parseDocument} from 'yaml';
+import {parsePointer} from './resolver.js';
+import type {Diagnostic} from './validator.js';
+
+/**
+ * Add line/column positions to diagnostics whose pointer exists in the source content.
+ * Works for both YAML and JSON, since JSON is parsed as YAML here.
+ * Diagnostics for values that don't appear in the content (e.g. bundled from another
+ * file) are returned without a position, as are all diagnostics for Swagger 2.0 content.
+ *
+ * @param diagnostics - Diagnostics with JSON pointers into the document
+ * @param content - Raw content of the root file
+ */
+export const locateDiagnostics = (diagnostics: Diagnostic[], content: string): Diagnostic[] => {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(content, {lineCounter});
+
+  // The pointers are into the upgraded OpenAPI 3.0 document, whose layout differs from the content
+  if (document.get('swagger') === '2.0') {
+    return diagnostics;
+  }
+
+  return diagnostics.map((diagnostic) => {
+    const node = document.getIn(parsePointer(diagnostic.pointer), true);
+    if (!isNode(node) || !node.range) {
+      return diagnostic;
+    }
+
+    const {line, col} = lineCounter.linePos(node.range[0]);
+    return {...diagnostic, line, column: col};
+  });
+};
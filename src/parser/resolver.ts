@@ -2,7 +2,8 @@ import type {OpenAPIV3} from 'openapi-types';
 
 /**
  * Resolve a $ref pointer to its target in the document.
- * Only handles internal references (starting with #/).
+ * Only handles internal references (starting with #/); external refs are
+ * resolved ahead of time by the bundler.
  *
  * @param doc - The OpenAPI document
  * @param ref - The $ref string (e.g., "#/components/schemas/Pet")
@@ -14,8 +15,8 @@ export const resolveRef = <T>(doc: OpenAPIV3.Document, ref: string): T => {
     if (ref.startsWith('http://') || ref.startsWith('https://')) {
       throw new Error(
         `URL $ref not supported: ${ref}\n` +
-          `  OpenCodegen currently only supports internal references (#/components/...).\n` +
-          `  Consider inlining the referenced schema into your OpenAPI document.`
+          `  Only internal references (#/components/...) can be resolved directly.\n` +
+          `  Bundle the document first with parseOpenApiSpec or bundleDocument.`
       );
     }
 
@@ -27,7 +28,7 @@ export const resolveRef = <T>(doc: OpenAPIV3.Document, ref: string): T => {
     );
   }
 
-  const path = ref.slice(2).split('/'); // Remove "#/" and split
+  const path = parsePointer(ref.slice(1)); // Remove "#" and split
   let current: unknown = doc;
 
   for (const segment of path) {
@@ -44,6 +45,25 @@ export const resolveRef = <T>(doc: OpenAPIV3.Document, ref: string): T => {
   return current as T;
 };
 
+/**
+ * Split a JSON pointer (e.g. "/components/schemas/Pet") into unescaped segments.
+ * Handles `~0`/`~1` escapes and URI percent-encoding used in $ref fragments.
+ */
+export const parsePointer = (pointer: string): string[] => {
+  if (pointer === '' || pointer === '/') return [];
+  return pointer
+    .slice(1)
+    .split('/')
+    .map((segment) => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'));
+};
+
+/**
+ * Build a JSON pointer from segments, escaping `~` and `/`.
+ */
+export const toPointer = (segments: (string | number)[]): string => {
+  return segments.map((segment) => '/' + String(segment).replace(/~/g, '~0').replace(/\//g, '~1')).join('');
+};
+
 /**
  * Check if an object is a reference object.
  */
@@ -65,3 +85,34 @@ export const resolveIfRef = <T>(doc: OpenAPIV3.Document, value: T | OpenAPIV3.Re
   }
   return value;
 };
+
+/**
+ * Replace every internal $ref in a document with a copy of its target, so the document can be
+ * read without following refs. Refs that would recurse into themselves are kept, as a
+ * circular structure can't be written out. Siblings of a $ref (allowed in OpenAPI 3.1) are
+ * merged over the target.
+ *
+ * @returns A dereferenced copy of the document, which is left untouched
+ */
+export const dereferenceDocument = (doc: OpenAPIV3.Document): OpenAPIV3.Document => {
+  const visit = (value: unknown, refs: string[]): unknown => {
+    if (Array.isArray(value)) {
+      return value.map((item) => visit(item, refs));
+    }
+    if (typeof value !== 'object' || value === null) {
+      return value;
+    }
+
+    if (isRef(value) && value.$ref.startsWith('#/') && !refs.includes(value.$ref)) {
+      const {$ref, ...siblings} = value as OpenAPIV3.ReferenceObject & Record<string, unknown>;
+      const target = resolveRef<unknown>(doc, $ref);
+      const merged =
+        typeof target === 'object' && target !== null && !Array.isArray(target) ? {...target, ...siblings} : target;
+      return visit(merged, [...refs, $ref]);
+    }
+
+    return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, visit(child, refs)]));
+  };
+
+  return visit(doc, []) as OpenAPIV3.Document;
+};
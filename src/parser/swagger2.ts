@@ -0,0 +1,549 @@
+import type {OpenAPIV2, OpenAPIV3} from 'openapi-types';
+import {isRef} from './resolver.js';
+
+/**
+ * Result of upgrading a Swagger 2.0 document.
+ */
+export interface Swagger2UpgradeResult {
+  document: OpenAPIV3.Document;
+  /** Constructs that could not be mapped exactly */
+  warnings: string[];
+}
+
+/**
+ * State shared while converting a single document.
+ */
+interface UpgradeContext {
+  doc: OpenAPIV2.Document;
+  warnings: string[];
+  /** Names of global parameters that are `in: body` (they become components.requestBodies) */
+  bodyParameters: Set<string>;
+}
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch'] as const;
+
+const DEFAULT_MIME_TYPE = 'application/json';
+
+/**
+ * Check if a parsed document is a Swagger 2.0 document.
+ */
+export const isSwagger2Doc = (doc: unknown): doc is OpenAPIV2.Document => {
+  return (
+    typeof doc === 'object' &&
+    doc !== null &&
+    (doc as Record<string, unknown>)['swagger'] === '2.0' &&
+    typeof (doc as Record<string, unknown>)['paths'] === 'object'
+  );
+};
+
+/**
+ * Start converting a document.
+ */
+const createUpgradeContext = (doc: OpenAPIV2.Document): UpgradeContext => ({
+  doc,
+  warnings: [],
+  bodyParameters: new Set(
+    Object.entries(doc.parameters ?? {})
+      .filter(([, param]) => param.in === 'body')
+      .map(([name]) => name),
+  ),
+});
+
+/**
+ * Rewrite a Swagger 2.0 $ref to its OpenAPI 3 location.
+ */
+const upgradeRef = (ref: string, ctx: UpgradeContext): string => {
+  if (ref.startsWith('#/definitions/')) {
+    return ref.replace('#/definitions/', '#/components/schemas/');
+  }
+  if (ref.startsWith('#/parameters/')) {
+    const name = ref.slice('#/parameters/'.length);
+    const target = ctx.bodyParameters.has(name) ? 'requestBodies' : 'parameters';
+    return `#/components/${target}/${name}`;
+  }
+  if (ref.startsWith('#/responses/')) {
+    return ref.replace('#/responses/', '#/components/responses/');
+  }
+  return ref;
+};
+
+/**
+ * Convert a Swagger 2.0 schema to an OpenAPI 3.0 schema.
+ * Handles refs, `x-nullable`, `type: file` and string discriminators, recursively.
+ */
+const upgradeSchema = (schema: unknown, ctx: UpgradeContext): OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject => {
+  if (Array.isArray(schema)) {
+    return schema.map((item) => upgradeSchema(item, ctx)) as unknown as OpenAPIV3.SchemaObject;
+  }
+  if (typeof schema !== 'object' || schema === null) {
+    return schema as OpenAPIV3.SchemaObject;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === '$ref' && typeof value === 'string') {
+      result[key] = upgradeRef(value, ctx);
+    } else if (key === 'x-nullable') {
+      result['nullable'] = value;
+    } else if (key === 'type' && value === 'file') {
+      result['type'] = 'string';
+      result['format'] = 'binary';
+    } else if (key === 'discriminator' && typeof value === 'string') {
+      result[key] = {propertyName: value};
+    } else if (key === 'properties' || key === 'definitions') {
+      result[key] = Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([name, prop]) => [name, upgradeSchema(prop, ctx)]),
+      );
+    } else if (['items', 'additionalProperties', 'allOf', 'not'].includes(key)) {
+      result[key] = upgradeSchema(value, ctx);
+    } else {
+      result[key] = value;
+    }
+  }
+
+  return result as OpenAPIV3.SchemaObject;
+};
+
+/**
+ * Build a schema from the type fields of a non-body parameter, header or items object.
+ */
+const itemsToSchema = (items: OpenAPIV2.ItemsObject, ctx: UpgradeContext): OpenAPIV3.SchemaObject => {
+  const schemaKeys = [
+    'type',
+    'format',
+    'items',
+    'default',
+    'maximum',
+    'exclusiveMaximum',
+    'minimum',
+    'exclusiveMinimum',
+    'maxLength',
+    'minLength',
+    'pattern',
+    'maxItems',
+    'minItems',
+    'uniqueItems',
+    'enum',
+    'multipleOf',
+  ] as const;
+
+  const schema: Record<string, unknown> = {};
+  for (const key of schemaKeys) {
+    if (items[key] !== undefined) {
+      schema[key] = key === 'items' ? itemsToSchema(items.items as OpenAPIV2.ItemsObject, ctx) : items[key];
+    }
+  }
+
+  return upgradeSchema(schema, ctx) as OpenAPIV3.SchemaObject;
+};
+
+/**
+ * Map a Swagger 2.0 collectionFormat to OpenAPI 3 style/explode.
+ */
+const upgradeCollectionFormat = (
+  param: OpenAPIV2.GeneralParameterObject,
+  ctx: UpgradeContext,
+): Pick<OpenAPIV3.ParameterObject, 'style' | 'explode'> => {
+  if (param.type !== 'array') return {};
+
+  switch (param.collectionFormat) {
+    case undefined:
+    case 'csv':
+      return param.in === 'query' ? {style: 'form', explode: false} : {style: 'simple'};
+    case 'multi':
+      return {style: 'form', explode: true};
+    case 'ssv':
+      return {style: 'spaceDelimited'};
+    case 'pipes':
+      return {style: 'pipeDelimited'};
+    default:
+      ctx.warnings.push(
+        `Parameter "${param.name}" uses collectionFormat "${param.collectionFormat}" which has no OpenAPI 3 equivalent`,
+      );
+      return {};
+  }
+};
+
+/**
+ * Convert a non-body, non-formData parameter.
+ */
+const upgradeParameter = (param: OpenAPIV2.GeneralParameterObject, ctx: UpgradeContext): OpenAPIV3.ParameterObject => {
+  const result: OpenAPIV3.ParameterObject = {
+    name: param.name,
+    in: param.in,
+    ...(param.description !== undefined && {description: param.description}),
+    ...((param.required || param.in === 'path') && {required: true}),
+    ...(param.allowEmptyValue !== undefined && {allowEmptyValue: param.allowEmptyValue}),
+    ...upgradeCollectionFormat(param, ctx),
+    schema: itemsToSchema(param, ctx),
+  };
+
+  for (const [key, value] of Object.entries(param)) {
+    if (key.startsWith('x-')) {
+      (result as unknown as Record<string, unknown>)[key] = value;
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Build request body content for each mime type.
+ */
+const buildContent = (
+  schema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject | undefined,
+  mimeTypes: string[],
+): Record<string, OpenAPIV3.MediaTypeObject> => {
+  return Object.fromEntries(mimeTypes.map((mime) => [mime, schema ? {schema} : {}]));
+};
+
+/**
+ * Convert a body parameter to a request body.
+ */
+const upgradeBodyParameter = (
+  param: OpenAPIV2.InBodyParameterObject,
+  consumes: string[],
+  ctx: UpgradeContext,
+): OpenAPIV3.RequestBodyObject => {
+  return {
+    ...(param.description !== undefined && {description: param.description}),
+    ...(param.required && {required: true}),
+    content: buildContent(upgradeSchema(param.schema, ctx), consumes),
+  };
+};
+
+/**
+ * Convert formData parameters to a request body with an object schema.
+ */
+const upgradeFormDataParameters = (
+  params: OpenAPIV2.GeneralParameterObject[],
+  consumes: string[],
+  ctx: UpgradeContext,
+): OpenAPIV3.RequestBodyObject => {
+  const properties: Record<string, OpenAPIV3.SchemaObject> = {};
+  const required: string[] = [];
+
+  for (const param of params) {
+    properties[param.name] = {
+      ...itemsToSchema(param, ctx),
+      ...(param.description !== undefined && {description: param.description}),
+    };
+    if (param.required) {
+      required.push(param.name);
+    }
+  }
+
+  // Only form mime types make sense for formData; pick multipart if files are involved
+  const formMimeTypes = consumes.filter(
+    (mime) => mime === 'application/x-www-form-urlencoded' || mime === 'multipart/form-data',
+  );
+  const hasFile = params.some((p) => p.type === 'file');
+  const mimeTypes =
+    formMimeTypes.length > 0 ? formMimeTypes : [hasFile ? 'multipart/form-data' : 'application/x-www-form-urlencoded'];
+
+  const schema: OpenAPIV3.SchemaObject = {
+    type: 'object',
+    properties,
+    ...(required.length > 0 && {required}),
+  };
+
+  return {
+    ...(required.length > 0 && {required: true}),
+    content: buildContent(schema, mimeTypes),
+  };
+};
+
+/**
+ * Convert a response object.
+ */
+const upgradeResponse = (
+  response: OpenAPIV2.ResponseObject | OpenAPIV2.ReferenceObject,
+  produces: string[],
+  ctx: UpgradeContext,
+): OpenAPIV3.ResponseObject | OpenAPIV3.ReferenceObject => {
+  if (isRef(response)) {
+    return {$ref: upgradeRef(response.$ref, ctx)};
+  }
+
+  const result: OpenAPIV3.ResponseObject = {description: response.description ?? ''};
+
+  if (response.schema) {
+    const schema = upgradeSchema(response.schema, ctx);
+    result.content = buildContent(schema, produces);
+  }
+
+  // Examples are keyed by mime type in 2.0
+  if (response.examples) {
+    result.content ??= {};
+    for (const [mime, example] of Object.entries(response.examples)) {
+      result.content[mime] = {...result.content[mime], example};
+    }
+  }
+
+  if (response.headers) {
+    result.headers = Object.fromEntries(
+      Object.entries(response.headers).map(([name, header]) => [
+        name,
+        {
+          ...(header.description !== undefined && {description: header.description}),
+          schema: itemsToSchema(header, ctx),
+        },
+      ]),
+    );
+  }
+
+  return result;
+};
+
+/**
+ * Resolve a 2.0 parameter that might be a $ref to a global parameter.
+ */
+const resolveParameter = (
+  param: OpenAPIV2.Parameter | OpenAPIV2.ReferenceObject,
+  ctx: UpgradeContext,
+): OpenAPIV2.Parameter | undefined => {
+  if (!isRef(param)) return param;
+
+  const name = param.$ref.replace('#/parameters/', '');
+  const resolved = ctx.doc.parameters?.[name];
+  if (!resolved) {
+    ctx.warnings.push(`Parameter $ref not found: ${param.$ref}`);
+  }
+  return resolved as OpenAPIV2.Parameter | undefined;
+};
+
+/**
+ * Convert an operation, merging path-level parameters.
+ */
+const upgradeOperation = (
+  operation: OpenAPIV2.OperationObject,
+  pathParams: (OpenAPIV2.Parameter | OpenAPIV2.ReferenceObject)[],
+  location: string,
+  ctx: UpgradeContext,
+): OpenAPIV3.OperationObject => {
+  const consumes = operation.consumes ?? ctx.doc.consumes ?? [DEFAULT_MIME_TYPE];
+  const produces = operation.produces ?? ctx.doc.produces ?? [DEFAULT_MIME_TYPE];
+
+  // Operation parameters override path parameters with the same name and location
+  const allParams = [...pathParams, ...(operation.parameters ?? [])];
+  const byKey = new Map<string, OpenAPIV2.Parameter | OpenAPIV2.ReferenceObject>();
+  for (const param of allParams) {
+    const resolved = resolveParameter(param, ctx);
+    const key = resolved ? `${resolved.in}:${resolved.name}` : (param as OpenAPIV2.ReferenceObject).$ref;
+    byKey.set(key, param);
+  }
+
+  const parameters: (OpenAPIV3.ParameterObject | OpenAPIV3.ReferenceObject)[] = [];
+  const formData: OpenAPIV2.GeneralParameterObject[] = [];
+  let requestBody: OpenAPIV3.RequestBodyObject | OpenAPIV3.ReferenceObject | undefined;
+
+  for (const param of byKey.values()) {
+    const resolved = resolveParameter(param, ctx);
+    if (!resolved) continue;
+
+    if (resolved.in === 'body') {
+      requestBody = isRef(param)
+        ? {$ref: upgradeRef(param.$ref, ctx)}
+        : upgradeBodyParameter(resolved as OpenAPIV2.InBodyParameterObject, consumes, ctx);
+    } else if (resolved.in === 'formData') {
+      formData.push(resolved as OpenAPIV2.GeneralParameterObject);
+    } else if (isRef(param)) {
+      parameters.push({$ref: upgradeRef(param.$ref, ctx)});
+    } else {
+      parameters.push(upgradeParameter(resolved as OpenAPIV2.GeneralParameterObject, ctx));
+    }
+  }
+
+  if (formData.length > 0) {
+    if (requestBody) {
+      ctx.warnings.push(`${location} has both body and formData parameters; formData parameters were dropped`);
+    } else {
+      requestBody = upgradeFormDataParameters(formData, consumes, ctx);
+    }
+  }
+
+  const responses: OpenAPIV3.ResponsesObject = {};
+  for (const [code, response] of Object.entries(operation.responses ?? {})) {
+    if (response) {
+      responses[code] = upgradeResponse(response, produces, ctx);
+    }
+  }
+
+  if (operation.schemes) {
+    ctx.warnings.push(`${location} overrides schemes, which is not supported per operation in OpenAPI 3`);
+  }
+
+  const {consumes: _c, produces: _p, parameters: _params, responses: _r, schemes: _s, ...rest} = operation;
+
+  return {
+    ...rest,
+    ...(parameters.length > 0 && {parameters}),
+    ...(requestBody && {requestBody}),
+    responses,
+  };
+};
+
+/**
+ * Build servers from host, basePath and schemes.
+ */
+const upgradeServers = (doc: OpenAPIV2.Document): OpenAPIV3.ServerObject[] | undefined => {
+  if (!doc.host && !doc.basePath) return undefined;
+
+  const basePath = doc.basePath ?? '';
+  if (!doc.host) {
+    return [{url: basePath}];
+  }
+
+  const schemes = doc.schemes && doc.schemes.length > 0 ? doc.schemes : ['https'];
+  return schemes.map((scheme) => ({url: `${scheme}://${doc.host}${basePath}`}));
+};
+
+/**
+ * Convert security definitions to security schemes.
+ */
+const upgradeSecurityDefinitions = (
+  definitions: OpenAPIV2.SecurityDefinitionsObject,
+  ctx: UpgradeContext,
+): Record<string, OpenAPIV3.SecuritySchemeObject> => {
+  const schemes: Record<string, OpenAPIV3.SecuritySchemeObject> = {};
+
+  for (const [name, definition] of Object.entries(definitions)) {
+    const description = definition.description !== undefined ? {description: definition.description} : {};
+
+    switch (definition.type) {
+      case 'basic':
+        schemes[name] = {type: 'http', scheme: 'basic', ...description};
+        break;
+      case 'apiKey':
+        schemes[name] = {
+          type: 'apiKey',
+          name: definition.name,
+          in: definition.in,
+          ...description,
+        };
+        break;
+      case 'oauth2': {
+        const scopes = definition.scopes ?? {};
+        let flows: OpenAPIV3.OAuth2SecurityScheme['flows'];
+        switch (definition.flow) {
+          case 'implicit':
+            flows = {implicit: {authorizationUrl: definition.authorizationUrl, scopes}};
+            break;
+          case 'password':
+            flows = {password: {tokenUrl: definition.tokenUrl, scopes}};
+            break;
+          case 'application':
+            flows = {clientCredentials: {tokenUrl: definition.tokenUrl, scopes}};
+            break;
+          case 'accessCode':
+            flows = {
+              authorizationCode: {
+                authorizationUrl: definition.authorizationUrl,
+                tokenUrl: definition.tokenUrl,
+                scopes,
+              },
+            };
+            break;
+        }
+        schemes[name] = {type: 'oauth2', flows, ...description};
+        break;
+      }
+      default:
+        ctx.warnings.push(
+          `Security definition "${name}" has unsupported type "${(definition as {type: string}).type}" and was dropped`,
+        );
+    }
+  }
+
+  return schemes;
+};
+
+/**
+ * Upgrade a Swagger 2.0 document to an in-memory OpenAPI 3.0 document.
+ * Constructs that can't be mapped are reported in `warnings` rather than failing.
+ */
+export const upgradeSwagger2 = (doc: OpenAPIV2.Document): Swagger2UpgradeResult => {
+  const ctx = createUpgradeContext(doc);
+
+  const consumes = doc.consumes ?? [DEFAULT_MIME_TYPE];
+
+  // Components
+  const components: OpenAPIV3.ComponentsObject = {};
+
+  if (doc.definitions) {
+    components.schemas = Object.fromEntries(
+      Object.entries(doc.definitions).map(([name, schema]) => [name, upgradeSchema(schema, ctx)]),
+    );
+  }
+
+  for (const [name, param] of Object.entries(doc.parameters ?? {})) {
+    if (param.in === 'body') {
+      components.requestBodies ??= {};
+      components.requestBodies[name] = upgradeBodyParameter(param as OpenAPIV2.InBodyParameterObject, consumes, ctx);
+    } else if (param.in === 'formData') {
+      ctx.warnings.push(`Global formData parameter "${name}" can't be shared in OpenAPI 3 and is inlined where used`);
+    } else {
+      components.parameters ??= {};
+      components.parameters[name] = upgradeParameter(param as OpenAPIV2.GeneralParameterObject, ctx);
+    }
+  }
+
+  if (doc.responses) {
+    const produces = doc.produces ?? [DEFAULT_MIME_TYPE];
+    components.responses = Object.fromEntries(
+      Object.entries(doc.responses).map(([name, response]) => [name, upgradeResponse(response, produces, ctx)]),
+    );
+  }
+
+  if (doc.securityDefinitions) {
+    components.securitySchemes = upgradeSecurityDefinitions(doc.securityDefinitions, ctx);
+  }
+
+  // Paths
+  const paths: OpenAPIV3.PathsObject = {};
+  for (const [path, pathItem] of Object.entries(doc.paths ?? {})) {
+    if (!pathItem) continue;
+
+    if (pathItem.$ref) {
+      ctx.warnings.push(`Path "${path}" uses $ref, which is not supported when upgrading Swagger 2.0`);
+      continue;
+    }
+
+    const upgraded: OpenAPIV3.PathItemObject = {};
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (operation) {
+        const location = `${method.toUpperCase()} ${path}`;
+        upgraded[method] = upgradeOperation(operation, pathItem.parameters ?? [], location, ctx);
+      }
+    }
+    paths[path] = upgraded;
+  }
+
+  // Unknown top-level vendor extensions are kept as-is
+  const extensions = Object.fromEntries(Object.entries(doc).filter(([key]) => key.startsWith('x-')));
+
+  const servers = upgradeServers(doc);
+
+  const document: OpenAPIV3.Document = {
+    openapi: '3.0.3',
+    info: doc.info,
+    ...(servers && {servers}),
+    ...(doc.tags && {tags: doc.tags}),
+    ...(doc.security && {security: doc.security}),
+    ...(doc.externalDocs && {externalDocs: doc.externalDocs}),
+    paths,
+    ...(Object.keys(components).length > 0 && {components}),
+    ...extensions,
+  };
+
+  return {document, warnings: ctx.warnings};
+};
+
+/**
+ * Rewrite a local $ref into a Swagger 2.0 document to where its target is once the document is
+ * upgraded, e.g. `#/definitions/Pet` -> `#/components/schemas/Pet`.
+ */
+export const upgradeSwagger2Ref = (doc: OpenAPIV2.Document, ref: string): string => {
+  return upgradeRef(ref, createUpgradeContext(doc));
+};
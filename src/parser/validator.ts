@@ -0,0 +1,306 @@
+import type {OpenAPIV3} from 'openapi-types';
+import {isRef, resolveIfRef, resolveRef, toPointer} from './resolver.js';
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+/**
+ * A problem found in an OpenAPI document.
+ */
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  /** Stable identifier of the check, e.g. `dangling-ref` */
+  code: string;
+  message: string;
+  /** JSON pointer to the offending value, e.g. `/paths/~1pets/get` */
+  pointer: string;
+  /** 1-based line in the source file, when known */
+  line?: number;
+  /** 1-based column in the source file, when known */
+  column?: number;
+}
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'] as const;
+
+const SCHEMA_TYPES = ['string', 'number', 'integer', 'boolean', 'array', 'object'];
+
+/**
+ * Context for validation, accumulates diagnostics.
+ */
+interface ValidationContext {
+  doc: OpenAPIV3.Document;
+  diagnostics: Diagnostic[];
+  /** Types allowed in `type`, including `null` for OpenAPI 3.1 */
+  schemaTypes: Set<string>;
+}
+
+/**
+ * Record a diagnostic. Path-level problems seen once per operation are only reported once.
+ */
+const report = (
+  ctx: ValidationContext,
+  severity: DiagnosticSeverity,
+  code: string,
+  message: string,
+  path: (string | number)[],
+): void => {
+  const pointer = toPointer(path);
+  if (ctx.diagnostics.some((d) => d.code === code && d.pointer === pointer)) return;
+  ctx.diagnostics.push({severity, code, message, pointer});
+};
+
+/**
+ * Check that every $ref in the document resolves to an internal target.
+ */
+const checkRefs = (ctx: ValidationContext, value: unknown, path: (string | number)[]): void => {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => checkRefs(ctx, item, [...path, index]));
+    return;
+  }
+  if (typeof value !== 'object' || value === null) return;
+
+  if (isRef(value)) {
+    const refPath = [...path, '$ref'];
+    if (!value.$ref.startsWith('#')) {
+      report(ctx, 'error', 'external-ref', `External $ref was not bundled: ${value.$ref}`, refPath);
+      return;
+    }
+    try {
+      resolveRef(ctx.doc, value.$ref);
+    } catch {
+      report(ctx, 'error', 'dangling-ref', `$ref does not resolve: ${value.$ref}`, refPath);
+    }
+    return;
+  }
+
+  for (const [key, child] of Object.entries(value)) {
+    checkRefs(ctx, child, [...path, key]);
+  }
+};
+
+/**
+ * Resolve a value for inspection, returning undefined for refs that don't resolve
+ * (those are already reported by `checkRefs`).
+ */
+const tryResolve = <T>(ctx: ValidationContext, value: T | OpenAPIV3.ReferenceObject): T | undefined => {
+  try {
+    return resolveIfRef(ctx.doc, value);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Check a schema and its nested schemas for unknown types and invalid `required` entries.
+ */
+const checkSchema = (
+  ctx: ValidationContext,
+  schema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject | undefined,
+  path: (string | number)[],
+): void => {
+  if (typeof schema !== 'object' || schema === null || isRef(schema)) return;
+
+  const schemaObj = schema as Record<string, unknown>;
+
+  // Unknown types
+  const types = Array.isArray(schemaObj.type) ? schemaObj.type : schemaObj.type !== undefined ? [schemaObj.type] : [];
+  for (const type of types) {
+    if (typeof type !== 'string' || !ctx.schemaTypes.has(type)) {
+      report(ctx, 'error', 'unknown-type', `Unknown schema type: ${JSON.stringify(type)}`, [...path, 'type']);
+    }
+  }
+
+  // Required entries
+  const properties = schemaObj.properties as Record<string, unknown> | undefined;
+  if (schemaObj.required !== undefined) {
+    if (!Array.isArray(schemaObj.required) || schemaObj.required.some((name) => typeof name !== 'string')) {
+      report(ctx, 'error', 'invalid-required', '`required` must be an array of property names', [...path, 'required']);
+    } else if (properties) {
+      schemaObj.required.forEach((name: string, index: number) => {
+        if (!(name in properties)) {
+          report(ctx, 'warning', 'invalid-required', `Required property "${name}" is not defined in properties`, [
+            ...path,
+            'required',
+            index,
+          ]);
+        }
+      });
+    }
+  }
+
+  // Nested schemas
+  for (const [name, prop] of Object.entries(properties ?? {})) {
+    checkSchema(ctx, prop as OpenAPIV3.SchemaObject, [...path, 'properties', name]);
+  }
+  for (const key of ['items', 'additionalProperties', 'not']) {
+    if (typeof schemaObj[key] === 'object') {
+      checkSchema(ctx, schemaObj[key] as OpenAPIV3.SchemaObject, [...path, key]);
+    }
+  }
+  for (const key of ['allOf', 'oneOf', 'anyOf', 'prefixItems']) {
+    if (Array.isArray(schemaObj[key])) {
+      (schemaObj[key] as OpenAPIV3.SchemaObject[]).forEach((item, index) =>
+        checkSchema(ctx, item, [...path, key, index]),
+      );
+    }
+  }
+  for (const [name, def] of Object.entries((schemaObj.$defs as Record<string, unknown>) ?? {})) {
+    checkSchema(ctx, def as OpenAPIV3.SchemaObject, [...path, '$defs', name]);
+  }
+};
+
+/**
+ * Check the schemas inside a media type map (request bodies and responses).
+ */
+const checkContent = (
+  ctx: ValidationContext,
+  content: Record<string, OpenAPIV3.MediaTypeObject> | undefined,
+  path: (string | number)[],
+): void => {
+  for (const [mediaType, media] of Object.entries(content ?? {})) {
+    checkSchema(ctx, media.schema, [...path, 'content', mediaType, 'schema']);
+  }
+};
+
+/**
+ * Check a list of parameters and their schemas.
+ */
+const checkParameters = (
+  ctx: ValidationContext,
+  parameters: (OpenAPIV3.ParameterObject | OpenAPIV3.ReferenceObject)[] | undefined,
+  path: (string | number)[],
+): void => {
+  (parameters ?? []).forEach((param, index) => {
+    if (isRef(param)) return;
+    checkSchema(ctx, param.schema, [...path, index, 'schema']);
+    if (param.in === 'path' && param.required !== true) {
+      report(ctx, 'error', 'path-param-required', `Path parameter "${param.name}" must be required`, [...path, index]);
+    }
+  });
+};
+
+/**
+ * Check that path template parameters and declared path parameters match.
+ */
+const checkPathParameters = (
+  ctx: ValidationContext,
+  pathKey: string,
+  pathItem: OpenAPIV3.PathItemObject,
+  method: string,
+  operation: OpenAPIV3.OperationObject,
+): void => {
+  const templateNames = new Set([...pathKey.matchAll(/\{([^}]+)\}/g)].map((match) => match[1]));
+
+  const declared = new Map<string, (string | number)[]>();
+  const collect = (
+    parameters: (OpenAPIV3.ParameterObject | OpenAPIV3.ReferenceObject)[] | undefined,
+    basePath: (string | number)[],
+  ) => {
+    (parameters ?? []).forEach((param, index) => {
+      const resolved = tryResolve(ctx, param);
+      if (resolved?.in === 'path') {
+        declared.set(resolved.name, [...basePath, index]);
+      }
+    });
+  };
+  collect(pathItem.parameters, ['paths', pathKey, 'parameters']);
+  collect(operation.parameters, ['paths', pathKey, method, 'parameters']);
+
+  for (const name of templateNames) {
+    if (!declared.has(name)) {
+      report(ctx, 'error', 'undeclared-path-param', `Path parameter "${name}" in ${pathKey} is not declared`, [
+        'paths',
+        pathKey,
+        method,
+      ]);
+    }
+  }
+
+  for (const [name, paramPath] of declared) {
+    if (!templateNames.has(name)) {
+      report(ctx, 'error', 'unused-path-param', `Path parameter "${name}" does not appear in ${pathKey}`, paramPath);
+    }
+  }
+};
+
+/**
+ * Validate an OpenAPI document beyond the basic shape checked when parsing.
+ * Reports dangling refs, duplicate operationIds, mismatched path parameters,
+ * unknown schema types and invalid `required` entries, each with a JSON pointer.
+ *
+ * @param doc - The parsed (and bundled) OpenAPI document
+ * @returns Diagnostics found, empty if the document is valid
+ */
+export const validateSpec = (doc: OpenAPIV3.Document): Diagnostic[] => {
+  const ctx: ValidationContext = {
+    doc,
+    diagnostics: [],
+    schemaTypes: new Set(doc.openapi.startsWith('3.1') ? [...SCHEMA_TYPES, 'null'] : SCHEMA_TYPES),
+  };
+
+  checkRefs(ctx, doc, []);
+
+  // Operations
+  const operationIds = new Map<string, string>();
+  for (const [pathKey, pathItem] of Object.entries(doc.paths ?? {})) {
+    if (!pathItem) continue;
+
+    checkParameters(ctx, pathItem.parameters, ['paths', pathKey, 'parameters']);
+
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (!operation) continue;
+
+      const operationPath = ['paths', pathKey, method];
+
+      if (operation.operationId) {
+        const first = operationIds.get(operation.operationId);
+        if (first) {
+          report(
+            ctx,
+            'error',
+            'duplicate-operation-id',
+            `Duplicate operationId "${operation.operationId}" (first used by ${first})`,
+            [...operationPath, 'operationId'],
+          );
+        } else {
+          operationIds.set(operation.operationId, `${method.toUpperCase()} ${pathKey}`);
+        }
+      }
+
+      checkPathParameters(ctx, pathKey, pathItem, method, operation);
+      checkParameters(ctx, operation.parameters, [...operationPath, 'parameters']);
+
+      if (operation.requestBody && !isRef(operation.requestBody)) {
+        checkContent(ctx, operation.requestBody.content, [...operationPath, 'requestBody']);
+      }
+      for (const [code, response] of Object.entries(operation.responses ?? {})) {
+        if (!isRef(response)) {
+          checkContent(ctx, response.content, [...operationPath, 'responses', code]);
+        }
+      }
+    }
+  }
+
+  // Components
+  const components = doc.components ?? {};
+  for (const [name, schema] of Object.entries(components.schemas ?? {})) {
+    checkSchema(ctx, schema, ['components', 'schemas', name]);
+  }
+  for (const [name, param] of Object.entries(components.parameters ?? {})) {
+    if (!isRef(param)) {
+      checkSchema(ctx, param.schema, ['components', 'parameters', name, 'schema']);
+    }
+  }
+  for (const [name, body] of Object.entries(components.requestBodies ?? {})) {
+    if (!isRef(body)) {
+      checkContent(ctx, body.content, ['components', 'requestBodies', name]);
+    }
+  }
+  for (const [name, response] of Object.entries(components.responses ?? {})) {
+    if (!isRef(response)) {
+      checkContent(ctx, response.content, ['components', 'responses', name]);
+    }
+  }
+
+  return ctx.diagnostics;
+};
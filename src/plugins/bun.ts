@@ -0,0 +1,19 @@
+import type {BunPlugin} from 'bun';
+import {createPluginContext, registerVirtualModules, type CodegenPluginOptions} from './core.js';
+
+/**
+ * Bun plugin that generates the clients when it's registered, for `Bun.build` or as a runtime
+ * plugin with `Bun.plugin`.
+ *
+ * With `virtual: true` the clients are imported from `virtual:opencodegen/<project>`. Otherwise
+ * the files are written to each project's target.
+ */
+export const opencodegen = (options: CodegenPluginOptions = {}): BunPlugin => ({
+  name: 'opencodegen',
+
+  async setup(build) {
+    const ctx = createPluginContext(options);
+    await ctx.generate();
+    registerVirtualModules(build, ctx);
+  },
+});
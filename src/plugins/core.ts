@@ -0,0 +1,284 @@
+import {dirname, resolve} from 'node:path';
+import {generate, parse, write} from '../api/index.js';
+import type {GeneratedFiles} from '../codegen/index.js';
+import {findConfigFile} from '../config/discovery.js';
+import {loadConfig} from '../config/loader.js';
+import {getProjects} from '../config/projects.js';
+import type {ProjectConfig} from '../config/schema.js';
+import {isUrl} from '../parser/loader.js';
+
+/**
+ * Import path of the virtual modules: `virtual:opencodegen/<project>`, or just
+ * `virtual:opencodegen` for a config with a single project.
+ */
+export const VIRTUAL_MODULE_ID = 'virtual:opencodegen';
+
+/**
+ * Options shared by the bundler plugins.
+ */
+export interface CodegenPluginOptions {
+  /** Path to the config file. By default it's searched for from `root` upwards. */
+  config?: string;
+  /** Directory to search for the config from. Defaults to the bundler's root or the current directory. */
+  root?: string;
+  /** Generate only the projects with these names */
+  project?: string[];
+  /**
+   * Serve the clients as virtual modules instead of writing them to each project's target,
+   * so no generated files need to be committed.
+   */
+  virtual?: boolean;
+  /** Overwrite generated files even if they were edited by hand */
+  force?: boolean;
+}
+
+/**
+ * Generation state shared by the hooks of a bundler plugin.
+ */
+export interface CodegenPluginContext {
+  /** Load the config and generate every project, writing the files unless `virtual` is set */
+  generate: () => Promise<void>;
+  /** The config file and the local spec files that the generated code depends on */
+  getWatchFiles: () => string[];
+  /**
+   * Regenerate after a file changed: every project if it's the config, or the projects using it.
+   *
+   * @returns Resolved ids of the virtual modules whose content changed, or undefined if
+   *   no project depends on the file
+   */
+  update: (file: string) => Promise<string[] | undefined>;
+  /** Resolve a virtual module import, or a relative import between virtual modules */
+  resolveId: (id: string, importer?: string) => string | undefined;
+  /** Get the TypeScript source of a resolved virtual module */
+  load: (id: string) => string | undefined;
+  /** Get the generated content of a file written to a project's target, by absolute path */
+  loadTargetFile: (path: string) => string | undefined;
+}
+
+/**
+ * A generated project and the files it was generated from.
+ */
+interface ProjectState {
+  project: ProjectConfig;
+  files: GeneratedFiles;
+  /** Local files the spec was read from */
+  sources: string[];
+}
+
+/**
+ * Resolved id of a generated file in a virtual module. Ids end in `.ts` and have no `\0` prefix
+ * so bundlers apply their TypeScript transform to them.
+ */
+const toVirtualId = (project: ProjectConfig, fileName: string): string => {
+  return `${VIRTUAL_MODULE_ID}/${project.name ? `${project.name}/` : ''}${fileName}`;
+};
+
+/**
+ * Create the state for a bundler plugin. `getRoot` is read when generating, so plugins can
+ * set it from the bundler's config first.
+ */
+export const createPluginContext = (
+  options: CodegenPluginOptions,
+  getRoot: () => string = () => options.root ?? process.cwd(),
+): CodegenPluginContext => {
+  let configPath: string | undefined;
+  let configDir = '';
+  let projects = new Map<string, ProjectState>();
+
+  const findConfig = (): string => {
+    const root = getRoot();
+    if (options.config) {
+      return resolve(root, options.config);
+    }
+    const found = findConfigFile(root);
+    if (!found) {
+      throw new Error(`No opencodegen config found in ${root} or its parent directories`);
+    }
+    return found;
+  };
+
+  const selectProjects = (all: ProjectConfig[]): ProjectConfig[] => {
+    const names = options.project ?? [];
+    const available = all.flatMap((project) => (project.name ? [project.name] : []));
+    for (const name of names) {
+      if (!available.includes(name)) {
+        throw new Error(`Unknown project: ${name} (available: ${available.join(', ') || 'none'})`);
+      }
+    }
+    return names.length === 0 ? all : all.filter((project) => names.includes(project.name ?? ''));
+  };
+
+  const generateProject = async (project: ProjectConfig): Promise<ProjectState> => {
+    const spec = await parse(project.source, {
+      cwd: configDir,
+      sourceOptions: project.sourceOptions,
+      overlays: project.overlays,
+    });
+    // The overlays are already applied to the parsed document
+    const files = await generate({...project, source: spec.document, overlays: undefined, cwd: configDir});
+
+    if (!options.virtual) {
+      await write(files, project.target, {cwd: configDir, force: options.force});
+    }
+
+    return {project, files, sources: spec.sources.filter((source) => !isUrl(source))};
+  };
+
+  /**
+   * Generate projects and return the virtual module ids whose content changed.
+   */
+  const regenerate = async (selected: ProjectConfig[]): Promise<string[]> => {
+    const states = await Promise.all(selected.map(generateProject));
+
+    const changed: string[] = [];
+    for (const state of states) {
+      const previous = projects.get(state.project.name ?? '');
+      for (const [fileName, content] of state.files) {
+        if (previous?.files.get(fileName) !== content) {
+          changed.push(toVirtualId(state.project, fileName));
+        }
+      }
+      projects.set(state.project.name ?? '', state);
+    }
+    return changed;
+  };
+
+  const generateAll = async (): Promise<string[]> => {
+    configPath = findConfig();
+    configDir = dirname(configPath);
+    const config = await loadConfig(configPath, {reload: projects.size > 0});
+    const selected = selectProjects(getProjects(config));
+
+    const previous = projects;
+    projects = new Map();
+    try {
+      return await regenerate(selected);
+    } catch (error) {
+      projects = previous;
+      throw error;
+    }
+  };
+
+  const getWatchFiles = (): string[] => {
+    const files = new Set<string>(configPath ? [configPath] : []);
+    for (const state of projects.values()) {
+      for (const source of state.sources) {
+        files.add(source);
+      }
+    }
+    return [...files];
+  };
+
+  const update = async (file: string): Promise<string[] | undefined> => {
+    const changedFile = resolve(file);
+    if (changedFile === configPath) {
+      return generateAll();
+    }
+
+    const affected = [...projects.values()].filter((state) => state.sources.includes(changedFile));
+    if (affected.length === 0) return undefined;
+    return regenerate(affected.map((state) => state.project));
+  };
+
+  const findProject = (name: string): ProjectState => {
+    const state = name === '' && projects.size === 1 ? [...projects.values()][0] : projects.get(name);
+    if (state) return state;
+
+    const available = [...projects.keys()].filter(Boolean);
+    if (name === '' && available.length > 0) {
+      throw new Error(
+        `The config has several projects, import one of them: ${available
+          .map((project) => `${VIRTUAL_MODULE_ID}/${project}`)
+          .join(', ')}`,
+      );
+    }
+    throw new Error(`Unknown project in "${VIRTUAL_MODULE_ID}/${name}" (available: ${available.join(', ') || 'none'})`);
+  };
+
+  const load = (id: string): string | undefined => {
+    if (!id.startsWith(`${VIRTUAL_MODULE_ID}/`)) return undefined;
+
+    const path = id.slice(VIRTUAL_MODULE_ID.length + 1);
+    const separator = path.lastIndexOf('/');
+    const state = projects.get(separator === -1 ? '' : path.slice(0, separator));
+    return state?.files.get(path.slice(separator + 1));
+  };
+
+  const resolveId = (id: string, importer?: string): string | undefined => {
+    // Generated files import each other as './types.js'
+    if (importer?.startsWith(`${VIRTUAL_MODULE_ID}/`) && id.startsWith('./')) {
+      return `${importer.slice(0, importer.lastIndexOf('/'))}/${id.slice(2).replace(/\.js$/, '.ts')}`;
+    }
+
+    if (id !== VIRTUAL_MODULE_ID && !id.startsWith(`${VIRTUAL_MODULE_ID}/`)) return undefined;
+    // Already resolved, e.g. when a dev server requests the module by its id
+    if (load(id) !== undefined) return id;
+
+    const {project} = findProject(id.slice(VIRTUAL_MODULE_ID.length + 1));
+    return toVirtualId(project, 'index.ts');
+  };
+
+  const loadTargetFile = (path: string): string | undefined => {
+    for (const state of projects.values()) {
+      const targetDir = resolve(configDir, state.project.target);
+      if (dirname(path) === targetDir) {
+        return state.files.get(path.slice(targetDir.length + 1));
+      }
+    }
+    return undefined;
+  };
+
+  return {
+    generate: async () => {
+      await generateAll();
+    },
+    getWatchFiles,
+    update,
+    resolveId,
+    load,
+    loadTargetFile,
+  };
+};
+
+/**
+ * The plugin API shared by esbuild and Bun, declared here so neither is a dependency.
+ */
+export interface EsbuildLikeBuild {
+  onResolve(
+    options: {filter: RegExp; namespace?: string},
+    callback: (args: {path: string; importer: string}) => {path: string; namespace: string} | undefined,
+  ): unknown;
+  onLoad(
+    options: {filter: RegExp; namespace?: string},
+    callback: (args: {path: string}) => {contents: string; loader: 'ts'; watchFiles?: string[]} | undefined,
+  ): unknown;
+}
+
+/**
+ * Namespace of the virtual modules in esbuild and Bun.
+ */
+const NAMESPACE = 'opencodegen';
+
+/**
+ * Serve the virtual modules from an esbuild or Bun plugin.
+ *
+ * @param watch - Report the config and spec files to esbuild so watch mode rebuilds when they change
+ */
+export const registerVirtualModules = (build: EsbuildLikeBuild, ctx: CodegenPluginContext, watch = false): void => {
+  build.onResolve({filter: new RegExp(`^${VIRTUAL_MODULE_ID}(/|$)`)}, (args) => {
+    const path = ctx.resolveId(args.path);
+    return path === undefined ? undefined : {path, namespace: NAMESPACE};
+  });
+
+  // Not limited to the namespace, because Bun reports relative imports in it as in the `file` namespace
+  build.onResolve({filter: /^\.\//}, (args) => {
+    const path = ctx.resolveId(args.path, args.importer);
+    return path === undefined ? undefined : {path, namespace: NAMESPACE};
+  });
+
+  build.onLoad({filter: /.*/, namespace: NAMESPACE}, (args) => {
+    const contents = ctx.load(args.path);
+    if (contents === undefined) return undefined;
+    return {contents, loader: 'ts', watchFiles: watch ? ctx.getWatchFiles() : undefined};
+  });
+};
@@ -0,0 +1,76 @@
+import {statSync} from 'node:fs';
+import {createPluginContext, registerVirtualModules, type CodegenPluginOptions, type EsbuildLikeBuild} from './core.js';
+
+/**
+ * The parts of esbuild's plugin build the plugin uses.
+ */
+interface EsbuildBuild extends EsbuildLikeBuild {
+  initialOptions: {absWorkingDir?: string};
+  onStart(callback: () => Promise<{errors: {text: string}[]} | undefined>): unknown;
+}
+
+/**
+ * An esbuild plugin, declared here so esbuild isn't a dependency.
+ */
+export interface EsbuildPlugin {
+  name: string;
+  setup(build: EsbuildBuild): void;
+}
+
+/**
+ * Modification time of a file, or 0 if it's gone.
+ */
+const getModifiedTime = (file: string): number => {
+  try {
+    return statSync(file).mtimeMs;
+  } catch {
+    return 0;
+  }
+};
+
+/**
+ * esbuild plugin that generates the clients at the start of a build. In watch mode, only the
+ * projects whose config or spec changed since the previous build are regenerated.
+ *
+ * With `virtual: true` the clients are imported from `virtual:opencodegen/<project>`. Otherwise
+ * the files are written to each project's target.
+ */
+export const opencodegen = (options: CodegenPluginOptions = {}): EsbuildPlugin => ({
+  name: 'opencodegen',
+
+  setup(build) {
+    const ctx = createPluginContext(options, () => options.root ?? build.initialOptions.absWorkingDir ?? process.cwd());
+    /** Modification time of each watched file when it was last generated from */
+    let modified: Map<string, number> | undefined;
+
+    const snapshot = () => new Map(ctx.getWatchFiles().map((file) => [file, getModifiedTime(file)]));
+
+    build.onStart(async () => {
+      try {
+        if (!modified) {
+          await ctx.generate();
+        } else {
+          for (const [file, time] of modified) {
+            if (getModifiedTime(file) !== time) {
+              await ctx.update(file);
+            }
+          }
+        }
+        modified = snapshot();
+      } catch (error) {
+        return {errors: [{text: `[opencodegen] ${(error as Error).message}`}]};
+      }
+      return undefined;
+    });
+
+    registerVirtualModules(build, ctx, true);
+
+    // Written files are loaded from memory too, so the spec is watched along with them
+    if (!options.virtual) {
+      build.onLoad({filter: /\.ts$/}, (args) => {
+        const contents = ctx.loadTargetFile(args.path);
+        return contents === undefined ? undefined : {contents, loader: 'ts', watchFiles: ctx.getWatchFiles()};
+      });
+    }
+  },
+});
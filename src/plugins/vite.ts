@@ -0,0 +1,85 @@
+import {createPluginContext, type CodegenPluginOptions} from './core.js';
+
+/**
+ * The parts of Vite's dev server the plugin uses.
+ */
+interface ViteDevServer<Module = unknown> {
+  watcher: {add: (paths: string[]) => void};
+  moduleGraph: {getModuleById: (id: string) => Module | undefined};
+  ws: {send: (payload: {type: 'error'; err: {message: string; stack: string}}) => void};
+  config: {logger: {info: (message: string, options?: {timestamp?: boolean}) => void}};
+}
+
+/**
+ * A Vite plugin, declared here so Vite isn't a dependency.
+ */
+export interface VitePlugin {
+  name: string;
+  configResolved(config: {root: string}): void;
+  configureServer(server: ViteDevServer): void;
+  buildStart(this: {addWatchFile: (id: string) => void}): Promise<void>;
+  resolveId(id: string, importer?: string): string | undefined;
+  load(id: string): string | undefined;
+  handleHotUpdate<Module>(context: {file: string; server: ViteDevServer<Module>}): Promise<Module[] | undefined>;
+}
+
+/**
+ * Vite plugin that generates the clients when the dev server starts and on build, and
+ * regenerates them when the config or the spec changes.
+ *
+ * With `virtual: true` the clients are imported from `virtual:opencodegen/<project>`, and a
+ * changed spec updates the virtual modules through HMR. Otherwise the files are written to each
+ * project's target, and only files whose content changed are rewritten.
+ */
+export const opencodegen = (options: CodegenPluginOptions = {}): VitePlugin => {
+  let root = options.root ?? process.cwd();
+  let devServer: ViteDevServer | undefined;
+  const ctx = createPluginContext(options, () => root);
+
+  return {
+    name: 'opencodegen',
+
+    configResolved(config) {
+      root = options.root ?? config.root;
+    },
+
+    configureServer(server) {
+      devServer = server;
+    },
+
+    async buildStart() {
+      await ctx.generate();
+      for (const file of ctx.getWatchFiles()) {
+        this.addWatchFile(file);
+      }
+      devServer?.watcher.add(ctx.getWatchFiles());
+    },
+
+    resolveId(id, importer) {
+      return ctx.resolveId(id, importer);
+    },
+
+    load(id) {
+      return ctx.load(id);
+    },
+
+    async handleHotUpdate({file, server}) {
+      let changed;
+      try {
+        changed = await ctx.update(file);
+      } catch (error) {
+        const {message, stack = ''} = error as Error;
+        server.ws.send({type: 'error', err: {message: `[opencodegen] ${message}`, stack}});
+        return [];
+      }
+      if (changed === undefined) return undefined;
+
+      // References to new files may have been added to the spec
+      server.watcher.add(ctx.getWatchFiles());
+      server.config.logger.info(`[opencodegen] Regenerated clients after a change to ${file}`, {timestamp: true});
+
+      // The spec itself isn't a module; only the virtual modules that changed are updated
+      return changed.flatMap((id) => server.moduleGraph.getModuleById(id) ?? []);
+    },
+  };
+};
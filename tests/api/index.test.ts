@@ -0,0 +1,129 @@
+import {afterEach, beforeEach, describe, expect, test} from 'bun:test';
+import {mkdtempSync, readFileSync, rmSync, writeFileSync} from 'node:fs';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import {parse as parseYaml} from 'yaml';
+import {generate, parse, SpecLoadError, SpecValidationError, validate, write} from '../../src/api/index.js';
+import {ModifiedFilesError} from '../../src/codegen/index.js';
+
+// Path to test fixtures
+const fixturesDir = join(import.meta.dir, '../fixtures');
+const petstore = parseYaml(readFileSync(join(fixturesDir, 'petstore.yaml'), 'utf-8'));
+
+describe('parse', () => {
+  test('loads a spec relative to cwd', async () => {
+    const spec = await parse('multi-file/openapi.yaml', {cwd: fixturesDir});
+
+    expect(spec.document.info.title).toBe('Multi-file Petstore');
+    expect(spec.sources[0]).toBe(join(fixturesDir, 'multi-file/openapi.yaml'));
+    expect(spec.content).toContain('Multi-file Petstore');
+  });
+
+  test('accepts a document object', async () => {
+    const spec = await parse(petstore);
+
+    expect(spec.document.info.title).toBe(petstore.info.title);
+    expect(spec.content).toBeUndefined();
+    expect(spec.sources).toEqual([]);
+  });
+
+  test('resolves relative refs in a document object against cwd', async () => {
+    const doc = {
+      openapi: '3.0.0',
+      info: {title: 'Refs', version: '1.0.0'},
+      paths: {},
+      components: {schemas: {Pet: {$ref: './multi-file/schemas/pet.yaml'}}},
+    };
+
+    const spec = await parse(doc, {cwd: fixturesDir});
+
+    expect(spec.sources).toContain(join(fixturesDir, 'multi-file/schemas/pet.yaml'));
+    expect(spec.document.components?.schemas?.Pet).toBeDefined();
+  });
+
+  test('returns Swagger 2.0 upgrade problems as warnings', async () => {
+    const doc = {
+      swagger: '2.0',
+      info: {title: 'Schemes', version: '1.0.0'},
+      paths: {'/pets': {get: {schemes: ['http'], responses: {'200': {description: 'OK'}}}}},
+    };
+
+    const spec = await parse(doc);
+
+    expect(spec.document.openapi).toStartWith('3.0');
+    expect(spec.warnings).toHaveLength(1);
+    expect(spec.warnings[0]).toMatchObject({severity: 'warning', code: 'swagger2-upgrade'});
+  });
+
+  test('throws a SpecLoadError', async () => {
+    const error = await parse('missing.yaml', {cwd: fixturesDir}).catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(SpecLoadError);
+    expect((error as SpecLoadError).source).toBe(join(fixturesDir, 'missing.yaml'));
+  });
+
+  test('throws a SpecLoadError for an object that is not a spec', async () => {
+    await expect(parse({info: {}})).rejects.toThrow('Invalid OpenAPI document');
+  });
+});
+
+describe('validate', () => {
+  test('returns diagnostics with their location', async () => {
+    const diagnostics = await validate(join(fixturesDir, 'invalid-spec.yaml'));
+
+    const dangling = diagnostics.find((d) => d.code === 'dangling-ref');
+    expect(dangling?.severity).toBe('error');
+    expect(dangling?.line).toBe(15);
+  });
+
+  test('lints only when asked to', async () => {
+    const doc = {...petstore, paths: {'/pets': {get: {responses: {'200': {description: 'OK'}}}}}};
+
+    expect(await validate(doc)).toEqual([]);
+    expect((await validate(doc, {lint: {}})).map((d) => d.code)).toContain('operation-id');
+  });
+});
+
+describe('generate', () => {
+  test('generates files from a document object', async () => {
+    const files = await generate({source: petstore, codegen: {clientSuffix: 'Client'}});
+
+    expect([...files.keys()]).toContain('types.ts');
+    expect(files.get('base.ts')).toContain('BaseClient');
+  });
+
+  test('throws a SpecValidationError with the diagnostics', async () => {
+    const error = await generate({source: join(fixturesDir, 'invalid-spec.yaml')}).catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(SpecValidationError);
+    expect((error as SpecValidationError).diagnostics.some((d) => d.code === 'dangling-ref')).toBe(true);
+  });
+});
+
+describe('write', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'opencodegen-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, {recursive: true, force: true});
+  });
+
+  test('writes files relative to cwd', async () => {
+    const result = await write(new Map([['index.ts', 'export {};\n']]), 'out', {cwd: dir});
+
+    expect(result.written).toEqual(['index.ts']);
+    expect(readFileSync(join(dir, 'out/index.ts'), 'utf-8')).toBe('export {};\n');
+  });
+
+  test('throws a ModifiedFilesError for files edited by hand', async () => {
+    await write(new Map([['index.ts', 'export {};\n']]), dir);
+    writeFileSync(join(dir, 'index.ts'), '// edited\n');
+
+    await expect(write(new Map([['index.ts', 'export const a = 1;\n']]), dir)).rejects.toBeInstanceOf(
+      ModifiedFilesError,
+    );
+  });
+});
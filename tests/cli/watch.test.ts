@@ -0,0 +1,97 @@
+import {afterEach, beforeEach, describe, expect, test} from 'bun:test';
+import {mkdirSync, mkdtempSync, renameSync, rmSync, writeFileSync} from 'node:fs';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import {createFileWatcher, type FileWatcher} from '../../src/cli/watch.js';
+
+const sleep = (ms: number) => new Promise((done) => setTimeout(done, ms));
+
+describe('createFileWatcher', () => {
+  let dir: string;
+  let watcher: FileWatcher | undefined;
+  let calls: string[][];
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'opencodegen-'));
+    calls = [];
+  });
+
+  afterEach(() => {
+    watcher?.close();
+    rmSync(dir, {recursive: true, force: true});
+  });
+
+  const start = (files: string[]): FileWatcher => {
+    watcher = createFileWatcher((changed) => calls.push(changed.sort()), 50);
+    watcher.setFiles(files);
+    return watcher;
+  };
+
+  test('reports changes once they settle', async () => {
+    const spec = join(dir, 'openapi.yaml');
+    const config = join(dir, 'opencodegen.config.json');
+    writeFileSync(spec, 'a');
+    writeFileSync(config, '{}');
+    start([spec, config]);
+
+    writeFileSync(spec, 'b');
+    await sleep(10);
+    writeFileSync(config, '{"target": "./out"}');
+    writeFileSync(spec, 'c');
+    await sleep(300);
+
+    expect(calls).toEqual([[config, spec].sort()]);
+  });
+
+  test('ignores other files in the watched directories', async () => {
+    const spec = join(dir, 'openapi.yaml');
+    writeFileSync(spec, 'a');
+    start([spec]);
+
+    writeFileSync(join(dir, 'notes.md'), 'unrelated');
+    await sleep(300);
+
+    expect(calls).toEqual([]);
+  });
+
+  test('reports files replaced by a rename, as editors save them', async () => {
+    const spec = join(dir, 'openapi.yaml');
+    writeFileSync(spec, 'a');
+    start([spec]);
+
+    writeFileSync(join(dir, 'openapi.yaml.tmp'), 'b');
+    renameSync(join(dir, 'openapi.yaml.tmp'), spec);
+    await sleep(300);
+    writeFileSync(spec, 'c');
+    await sleep(300);
+
+    expect(calls).toEqual([[spec], [spec]]);
+  });
+
+  test('watches the new set of files after setFiles', async () => {
+    const spec = join(dir, 'openapi.yaml');
+    const shared = join(dir, 'shared', 'pet.yaml');
+    mkdirSync(join(dir, 'shared'));
+    writeFileSync(spec, 'a');
+    writeFileSync(shared, 'a');
+    start([spec]).setFiles([shared]);
+
+    writeFileSync(spec, 'b');
+    writeFileSync(shared, 'b');
+    await sleep(300);
+
+    expect(calls).toEqual([[shared]]);
+  });
+
+  test('stops reporting after close', async () => {
+    const spec = join(dir, 'openapi.yaml');
+    writeFileSync(spec, 'a');
+    start([spec]);
+
+    writeFileSync(spec, 'b');
+    watcher!.close();
+    await sleep(300);
+
+    expect(calls).toEqual([]);
+  });
+});
@@ -345,6 +345,126 @@ describe('generateClients', () => {
   });
 });
 
+describe('component references', () => {
+  const doc: OpenAPIV3.Document = {
+    openapi: '3.0.0',
+    info: {title: 'Test', version: '1.0.0'},
+    paths: {
+      '/pets/{petId}': {
+        parameters: [{$ref: '#/components/parameters/PetId'}, {name: 'verbose', in: 'query', schema: {type: 'string'}}],
+        put: {
+          tags: ['pets'],
+          operationId: 'updatePet',
+          parameters: [
+            {$ref: '#/components/parameters/Verbose'},
+            {name: 'fields', in: 'query', schema: {type: 'string'}},
+          ],
+          requestBody: {$ref: '#/components/requestBodies/PetBody'},
+          responses: {'200': {$ref: '#/components/responses/PetResponse'}},
+        },
+        delete: {
+          tags: ['pets'],
+          operationId: 'deletePet',
+          requestBody: {$ref: '#/components/requestBodies/Empty'},
+          responses: {'204': {$ref: '#/components/responses/NoContent'}},
+        },
+      },
+    },
+    components: {
+      schemas: {
+        PetId: {type: 'string'},
+        Pet: {type: 'object', properties: {name: {type: 'string'}}},
+      },
+      parameters: {
+        PetId: {name: 'petId', in: 'path', required: true, schema: {$ref: '#/components/schemas/PetId'}},
+        Verbose: {name: 'verbose', in: 'query', schema: {type: 'boolean'}},
+      },
+      requestBodies: {
+        PetBody: {content: {'application/json': {schema: {$ref: '#/components/schemas/Pet'}}}},
+        Empty: {content: {'text/plain': {schema: {type: 'string'}}}},
+      },
+      responses: {
+        PetResponse: {description: 'OK', content: {'application/json': {schema: {$ref: '#/components/schemas/Pet'}}}},
+        NoContent: {description: 'Gone'},
+      },
+    },
+  };
+
+  test('resolves parameters, request bodies and responses', () => {
+    const content = generateClients(doc, defaultConfig).get('pets-client.ts')!;
+
+    expect(content).toContain(
+      'async updatePet(petId: PetId, body: PetBodyRequestBody, params?: { verbose?: boolean; fields?: string }',
+    );
+    expect(content).toContain('Promise<PetResponse>');
+    expect(content).toContain('async deletePet(petId: PetId, params?: { verbose?: string }, requestOptions');
+    expect(content).toContain('): Promise<void> {');
+    expect(content).toContain("import { PetBodyRequestBody, PetId, PetResponse } from './types.js';");
+  });
+});
+
+describe('OpenAPI 3.1', () => {
+  test('type arrays become nullable unions', () => {
+    const doc = createDoc(
+      {
+        '/pets': {
+          get: {
+            tags: ['pets'],
+            operationId: 'listPets',
+            parameters: [
+              {name: 'since', in: 'query', schema: {type: ['string', 'null']} as unknown as OpenAPIV3.SchemaObject},
+            ],
+            responses: {
+              '200': {
+                description: 'OK',
+                content: {
+                  'application/json': {
+                    schema: {
+                      type: ['array', 'null'],
+                      items: {$ref: '#/components/schemas/Pet'},
+                    } as unknown as OpenAPIV3.SchemaObject,
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      {Pet: {type: 'object', properties: {name: {type: 'string'}}}},
+    );
+
+    const files = generateClients(doc, defaultConfig);
+    const content = files.get('pets-client.ts')!;
+
+    expect(content).toContain('params?: { since?: string | null }');
+    expect(content).toContain('Promise<Pet[] | null>');
+    expect(content).toContain("import { Pet } from './types.js';");
+  });
+
+  test('const schemas become literal types', () => {
+    const doc = createDoc({
+      '/mode': {
+        get: {
+          tags: ['mode'],
+          operationId: 'getMode',
+          responses: {
+            '200': {
+              description: 'OK',
+              content: {'application/json': {schema: {const: 'on'} as OpenAPIV3.SchemaObject}},
+            },
+          },
+        },
+      },
+    });
+
+    const files = generateClients(doc, defaultConfig);
+    const content = files.get('mode-client.ts')!;
+
+    expect(content).toContain("Promise<'on'>");
+    expect(content).not.toContain('./types.js');
+  });
+});
+
 describe('getClientClassNames', () => {
   test('returns class names for all tags', () => {
     const doc = createDoc({
@@ -0,0 +1,170 @@
+import {describe, expect, test} from 'bun:test';
+import type {OpenAPIV3} from 'openapi-types';
+import {filterSpec, generateCode, prepareSpec} from '../../src/codegen/index.js';
+
+const jsonResponse = (ref: string): OpenAPIV3.ResponsesObject => ({
+  '200': {description: 'OK', content: {'application/json': {schema: {$ref: ref}}}},
+});
+
+const doc: OpenAPIV3.Document = {
+  openapi: '3.0.0',
+  info: {title: 'Shop', version: '1.0.0'},
+  paths: {
+    '/pets': {
+      get: {operationId: 'listPets', tags: ['pets'], responses: jsonResponse('#/components/schemas/PetList')},
+      post: {
+        operationId: 'createPet',
+        tags: ['pets'],
+        requestBody: {$ref: '#/components/requestBodies/NewPet'},
+        responses: jsonResponse('#/components/schemas/Pet'),
+      },
+    },
+    '/pets/{petId}': {
+      parameters: [{$ref: '#/components/parameters/PetId'}],
+      delete: {operationId: 'deletePet', tags: ['pets'], deprecated: true, responses: {'204': {description: 'Gone'}}},
+    },
+    '/admin/users': {
+      get: {
+        operationId: 'listUsers',
+        tags: ['admin'],
+        'x-internal': true,
+        responses: jsonResponse('#/components/schemas/User'),
+      } as OpenAPIV3.OperationObject,
+    },
+    '/store/orders': {
+      get: {operationId: 'listOrders', tags: ['store'], responses: jsonResponse('#/components/schemas/Order')},
+    },
+  },
+  components: {
+    parameters: {
+      PetId: {name: 'petId', in: 'path', required: true, schema: {$ref: '#/components/schemas/PetId'}},
+    },
+    requestBodies: {
+      NewPet: {content: {'application/json': {schema: {$ref: '#/components/schemas/NewPet'}}}},
+    },
+    schemas: {
+      PetId: {type: 'string'},
+      Pet: {
+        type: 'object',
+        properties: {id: {$ref: '#/components/schemas/PetId'}, kind: {$ref: '#/components/schemas/Kind'}},
+      },
+      PetList: {type: 'array', items: {$ref: '#/components/schemas/Pet'}},
+      NewPet: {type: 'object', properties: {name: {type: 'string'}}},
+      Kind: {
+        oneOf: [{$ref: '#/components/schemas/Cat'}],
+        discriminator: {propertyName: 'type', mapping: {dog: '#/components/schemas/Dog'}},
+      },
+      Cat: {type: 'object', properties: {type: {type: 'string'}}},
+      Dog: {type: 'object', properties: {type: {type: 'string'}}},
+      User: {type: 'object', properties: {email: {type: 'string'}}},
+      Order: {type: 'object', properties: {pet: {$ref: '#/components/schemas/Pet'}}},
+    },
+  },
+};
+
+/**
+ * List the operationIds left in a document.
+ */
+const getOperationIds = (spec: OpenAPIV3.Document): string[] =>
+  Object.values(spec.paths).flatMap((pathItem) =>
+    Object.values(pathItem ?? {}).flatMap((value) => (value as OpenAPIV3.OperationObject).operationId ?? []),
+  );
+
+describe('filterSpec', () => {
+  test('keeps operations matching every include criterion', () => {
+    const filtered = filterSpec(doc, {include: {tags: ['pets', 'admin'], methods: ['get']}});
+
+    expect(getOperationIds(filtered)).toEqual(['listPets', 'listUsers']);
+    expect(Object.keys(filtered.paths)).toEqual(['/pets', '/admin/users']);
+  });
+
+  test('removes operations matching any exclude criterion', () => {
+    const filtered = filterSpec(doc, {
+      exclude: {deprecated: true, extensions: {'x-internal': true}, operationIds: ['listOrders']},
+    });
+
+    expect(getOperationIds(filtered)).toEqual(['listPets', 'createPet']);
+  });
+
+  test('matches path globs', () => {
+    expect(getOperationIds(filterSpec(doc, {include: {paths: ['/pets/*']}}))).toEqual(['deletePet']);
+    expect(getOperationIds(filterSpec(doc, {include: {paths: ['/admin/**', '/store/**']}}))).toEqual([
+      'listUsers',
+      'listOrders',
+    ]);
+    expect(getOperationIds(filterSpec(doc, {exclude: {paths: ['/**']}}))).toEqual([]);
+  });
+
+  test('keeps only components the remaining operations use', () => {
+    const filtered = filterSpec(doc, {include: {operationIds: ['listPets', 'createPet']}});
+
+    expect(Object.keys(filtered.components!.schemas!).sort()).toEqual([
+      'Cat',
+      'Dog',
+      'Kind',
+      'NewPet',
+      'Pet',
+      'PetId',
+      'PetList',
+    ]);
+    expect(filtered.components!.parameters).toEqual({});
+    expect(Object.keys(filtered.components!.requestBodies!)).toEqual(['NewPet']);
+  });
+
+  test('follows refs through path parameters and other components', () => {
+    const filtered = filterSpec(doc, {include: {operationIds: ['deletePet']}});
+
+    expect(Object.keys(filtered.components!.schemas!)).toEqual(['PetId']);
+  });
+
+  test('keeps components used by webhooks', () => {
+    const withWebhooks = {
+      ...doc,
+      openapi: '3.1.0',
+      webhooks: {newPet: {post: {requestBody: {$ref: '#/components/requestBodies/NewPet'}, responses: {}}}},
+    } as OpenAPIV3.Document;
+
+    const filtered = filterSpec(withWebhooks, {include: {operationIds: ['deletePet']}});
+
+    expect(Object.keys(filtered.components!.schemas!).sort()).toEqual(['NewPet', 'PetId']);
+    expect(Object.keys(filtered.components!.requestBodies!)).toEqual(['NewPet']);
+  });
+
+  test('leaves the document untouched', () => {
+    const before = structuredClone(doc);
+
+    filterSpec(doc, {exclude: {tags: ['pets']}});
+
+    expect(doc).toEqual(before);
+  });
+});
+
+describe('generateCode with a filter', () => {
+  test('generates only the kept clients and types', () => {
+    const files = generateCode(doc, {filter: {include: {tags: ['store']}}});
+
+    expect([...files.keys()].filter((fileName) => fileName.endsWith('-client.ts'))).toEqual(['store-client.ts']);
+    expect(files.get('types.ts')).toContain('export interface Order {');
+    expect(files.get('types.ts')).not.toContain('export interface User {');
+    expect(files.get('index.ts')).not.toContain('PetsClient');
+  });
+});
+
+describe('prepareSpec', () => {
+  test('fills in default operationIds and tags before filtering', () => {
+    const spec: OpenAPIV3.Document = {
+      ...doc,
+      paths: {
+        '/health': {get: {responses: {'204': {description: 'OK'}}}},
+        '/pets/{petId}': {get: {operationId: 'getPet', tags: ['pets'], responses: {'204': {description: 'OK'}}}},
+      },
+    };
+
+    const prepared = prepareSpec(spec, {filter: {include: {tags: ['default']}}});
+
+    expect(prepared.paths).toEqual({
+      '/health': {get: {operationId: 'get_health', tags: ['default'], responses: {'204': {description: 'OK'}}}},
+    });
+    expect(spec.paths['/health']!.get!.operationId).toBeUndefined();
+  });
+});
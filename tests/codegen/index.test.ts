@@ -0,0 +1,167 @@
+import {afterEach, beforeEach, describe, expect, test} from 'bun:test';
+import {existsSync, mkdtempSync, readFileSync, rmSync, statSync, writeFileSync} from 'node:fs';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import {
+  checkGeneratedFiles,
+  MANIFEST_FILE,
+  ModifiedFilesError,
+  writeGeneratedFiles,
+  type GeneratedFiles,
+} from '../../src/codegen/index.js';
+
+describe('writeGeneratedFiles', () => {
+  let targetDir: string;
+
+  beforeEach(() => {
+    targetDir = mkdtempSync(join(tmpdir(), 'opencodegen-'));
+  });
+
+  afterEach(() => {
+    rmSync(targetDir, {recursive: true, force: true});
+  });
+
+  const files = (entries: Record<string, string>): GeneratedFiles => new Map(Object.entries(entries));
+
+  test('writes files and a manifest with their hashes', async () => {
+    const result = await writeGeneratedFiles(files({'types.ts': 'a', 'index.ts': 'b'}), targetDir);
+
+    expect(result).toEqual({written: ['types.ts', 'index.ts'], unchanged: [], deleted: []});
+    expect(readFileSync(join(targetDir, 'types.ts'), 'utf-8')).toBe('a');
+
+    const manifest = JSON.parse(readFileSync(join(targetDir, MANIFEST_FILE), 'utf-8'));
+    expect(Object.keys(manifest.files)).toEqual(['index.ts', 'types.ts']);
+    expect(manifest.files['types.ts']).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  test('skips files whose content has not changed', async () => {
+    await writeGeneratedFiles(files({'types.ts': 'a', 'index.ts': 'b'}), targetDir);
+    const mtime = statSync(join(targetDir, 'types.ts')).mtimeMs;
+
+    const result = await writeGeneratedFiles(files({'types.ts': 'a', 'index.ts': 'c'}), targetDir);
+
+    expect(result).toEqual({written: ['index.ts'], unchanged: ['types.ts'], deleted: []});
+    expect(statSync(join(targetDir, 'types.ts')).mtimeMs).toBe(mtime);
+  });
+
+  test('deletes files that are no longer generated', async () => {
+    await writeGeneratedFiles(files({'types.ts': 'a', 'pets-client.ts': 'b'}), targetDir);
+
+    const result = await writeGeneratedFiles(files({'types.ts': 'a'}), targetDir);
+
+    expect(result.deleted).toEqual(['pets-client.ts']);
+    expect(existsSync(join(targetDir, 'pets-client.ts'))).toBe(false);
+  });
+
+  test('leaves files it did not generate alone', async () => {
+    writeFileSync(join(targetDir, 'custom.ts'), 'mine');
+    await writeGeneratedFiles(files({'types.ts': 'a'}), targetDir);
+
+    await writeGeneratedFiles(files({'types.ts': 'b'}), targetDir);
+
+    expect(readFileSync(join(targetDir, 'custom.ts'), 'utf-8')).toBe('mine');
+  });
+
+  test('refuses to overwrite or delete hand-edited files', async () => {
+    await writeGeneratedFiles(files({'types.ts': 'a', 'pets-client.ts': 'b'}), targetDir);
+    writeFileSync(join(targetDir, 'types.ts'), 'edited');
+    writeFileSync(join(targetDir, 'pets-client.ts'), 'edited');
+
+    const promise = writeGeneratedFiles(files({'types.ts': 'changed'}), targetDir);
+
+    await expect(promise).rejects.toBeInstanceOf(ModifiedFilesError);
+    await expect(promise).rejects.toMatchObject({files: ['pets-client.ts', 'types.ts']});
+    expect(readFileSync(join(targetDir, 'types.ts'), 'utf-8')).toBe('edited');
+  });
+
+  test('overwrites hand-edited files when forced', async () => {
+    await writeGeneratedFiles(files({'types.ts': 'a'}), targetDir);
+    writeFileSync(join(targetDir, 'types.ts'), 'edited');
+
+    const result = await writeGeneratedFiles(files({'types.ts': 'a'}), targetDir, {force: true});
+
+    expect(result.written).toEqual(['types.ts']);
+    expect(readFileSync(join(targetDir, 'types.ts'), 'utf-8')).toBe('a');
+  });
+
+  test('overwrites existing files on the first run', async () => {
+    writeFileSync(join(targetDir, 'types.ts'), 'from an older version');
+
+    const result = await writeGeneratedFiles(files({'types.ts': 'a'}), targetDir);
+
+    expect(result.written).toEqual(['types.ts']);
+  });
+
+  test('never deletes files outside the target directory listed in the manifest', async () => {
+    const apiDir = join(targetDir, 'api');
+    await writeGeneratedFiles(files({'types.ts': 'a'}), apiDir);
+    writeFileSync(join(targetDir, 'outside.ts'), 'keep');
+    writeFileSync(join(targetDir, 'nested.ts'), 'keep');
+    const manifest = JSON.parse(readFileSync(join(apiDir, MANIFEST_FILE), 'utf-8'));
+    manifest.files['../outside.ts'] = 'hash';
+    manifest.files[join(targetDir, 'nested.ts')] = 'hash';
+    writeFileSync(join(apiDir, MANIFEST_FILE), JSON.stringify(manifest));
+
+    const result = await writeGeneratedFiles(files({'types.ts': 'b'}), apiDir);
+
+    expect(result.deleted).toEqual([]);
+    expect(readFileSync(join(targetDir, 'outside.ts'), 'utf-8')).toBe('keep');
+    expect(readFileSync(join(targetDir, 'nested.ts'), 'utf-8')).toBe('keep');
+  });
+});
+
+describe('checkGeneratedFiles', () => {
+  let targetDir: string;
+
+  beforeEach(() => {
+    targetDir = mkdtempSync(join(tmpdir(), 'opencodegen-'));
+  });
+
+  afterEach(() => {
+    rmSync(targetDir, {recursive: true, force: true});
+  });
+
+  test('returns no differences when files match', async () => {
+    writeFileSync(join(targetDir, 'types.ts'), 'export type A = string;\n');
+    const files: GeneratedFiles = new Map([['types.ts', 'export type A = string;\n']]);
+
+    expect(await checkGeneratedFiles(files, targetDir)).toEqual([]);
+  });
+
+  test('reports changed, missing and extra files', async () => {
+    writeFileSync(join(targetDir, 'types.ts'), 'export type A = number;\n');
+    writeFileSync(join(targetDir, 'old-client.ts'), 'export class OldClient {}\n');
+    writeFileSync(join(targetDir, 'README.md'), 'Not generated\n');
+    const manifest = {version: 1, files: {'types.ts': 'hash', 'old-client.ts': 'hash', 'deleted.ts': 'hash'}};
+    writeFileSync(join(targetDir, MANIFEST_FILE), JSON.stringify(manifest));
+    const files: GeneratedFiles = new Map([
+      ['types.ts', 'export type A = string;\n'],
+      ['index.ts', "export * from './types.js';\n"],
+    ]);
+
+    expect(await checkGeneratedFiles(files, targetDir)).toEqual([
+      {fileName: 'index.ts', status: 'missing', actual: '', expected: "export * from './types.js';\n"},
+      {fileName: 'old-client.ts', status: 'extra', actual: 'export class OldClient {}\n', expected: ''},
+      {fileName: 'types.ts', status: 'changed', actual: 'export type A = number;\n', expected: 'export type A = string;\n'},
+    ]);
+  });
+
+  test('does not report files that were not generated as extra', async () => {
+    writeFileSync(join(targetDir, 'types.ts'), 'export type A = string;\n');
+    writeFileSync(join(targetDir, 'helpers.ts'), 'export const helper = 1;\n');
+    const files: GeneratedFiles = new Map([['types.ts', 'export type A = string;\n']]);
+
+    expect(await checkGeneratedFiles(files, targetDir)).toEqual([]);
+
+    writeFileSync(join(targetDir, MANIFEST_FILE), JSON.stringify({version: 1, files: {'types.ts': 'hash'}}));
+    expect(await checkGeneratedFiles(files, targetDir)).toEqual([]);
+  });
+
+  test('reports every file as missing when the target does not exist', async () => {
+    const files: GeneratedFiles = new Map([['types.ts', '']]);
+
+    const differences = await checkGeneratedFiles(files, join(targetDir, 'missing'));
+
+    expect(differences.map((d) => d.status)).toEqual(['missing']);
+  });
+});
@@ -0,0 +1,107 @@
+import {describe, expect, test} from 'bun:test';
+import type {OpenAPIV3} from 'openapi-types';
+import {inspectSpec} from '../../src/codegen/index.js';
+
+const doc: OpenAPIV3.Document = {
+  openapi: '3.0.0',
+  info: {title: 'Shop', version: '1.0.0'},
+  paths: {
+    '/pets/{pet_id}': {
+      parameters: [{name: 'pet_id', in: 'path', required: true, schema: {type: 'string'}}],
+      put: {
+        operationId: 'updatePet',
+        tags: ['pets', 'admin'],
+        parameters: [
+          {name: 'dry_run', in: 'query', schema: {type: 'boolean'}},
+          {name: 'X-Trace', in: 'header', schema: {type: 'string'}},
+        ],
+        requestBody: {$ref: '#/components/requestBodies/Pet'},
+        responses: {'200': {$ref: '#/components/responses/Pet'}},
+      },
+    },
+    '/orders': {
+      get: {
+        deprecated: true,
+        responses: {
+          '200': {
+            description: 'OK',
+            content: {'application/json': {schema: {type: 'array', items: {$ref: '#/components/schemas/Order'}}}},
+          },
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Pet: {type: 'object', $defs: {tag: {type: 'string'}}} as OpenAPIV3.SchemaObject,
+      Order: {type: 'object'},
+      PetResponse: {type: 'string'},
+    },
+    responses: {
+      Pet: {description: 'OK', content: {'application/json': {schema: {$ref: '#/components/schemas/Pet'}}}},
+    },
+    requestBodies: {
+      Pet: {content: {'application/json': {schema: {$ref: '#/components/schemas/Pet'}}}},
+    },
+  },
+};
+
+describe('inspectSpec', () => {
+  test('lists operations with their client methods and types', () => {
+    const {operations} = inspectSpec(doc, {propertyNameStyle: 'camelCase', clientSuffix: 'Api'});
+
+    expect(operations).toEqual([
+      {
+        method: 'PUT',
+        path: '/pets/{pet_id}',
+        operationId: 'updatePet',
+        tags: ['pets', 'admin'],
+        deprecated: false,
+        clients: ['PetsApi', 'AdminApi'],
+        methodName: 'updatePet',
+        arguments: ['petId: string', 'body: PetRequestBody', 'params?: { dryRun?: boolean }'],
+        parameters: [
+          {name: 'petId', originalName: 'pet_id', type: 'string', required: true, in: 'path'},
+          {name: 'dryRun', originalName: 'dry_run', type: 'boolean', required: false, in: 'query'},
+          {name: 'X-Trace', originalName: 'X-Trace', type: 'string', required: false, in: 'header'},
+        ],
+        bodyType: 'PetRequestBody',
+        responseType: 'PetResponse2',
+      },
+      {
+        method: 'GET',
+        path: '/orders',
+        operationId: 'get_orders',
+        tags: ['default'],
+        deprecated: true,
+        clients: ['DefaultApi'],
+        methodName: 'get_orders',
+        arguments: [],
+        parameters: [],
+        bodyType: undefined,
+        responseType: 'Order[]',
+      },
+    ]);
+  });
+
+  test('lists schemas, shared responses and request bodies with their type names', () => {
+    const {schemas} = inspectSpec(doc, {});
+
+    expect(schemas).toEqual([
+      {ref: '#/components/schemas/Pet', typeName: 'Pet'},
+      {ref: '#/components/schemas/Pet/$defs/tag', typeName: 'PetTag'},
+      {ref: '#/components/schemas/Order', typeName: 'Order'},
+      {ref: '#/components/schemas/PetResponse', typeName: 'PetResponse'},
+      {ref: '#/components/responses/Pet', typeName: 'PetResponse2'},
+      {ref: '#/components/requestBodies/Pet', typeName: 'PetRequestBody'},
+    ]);
+  });
+
+  test('lists only the operations matching the filter and the schemas they use', () => {
+    const {operations, schemas} = inspectSpec(doc, {}, {tags: ['pets'], methods: ['put']});
+
+    expect(operations.map((op) => op.operationId)).toEqual(['updatePet']);
+    expect(operations[0].responseType).toBe('PetResponse2');
+    expect(schemas.map((schema) => schema.typeName)).toEqual(['Pet', 'PetTag', 'PetResponse2', 'PetRequestBody']);
+  });
+});
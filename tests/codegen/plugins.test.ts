@@ -0,0 +1,134 @@
+import {describe, expect, test} from 'bun:test';
+import type {OpenAPIV3} from 'openapi-types';
+import {definePlugin, generateCode} from '../../src/codegen/index.js';
+
+const createDoc = (): OpenAPIV3.Document => ({
+  openapi: '3.0.0',
+  info: {title: 'Pets', version: '1.0.0'},
+  paths: {
+    '/pets': {
+      get: {
+        operationId: 'listPets',
+        tags: ['pets'],
+        'x-internal': true,
+        responses: {
+          '200': {
+            description: 'OK',
+            content: {'application/json': {schema: {type: 'array', items: {$ref: '#/components/schemas/Pet'}}}},
+          },
+        },
+      } as OpenAPIV3.OperationObject,
+    },
+  },
+  components: {
+    schemas: {
+      Pet: {type: 'object', properties: {name: {type: 'string'}}},
+      Owner: {type: 'object', properties: {pet: {$ref: '#/components/schemas/Pet'}}},
+    },
+  },
+});
+
+describe('generateCode with plugins', () => {
+  test('transforms the spec before generating', () => {
+    const doc = createDoc();
+    const plugin = definePlugin({
+      name: 'add-tag',
+      transformSpec: (spec) => {
+        spec.paths['/pets']!.get!.tags = ['animals'];
+      },
+    });
+
+    const files = generateCode(doc, {plugins: [plugin]});
+
+    expect(files.has('animals-client.ts')).toBe(true);
+    expect(doc.paths['/pets']!.get!.tags).toEqual(['pets']);
+  });
+
+  test('renames schemas and the refs to them', () => {
+    const plugin = definePlugin({name: 'prefix', onSchema: (name) => ({name: `Api${name}`})});
+
+    const files = generateCode(createDoc(), {plugins: [plugin]});
+
+    expect(files.get('types.ts')).toContain('export interface ApiPet {');
+    expect(files.get('types.ts')).toContain('pet?: ApiPet;');
+    expect(files.get('pets-client.ts')).toContain('ApiPet[]');
+  });
+
+  test('allows schema names that are Object.prototype keys', () => {
+    const plugin = definePlugin({name: 'rename', onSchema: (name) => ({name: name === 'Pet' ? 'constructor' : name})});
+
+    const files = generateCode(createDoc(), {plugins: [plugin]});
+
+    expect(files.get('types.ts')).toContain('pet?: constructor;');
+  });
+
+  test('rejects plugins that give two schemas the same name', () => {
+    const plugin = definePlugin({name: 'rename', onSchema: () => ({name: 'Model'})});
+
+    expect(() => generateCode(createDoc(), {plugins: [plugin]})).toThrow(
+      'Two schemas are named "Model" after running plugins',
+    );
+  });
+
+  test('changes operations', () => {
+    const plugin = definePlugin({
+      name: 'vendor-extensions',
+      onOperation: ({operation}) => {
+        if ((operation as {'x-internal'?: boolean})['x-internal']) {
+          return {...operation, operationId: 'listPetsInternal'};
+        }
+      },
+    });
+
+    const files = generateCode(createDoc(), {plugins: [plugin]});
+
+    expect(files.get('pets-client.ts')).toContain('listPetsInternal(');
+  });
+
+  test('adds and renders files in plugin order with the resolved config', () => {
+    const calls: string[] = [];
+    const files = generateCode(createDoc(), {
+      codegen: {enumType: 'enum'},
+      plugins: [
+        definePlugin({
+          name: 'extra',
+          addFiles: ({config, document}) => {
+            calls.push('addFiles');
+            return {'meta.ts': `export const meta = '${document.info.title} ${config.codegen.dateType}';\n`};
+          },
+        }),
+        definePlugin({
+          name: 'banner',
+          renderFile: (fileName, content) => {
+            calls.push(`renderFile ${fileName}`);
+            return `// ${fileName}\n${content}`;
+          },
+        }),
+      ],
+    });
+
+    expect(files.get('meta.ts')).toBe("// meta.ts\nexport const meta = 'Pets string';\n");
+    expect(files.get('index.ts')).toStartWith('// index.ts\n');
+    expect(calls[0]).toBe('addFiles');
+    expect(calls).toContain('renderFile meta.ts');
+  });
+
+  test('names the plugin and hook in errors', () => {
+    const plugin = definePlugin({
+      name: 'broken',
+      onSchema: () => {
+        throw new Error('boom');
+      },
+    });
+
+    expect(() => generateCode(createDoc(), {plugins: [plugin]})).toThrow('Plugin "broken" failed in onSchema: boom');
+  });
+
+  test('rejects files that are already generated', () => {
+    const plugin = definePlugin({name: 'clash', addFiles: () => new Map([['types.ts', '']])});
+
+    expect(() => generateCode(createDoc(), {plugins: [plugin]})).toThrow(
+      'Plugin "clash" added types.ts, which is already generated',
+    );
+  });
+});
@@ -0,0 +1,135 @@
+import {afterEach, beforeEach, describe, expect, test} from 'bun:test';
+import {mkdtempSync, rmSync, writeFileSync} from 'node:fs';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import type {OpenAPIV3} from 'openapi-types';
+import {
+  generateCode,
+  getTemplateFiles,
+  loadTemplates,
+  type MethodModel,
+  type Templates,
+} from '../../src/codegen/index.js';
+
+const doc: OpenAPIV3.Document = {
+  openapi: '3.0.0',
+  info: {title: 'Pets', version: '1.0.0'},
+  paths: {
+    '/pets/{petId}': {
+      get: {
+        operationId: 'getPet',
+        tags: ['pets'],
+        summary: 'Get a pet',
+        parameters: [
+          {name: 'petId', in: 'path', required: true, schema: {type: 'string'}},
+          {name: 'fields', in: 'query', schema: {type: 'string'}},
+        ],
+        responses: {
+          '200': {description: 'OK', content: {'application/json': {schema: {$ref: '#/components/schemas/Pet'}}}},
+        },
+      },
+    },
+  },
+  components: {schemas: {Pet: {type: 'object', properties: {name: {type: 'string'}}}}},
+};
+
+describe('generateCode with templates', () => {
+  test('uses the header template in every file', () => {
+    const files = generateCode(doc, {templates: {header: ({fileName}) => `// Acme Corp - ${fileName}`}});
+
+    for (const [fileName, content] of files) {
+      expect(content).toStartWith(`// Acme Corp - ${fileName}\n`);
+    }
+  });
+
+  test('passes the method model and the built-in template', () => {
+    const models: MethodModel[] = [];
+    const templates: Templates = {
+      method: (model, builtIn) => {
+        models.push(model);
+        return `  /** ${model.operation.summary} */\n${builtIn(model)}`;
+      },
+    };
+
+    const files = generateCode(doc, {templates});
+
+    expect(models[0]).toMatchObject({
+      name: 'getPet',
+      httpMethod: 'GET',
+      path: '/pets/{petId}',
+      pathParameters: [{name: 'petId', originalName: 'petId', type: 'string', required: true}],
+      queryParameters: [{name: 'fields', type: 'string', required: false}],
+      queryType: '{ fields?: string }',
+      responseType: 'Pet',
+    });
+    expect(files.get('pets-client.ts')).toContain('  /** Get a pet */\n  async getPet(petId: string');
+  });
+
+  test('overrides the client, base and index files', () => {
+    const files = generateCode(doc, {
+      codegen: {clientSuffix: 'Api'},
+      templates: {
+        client: ({className, baseClassName, typeImports, methods}) =>
+          `class ${className} extends ${baseClassName} {} // ${typeImports.join(',')} ${methods.length}\n`,
+        base: ({className}) => `export class ${className} {}\n`,
+        index: ({clients}) => clients.map((client) => `export * from './${client.fileName}.js';`).join('\n'),
+      },
+    });
+
+    expect(files.get('pets-client.ts')).toBe('class PetsApi extends BaseApi {} // Pet 1\n');
+    expect(files.get('base.ts')).toBe('export class BaseApi {}\n');
+    expect(files.get('index.ts')).toBe("export * from './pets-client.js';");
+  });
+
+  test('requires template files to be loaded first', () => {
+    expect(() => generateCode(doc, {templates: {base: './base.ts'}})).toThrow(
+      'Template "base" is a file path (./base.ts); load it with loadTemplates first',
+    );
+  });
+});
+
+describe('loadTemplates', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'opencodegen-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, {recursive: true, force: true});
+  });
+
+  test('imports template files relative to a directory', async () => {
+    writeFileSync(join(dir, 'header.ts'), 'export default ({fileName}) => `// ${fileName}`;\n');
+    const index = () => '';
+
+    const templates = await loadTemplates({header: './header.ts', index}, dir);
+
+    expect(templates.index).toBe(index);
+    expect(generateCode(doc, {templates}).get('types.ts')).toStartWith('// types.ts\n');
+  });
+
+  test('rejects a template file without a default function', async () => {
+    writeFileSync(join(dir, 'base.ts'), 'export const base = 1;\n');
+
+    await expect(loadTemplates({base: './base.ts'}, dir)).rejects.toThrow('must default-export a function');
+  });
+
+  test('imports changed template files again when reloading', async () => {
+    const header = join(dir, 'header.ts');
+    writeFileSync(header, 'export default () => `// first`;\n');
+    await loadTemplates({header: './header.ts'}, dir);
+
+    writeFileSync(header, 'export default () => `// second`;\n');
+    const templates = await loadTemplates({header: './header.ts'}, dir, true);
+
+    expect(generateCode(doc, {templates}).get('types.ts')).toStartWith('// second\n');
+  });
+
+  test('lists the template files', () => {
+    expect(getTemplateFiles({header: './header.ts', index: () => '', base: 'templates/base.ts'}, dir)).toEqual([
+      join(dir, 'header.ts'),
+      join(dir, 'templates/base.ts'),
+    ]);
+  });
+});
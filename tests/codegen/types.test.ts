@@ -900,6 +900,153 @@ describe('circular refs', () => {
   });
 });
 
+describe('OpenAPI 3.1', () => {
+  // 3.1 keywords aren't in the 3.0 typings, so schemas are built loosely
+  const create31Doc = (schemas: Record<string, unknown>): OpenAPIV3.Document => ({
+    openapi: '3.1.0',
+    info: {title: 'Test', version: '1.0.0'},
+    paths: {},
+    components: {schemas: schemas as Record<string, OpenAPIV3.SchemaObject>},
+  });
+
+  test('type arrays with null become nullable unions', () => {
+    const doc = create31Doc({
+      User: {
+        type: 'object',
+        properties: {
+          name: {type: ['string', 'null']},
+          age: {type: ['integer', 'string']},
+        },
+      },
+    });
+
+    const result = generateTypes(doc, defaultConfig);
+
+    expect(result).toContain('name?: string | null;');
+    expect(result).toContain('age?: number | string;');
+  });
+
+  test('type arrays respect nullableType config', () => {
+    const doc = create31Doc({
+      User: {type: 'object', properties: {name: {type: ['string', 'null']}}},
+    });
+
+    const result = generateTypes(doc, {...defaultConfig, nullableType: 'undefined'});
+
+    expect(result).toContain('name?: string | undefined;');
+  });
+
+  test('nullable array items are parenthesized', () => {
+    const doc = create31Doc({
+      Tags: {type: 'array', items: {type: ['string', 'null']}},
+    });
+
+    const result = generateTypes(doc, defaultConfig);
+
+    expect(result).toContain('export type Tags = (string | null)[];');
+  });
+
+  test('top-level type arrays generate type aliases', () => {
+    const doc = create31Doc({
+      MaybeName: {type: ['string', 'null']},
+    });
+
+    const result = generateTypes(doc, defaultConfig);
+
+    expect(result).toContain('export type MaybeName = string | null;');
+  });
+
+  test('const becomes a literal type', () => {
+    const doc = create31Doc({
+      Dog: {
+        type: 'object',
+        required: ['kind'],
+        properties: {
+          kind: {const: 'dog'},
+          legs: {const: 4},
+          good: {const: true},
+        },
+      },
+      Version: {const: 'v1'},
+    });
+
+    const result = generateTypes(doc, defaultConfig);
+
+    expect(result).toContain("kind: 'dog';");
+    expect(result).toContain('legs?: 4;');
+    expect(result).toContain('good?: true;');
+    expect(result).toContain("export type Version = 'v1';");
+  });
+
+  test('enum with null adds null to the union', () => {
+    const doc = create31Doc({
+      User: {
+        type: 'object',
+        properties: {
+          status: {type: ['string', 'null'], enum: ['active', 'inactive', null]},
+        },
+      },
+    });
+
+    const result = generateTypes(doc, defaultConfig);
+
+    expect(result).toContain('status?: UserStatus | null;');
+    expect(result).not.toContain('Null');
+  });
+
+  test('prefixItems become tuple types', () => {
+    const doc = create31Doc({
+      Point: {type: 'array', prefixItems: [{type: 'number'}, {type: 'number'}], items: false},
+      Row: {type: 'array', prefixItems: [{type: 'string'}], items: {type: 'integer'}},
+    });
+
+    const result = generateTypes(doc, defaultConfig);
+
+    expect(result).toContain('export type Point = [number, number];');
+    expect(result).toContain('export type Row = [string, ...number[]];');
+  });
+
+  test('type null maps to null', () => {
+    const doc = create31Doc({
+      Pet: {type: 'object', properties: {name: {type: 'string'}}},
+      MaybePet: {oneOf: [{$ref: '#/components/schemas/Pet'}, {type: 'null'}]},
+    });
+
+    const result = generateTypes(doc, defaultConfig);
+
+    expect(result).toContain('export type MaybePet = Pet | null;');
+  });
+
+  test('generates types for $defs and resolves refs to them', () => {
+    const doc = create31Doc({
+      Pet: {
+        type: 'object',
+        properties: {
+          tag: {$ref: '#/components/schemas/Pet/$defs/tag'},
+        },
+        $defs: {
+          tag: {type: 'object', properties: {label: {type: 'string'}}},
+        },
+      },
+    });
+
+    const result = generateTypes(doc, defaultConfig);
+
+    expect(result).toContain('tag?: PetTag;');
+    expect(result).toContain('export interface PetTag {');
+  });
+
+  test('ignores examples arrays', () => {
+    const doc = create31Doc({
+      User: {type: 'object', properties: {name: {type: 'string', examples: ['Ada', 'Grace']}}},
+    });
+
+    const result = generateTypes(doc, defaultConfig);
+
+    expect(result).toContain('name?: string;');
+  });
+});
+
 describe('generateTypes', () => {
   test('generates header comment', () => {
     const doc = createDoc({
@@ -973,4 +1120,57 @@ describe('generateTypes', () => {
     // Default enumType is 'constObject'
     expect(result).toContain('export const UserStatus = {');
   });
+
+  test('generates named types for component responses and request bodies', () => {
+    const doc: OpenAPIV3.Document = {
+      ...createDoc({Pet: {type: 'object', properties: {name: {type: 'string'}}}}),
+      components: {
+        schemas: {
+          Pet: {type: 'object', properties: {name: {type: 'string'}}},
+          ErrorResponse: {type: 'object', properties: {message: {type: 'string'}}},
+        },
+        responses: {
+          PetList: {
+            description: 'Pets',
+            content: {'application/json': {schema: {type: 'array', items: {$ref: '#/components/schemas/Pet'}}}},
+          },
+          ErrorResponse: {
+            description: 'Error',
+            content: {'application/json': {schema: {$ref: '#/components/schemas/ErrorResponse'}}},
+          },
+          NotFound: {$ref: '#/components/responses/ErrorResponse'},
+          NoContent: {description: 'Nothing'},
+        },
+        requestBodies: {
+          'new-pet': {
+            content: {'application/json': {schema: {type: 'object', properties: {name: {type: 'string'}}}}},
+          },
+        },
+      },
+    };
+
+    const result = generateTypes(doc, defaultConfig);
+
+    expect(result).toContain('// Responses and request bodies');
+    expect(result).toContain('export type PetListResponse = Pet[];');
+    expect(result).toContain('export type NotFoundResponse = ErrorResponse;');
+    expect(result).toContain('export interface NewPetRequestBody {\n  name?: string;\n}');
+    expect(result).not.toContain('export type ErrorResponse =');
+    expect(result).not.toContain('NoContentResponse');
+  });
+
+  test('numbers component body types whose name is taken by a schema', () => {
+    const doc: OpenAPIV3.Document = {
+      ...createDoc({PetResponse: {type: 'object', properties: {id: {type: 'string'}}}}),
+      paths: {},
+    };
+    doc.components!.responses = {
+      Pet: {description: 'Pet', content: {'application/json': {schema: {type: 'string'}}}},
+    };
+
+    const result = generateTypes(doc, defaultConfig);
+
+    expect(result).toContain('export interface PetResponse {');
+    expect(result).toContain('export type PetResponse2 = string;');
+  });
 });
@@ -0,0 +1,52 @@
+import {afterEach, beforeEach, describe, expect, test} from 'bun:test';
+import {mkdirSync, mkdtempSync, rmSync, writeFileSync} from 'node:fs';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import {findConfigFile} from '../../src/config/discovery.js';
+
+describe('findConfigFile', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'opencodegen-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, {recursive: true, force: true});
+  });
+
+  test('finds a config file in the start directory', () => {
+    writeFileSync(join(dir, 'opencodegen.config.yaml'), 'source: ./api.yaml\n');
+
+    expect(findConfigFile(dir)).toBe(join(dir, 'opencodegen.config.yaml'));
+  });
+
+  test('prefers formats in order', () => {
+    writeFileSync(join(dir, 'opencodegen.config.json'), '{}');
+    writeFileSync(join(dir, 'opencodegen.config.mjs'), 'export default {};');
+    writeFileSync(join(dir, 'package.json'), JSON.stringify({opencodegen: {}}));
+
+    expect(findConfigFile(dir)).toBe(join(dir, 'opencodegen.config.mjs'));
+  });
+
+  test('walks up to parent directories', () => {
+    const nested = join(dir, 'packages', 'web');
+    mkdirSync(nested, {recursive: true});
+    writeFileSync(join(dir, 'opencodegen.config.ts'), 'export default {};');
+
+    expect(findConfigFile(nested)).toBe(join(dir, 'opencodegen.config.ts'));
+  });
+
+  test('uses a package.json only if it has an opencodegen key', () => {
+    const nested = join(dir, 'packages', 'web');
+    mkdirSync(nested, {recursive: true});
+    writeFileSync(join(nested, 'package.json'), JSON.stringify({name: 'web'}));
+    writeFileSync(join(dir, 'package.json'), JSON.stringify({name: 'root', opencodegen: {}}));
+
+    expect(findConfigFile(nested)).toBe(join(dir, 'package.json'));
+  });
+
+  test('returns undefined if no config is found', () => {
+    expect(findConfigFile(dir)).toBeUndefined();
+  });
+});
@@ -0,0 +1,60 @@
+import {describe, expect, test} from 'bun:test';
+import {expandConfigEnv, expandEnv} from '../../src/config/env.js';
+
+const env = {API_HOST: 'api.example.com', API_TOKEN: 'secret'};
+
+describe('expandEnv', () => {
+  test('replaces references with environment variables', () => {
+    expect(expandEnv('https://${API_HOST}/openapi.json', 'source', env)).toBe('https://api.example.com/openapi.json');
+  });
+
+  test('leaves strings without references unchanged', () => {
+    expect(expandEnv('./openapi.yaml', 'source', env)).toBe('./openapi.yaml');
+  });
+
+  test('throws for a variable that is not set', () => {
+    expect(() => expandEnv('Bearer ${MISSING}', 'sourceOptions.headers.Authorization', env)).toThrow(
+      'Environment variable MISSING is not set (used in "sourceOptions.headers.Authorization")',
+    );
+  });
+});
+
+describe('expandConfigEnv', () => {
+  test('expands source, target and source options', () => {
+    const config = expandConfigEnv(
+      {
+        source: 'https://${API_HOST}/openapi.json',
+        target: './src/${API_HOST}',
+        sourceOptions: {headers: {Authorization: 'Bearer ${API_TOKEN}'}, timeout: 1000},
+      },
+      env,
+    );
+
+    expect(config).toEqual({
+      source: 'https://api.example.com/openapi.json',
+      target: './src/api.example.com',
+      sourceOptions: {headers: {Authorization: 'Bearer secret'}, timeout: 1000},
+    });
+  });
+
+  test('expands every project and the shared source options', () => {
+    const config = expandConfigEnv(
+      {
+        sourceOptions: {headers: {Authorization: 'Bearer ${API_TOKEN}'}},
+        projects: [{name: 'a', source: 'https://${API_HOST}/a.json', target: './a'}],
+      },
+      env,
+    );
+
+    expect(config).toEqual({
+      sourceOptions: {headers: {Authorization: 'Bearer secret'}},
+      projects: [{name: 'a', source: 'https://api.example.com/a.json', target: './a'}],
+    });
+  });
+
+  test('reports where a missing variable is used', () => {
+    expect(() => expandConfigEnv({projects: [{name: 'a', source: '${MISSING}', target: './a'}]}, env)).toThrow(
+      '"projects[0].source"',
+    );
+  });
+});
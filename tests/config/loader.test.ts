@@ -1,33 +1,49 @@
-import {describe, expect, test} from 'bun:test';
+import {afterEach, beforeEach, describe, expect, test} from 'bun:test';
+import {mkdtempSync, rmSync, writeFileSync} from 'node:fs';
+import {tmpdir} from 'node:os';
 import {join} from 'node:path';
 import {loadConfig} from '../../src/config/loader.js';
+import type {MultiProjectConfig, ProjectConfig} from '../../src/config/schema.js';
 
 // Path to test fixtures
 const fixturesDir = join(import.meta.dir, '../fixtures');
 
+/**
+ * Load a config that is known to be a single project.
+ */
+const loadProjectConfig = async (...args: Parameters<typeof loadConfig>): Promise<ProjectConfig> => {
+  return (await loadConfig(...args)) as ProjectConfig;
+};
+
 describe('loadConfig', () => {
   test('loads TypeScript config file', async () => {
-    const config = await loadConfig(join(fixturesDir, 'valid.config.ts'));
+    const config = await loadProjectConfig(join(fixturesDir, 'valid.config.ts'));
 
     expect(config.source).toBe('./api.yaml');
     expect(config.target).toBe('./generated');
-    expect(config.codegen.enumType).toBe('union');
+    expect(config.codegen?.enumType).toBe('union');
   });
 
   test('loads JavaScript config file', async () => {
-    const config = await loadConfig(join(fixturesDir, 'valid.config.js'));
+    const config = await loadProjectConfig(join(fixturesDir, 'valid.config.js'));
 
     expect(config.source).toBe('./api.json');
     expect(config.target).toBe('./output');
   });
 
   test('loads config with defineConfig helper', async () => {
-    const config = await loadConfig(join(fixturesDir, 'with-define-config.ts'));
+    const config = await loadProjectConfig(join(fixturesDir, 'with-define-config.ts'));
 
     expect(config.source).toBeDefined();
     expect(config.target).toBeDefined();
   });
 
+  test('loads config with projects', async () => {
+    const config = (await loadConfig(join(fixturesDir, 'with-projects.ts'))) as MultiProjectConfig;
+
+    expect(config.projects.map((project) => project.name)).toEqual(['pets', 'store']);
+  });
+
   test('throws for missing default export', async () => {
     await expect(loadConfig(join(fixturesDir, 'no-default-export.ts'))).rejects.toThrow(
       'Config file must have a default export',
@@ -37,4 +53,121 @@ describe('loadConfig', () => {
   test('throws for non-existent file', async () => {
     await expect(loadConfig(join(fixturesDir, 'non-existent.config.ts'))).rejects.toThrow();
   });
+
+  test('throws for an invalid config', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'opencodegen-'));
+    const configPath = join(dir, 'opencodegen.config.ts');
+
+    try {
+      writeFileSync(
+        configPath,
+        "export default {source: './api.yaml', target: './out', codegen: {enumType: 'unions'}};",
+      );
+
+      await expect(loadConfig(configPath)).rejects.toThrow('Did you mean "union"?');
+    } finally {
+      rmSync(dir, {recursive: true, force: true});
+    }
+  });
+
+  describe('config formats', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'opencodegen-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, {recursive: true, force: true});
+    });
+
+    test('loads a JSON config file', async () => {
+      const configPath = join(dir, 'opencodegen.config.json');
+      writeFileSync(configPath, JSON.stringify({source: './api.yaml', target: './out', codegen: {enumType: 'union'}}));
+
+      const config = await loadProjectConfig(configPath);
+
+      expect(config.source).toBe('./api.yaml');
+      expect(config.codegen?.enumType).toBe('union');
+    });
+
+    test('loads a YAML config file', async () => {
+      const configPath = join(dir, 'opencodegen.config.yaml');
+      writeFileSync(configPath, 'source: ./api.yaml\ntarget: ./out\ncodegen:\n  dateType: Date\n');
+
+      const config = await loadProjectConfig(configPath);
+
+      expect(config.target).toBe('./out');
+      expect(config.codegen?.dateType).toBe('Date');
+    });
+
+    test('loads the opencodegen key from package.json', async () => {
+      const configPath = join(dir, 'package.json');
+      writeFileSync(configPath, JSON.stringify({name: 'app', opencodegen: {source: './api.yaml', target: './out'}}));
+
+      expect((await loadProjectConfig(configPath)).source).toBe('./api.yaml');
+    });
+
+    test('loads .mjs and .cjs config files', async () => {
+      writeFileSync(join(dir, 'opencodegen.config.mjs'), "export default {source: './a.yaml', target: './out'};");
+      writeFileSync(join(dir, 'opencodegen.config.cjs'), "module.exports = {source: './b.yaml', target: './out'};");
+
+      expect((await loadProjectConfig(join(dir, 'opencodegen.config.mjs'))).source).toBe('./a.yaml');
+      expect((await loadProjectConfig(join(dir, 'opencodegen.config.cjs'))).source).toBe('./b.yaml');
+    });
+
+    test('throws for invalid JSON', async () => {
+      const configPath = join(dir, 'opencodegen.config.json');
+      writeFileSync(configPath, '{source: ');
+
+      await expect(loadConfig(configPath)).rejects.toThrow('Invalid JSON');
+    });
+
+    test('throws for a package.json without an opencodegen key', async () => {
+      const configPath = join(dir, 'package.json');
+      writeFileSync(configPath, JSON.stringify({name: 'app'}));
+
+      await expect(loadConfig(configPath)).rejects.toThrow('package.json has no "opencodegen" key');
+    });
+  });
+
+  test('reloads a changed config file when asked to', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'opencodegen-'));
+    const configPath = join(dir, 'opencodegen.config.ts');
+
+    try {
+      writeFileSync(configPath, "export default {source: './v1.yaml', target: './out', codegen: {}};");
+      await loadConfig(configPath);
+
+      writeFileSync(configPath, "export default {source: './v2.yaml', target: './out', codegen: {}};");
+
+      expect((await loadProjectConfig(configPath)).source).toBe('./v1.yaml');
+      expect((await loadProjectConfig(configPath, {reload: true})).source).toBe('./v2.yaml');
+    } finally {
+      rmSync(dir, {recursive: true, force: true});
+    }
+  });
+
+  test('keeps the reloaded version of ES and CommonJS configs', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'opencodegen-'));
+    const esmPath = join(dir, 'opencodegen.config.mjs');
+    const cjsPath = join(dir, 'opencodegen.config.cjs');
+    const write = (version: string) => {
+      writeFileSync(esmPath, `export default {source: './${version}.yaml', target: './out'};`);
+      writeFileSync(cjsPath, `module.exports = {source: './${version}.yaml', target: './out'};`);
+    };
+
+    try {
+      for (const configPath of [esmPath, cjsPath]) {
+        write('v1');
+        await loadConfig(configPath);
+        write('v2');
+
+        expect((await loadProjectConfig(configPath, {reload: true})).source).toBe('./v2.yaml');
+        expect((await loadProjectConfig(configPath)).source).toBe('./v2.yaml');
+      }
+    } finally {
+      rmSync(dir, {recursive: true, force: true});
+    }
+  });
 });
@@ -0,0 +1,56 @@
+import {describe, expect, test} from 'bun:test';
+import {applyPatch, parseSetEntries} from '../../src/config/overrides.js';
+
+describe('parseSetEntries', () => {
+  test('parses dotted keys into nested values', () => {
+    expect(parseSetEntries(['codegen.enumType=union', 'codegen.dateType=Date', 'target=./out'])).toEqual({
+      codegen: {enumType: 'union', dateType: 'Date'},
+      target: './out',
+    });
+  });
+
+  test('keeps everything after the first = as the value', () => {
+    expect(parseSetEntries(['source=https://example.com/openapi.json?version=2'])).toEqual({
+      source: 'https://example.com/openapi.json?version=2',
+    });
+  });
+
+  test('lets later entries win', () => {
+    expect(parseSetEntries(['codegen.enumType=enum', 'codegen.enumType=union'])).toEqual({
+      codegen: {enumType: 'union'},
+    });
+  });
+
+  test('throws for entries without a key or value', () => {
+    expect(() => parseSetEntries(['codegen.enumType'])).toThrow('expected key=value');
+    expect(() => parseSetEntries(['=union'])).toThrow('expected key=value');
+    expect(() => parseSetEntries(['codegen..enumType=union'])).toThrow('expected key=value');
+  });
+
+  test('throws for keys that would change Object.prototype', () => {
+    expect(() => parseSetEntries(['__proto__.polluted=yes'])).toThrow('"__proto__" can\'t be set');
+    expect(() => parseSetEntries(['codegen.constructor.prototype.polluted=yes'])).toThrow(
+      '"constructor" can\'t be set',
+    );
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+});
+
+describe('applyPatch', () => {
+  test('merges nested objects and replaces other values', () => {
+    const project = {source: './a.yaml', target: './a', codegen: {enumType: 'enum', dateType: 'Date'}};
+
+    expect(applyPatch(project, {target: './b', codegen: {enumType: 'union'}})).toEqual({
+      source: './a.yaml',
+      target: './b',
+      codegen: {enumType: 'union', dateType: 'Date'},
+    });
+  });
+
+  test('does not modify the original', () => {
+    const project = {codegen: {enumType: 'enum'}};
+    applyPatch(project, {codegen: {enumType: 'union'}});
+
+    expect(project.codegen.enumType).toBe('enum');
+  });
+});
@@ -0,0 +1,35 @@
+import {describe, expect, test} from 'bun:test';
+import {getProjects, isMultiProjectConfig} from '../../src/config/projects.js';
+
+describe('getProjects', () => {
+  test('returns a single-project config as the only project', () => {
+    const config = {source: './api.yaml', target: './out', codegen: {enumType: 'union' as const}};
+
+    expect(isMultiProjectConfig(config)).toBe(false);
+    expect(getProjects(config)).toEqual([config]);
+  });
+
+  test('merges shared codegen options into each project', () => {
+    const projects = getProjects({
+      codegen: {enumType: 'union', dateType: 'Date'},
+      projects: [
+        {name: 'a', source: './a.yaml', target: './a'},
+        {name: 'b', source: './b.yaml', target: './b', codegen: {dateType: 'string'}},
+      ],
+    });
+
+    expect(projects.map((project) => project.codegen)).toEqual([
+      {enumType: 'union', dateType: 'Date'},
+      {enumType: 'union', dateType: 'string'},
+    ]);
+  });
+
+  test('merges shared lint rules into each project', () => {
+    const [project] = getProjects({
+      lint: {rules: {'operation-id': 'error', 'operation-tags': 'off'}},
+      projects: [{name: 'a', source: './a.yaml', target: './a', lint: {rules: {'operation-tags': 'warning'}}}],
+    });
+
+    expect(project.lint?.rules).toEqual({'operation-id': 'error', 'operation-tags': 'warning'});
+  });
+});
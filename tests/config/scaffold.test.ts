@@ -0,0 +1,131 @@
+import {afterEach, beforeEach, describe, expect, test} from 'bun:test';
+import {mkdirSync, mkdtempSync, rmSync, writeFileSync} from 'node:fs';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import {CODEGEN_OPTIONS, detectSpecFiles, getConfigFileFormat, renderConfigFile} from '../../src/config/scaffold.js';
+import type {ProjectConfig} from '../../src/config/schema.js';
+
+describe('detectSpecFiles', () => {
+  let projectDir: string;
+
+  beforeEach(() => {
+    projectDir = mkdtempSync(join(tmpdir(), 'opencodegen-'));
+  });
+
+  afterEach(() => {
+    rmSync(projectDir, {recursive: true, force: true});
+  });
+
+  test('finds common spec file names, root directory first', () => {
+    mkdirSync(join(projectDir, 'docs'));
+    writeFileSync(join(projectDir, 'docs', 'openapi.json'), '{}');
+    writeFileSync(join(projectDir, 'swagger.yaml'), '');
+    writeFileSync(join(projectDir, 'openapi.yml'), '');
+
+    expect(detectSpecFiles(projectDir)).toEqual(['./openapi.yml', './swagger.yaml', './docs/openapi.json']);
+  });
+
+  test('returns an empty list when nothing is found', () => {
+    writeFileSync(join(projectDir, 'package.json'), '{}');
+
+    expect(detectSpecFiles(projectDir)).toEqual([]);
+  });
+});
+
+describe('renderConfigFile', () => {
+  test('renders a config using defineConfig', () => {
+    const content = renderConfigFile({
+      source: './openapi.yaml',
+      target: './src/api',
+      codegen: {
+        dateType: 'Date',
+        enumType: 'union',
+        propertyNameStyle: 'camelCase',
+        nullableType: 'null',
+        clientSuffix: 'Api',
+      },
+    });
+
+    expect(content).toBe(
+      [
+        "import {defineConfig} from 'opencodegen';",
+        '',
+        'export default defineConfig({',
+        "  source: './openapi.yaml',",
+        "  target: './src/api',",
+        '  codegen: {',
+        "    dateType: 'Date',",
+        "    enumType: 'union',",
+        "    propertyNameStyle: 'camelCase',",
+        "    nullableType: 'null',",
+        "    clientSuffix: 'Api',",
+        '  },',
+        '});',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  test('escapes quotes in paths', () => {
+    const content = renderConfigFile({
+      source: "./it's/openapi.yaml",
+      target: './out',
+      codegen: {dateType: 'string', enumType: 'union', propertyNameStyle: 'original', nullableType: 'null'},
+    });
+
+    expect(content).toContain("source: './it\\'s/openapi.yaml',");
+    expect(content).not.toContain('clientSuffix');
+  });
+
+  test('renders JSON and YAML configs', () => {
+    const config: ProjectConfig = {
+      source: './openapi.yaml',
+      target: './src/api',
+      codegen: {clientSuffix: 'Api', dateType: 'Date'},
+    };
+
+    expect(renderConfigFile(config, 'json')).toBe(
+      [
+        '{',
+        '  "source": "./openapi.yaml",',
+        '  "target": "./src/api",',
+        '  "codegen": {',
+        '    "dateType": "Date",',
+        '    "clientSuffix": "Api"',
+        '  }',
+        '}',
+        '',
+      ].join('\n'),
+    );
+    expect(renderConfigFile(config, 'yaml')).toBe(
+      'source: ./openapi.yaml\ntarget: ./src/api\ncodegen:\n  dateType: Date\n  clientSuffix: Api\n',
+    );
+  });
+});
+
+describe('getConfigFileFormat', () => {
+  test('picks the format from the extension', () => {
+    expect(getConfigFileFormat('/app/opencodegen.config.ts')).toBe('module');
+    expect(getConfigFileFormat('/app/opencodegen.config.mjs')).toBe('module');
+    expect(getConfigFileFormat('/app/opencodegen.config.json')).toBe('json');
+    expect(getConfigFileFormat('/app/opencodegen.config.yml')).toBe('yaml');
+  });
+
+  test('rejects files that a config module or data file cannot be written to', () => {
+    expect(getConfigFileFormat('/app/package.json')).toBeUndefined();
+    expect(getConfigFileFormat('/app/opencodegen.config.cjs')).toBeUndefined();
+    expect(getConfigFileFormat('/app/opencodegen.config')).toBeUndefined();
+  });
+});
+
+describe('CODEGEN_OPTIONS', () => {
+  test('defaults match the documented CodegenConfig defaults', () => {
+    expect(Object.fromEntries(CODEGEN_OPTIONS.map((option) => [option.key, option.default]))).toEqual({
+      dateType: 'string',
+      enumType: 'constObject',
+      propertyNameStyle: 'original',
+      nullableType: 'null',
+      clientSuffix: 'Client',
+    });
+  });
+});
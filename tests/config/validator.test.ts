@@ -0,0 +1,225 @@
+import {describe, expect, test} from 'bun:test';
+import {
+  assertValidConfig,
+  coerceProjectPatch,
+  ConfigValidationError,
+  validateConfig,
+  validateProjectPatch,
+} from '../../src/config/validator.js';
+
+describe('validateConfig', () => {
+  test('accepts a config without a codegen block', () => {
+    expect(validateConfig({source: './openapi.yaml', target: './src/api'})).toEqual([]);
+  });
+
+  test('accepts a full config', () => {
+    const config = {
+      source: './openapi.yaml',
+      target: './src/api',
+      codegen: {
+        dateType: 'Date',
+        enumType: 'union',
+        propertyNameStyle: 'camelCase',
+        nullableType: 'undefined',
+        methodNameStyle: 'operationId',
+        clientSuffix: 'Api',
+      },
+      lint: {rules: {'operation-tags': 'off', 'operation-id': 'error'}},
+    };
+
+    expect(validateConfig(config)).toEqual([]);
+  });
+
+  test('reports missing required fields', () => {
+    const issues = validateConfig({codegen: {}});
+
+    expect(issues.map((issue) => issue.path)).toEqual(['source', 'target']);
+    expect(issues[0].message).toBe('Missing required option "source"');
+  });
+
+  test('reports invalid enum values with a suggestion', () => {
+    const issues = validateConfig({source: 'a.yaml', target: 'out', codegen: {enumType: 'unions'}});
+
+    expect(issues).toEqual([
+      {
+        path: 'codegen.enumType',
+        message:
+          'Invalid value "unions" for "codegen.enumType", expected one of "constObject", "union", "enum". Did you mean "union"?',
+      },
+    ]);
+  });
+
+  test('reports unknown keys with a suggestion', () => {
+    const issues = validateConfig({source: 'a.yaml', target: 'out', codegen: {enumTyp: 'union'}, srouce: 'b.yaml'});
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      'Unknown option "srouce". Did you mean "source"?',
+      'Unknown option "codegen.enumTyp". Did you mean "enumType"?',
+    ]);
+  });
+
+  test('omits the suggestion when nothing is close', () => {
+    const issues = validateConfig({source: 'a.yaml', target: 'out', output: './dist'});
+
+    expect(issues[0].message).toBe('Unknown option "output"');
+  });
+
+  test('reports wrong types', () => {
+    const issues = validateConfig({source: 42, target: 'out', codegen: 'union', lint: {rules: {'operation-id': true}}});
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      '"source" must be a string, got a number',
+      '"codegen" must be an object, got a string',
+      '"lint.rules.operation-id" must be one of "error", "warning", "off", got a boolean',
+    ]);
+  });
+
+  test('accepts a config with projects', () => {
+    const config = {
+      codegen: {enumType: 'union'},
+      projects: [
+        {name: 'a', source: './a.yaml', target: './a'},
+        {name: 'b', source: './b.yaml', target: './b', codegen: {dateType: 'Date'}},
+      ],
+    };
+
+    expect(validateConfig(config)).toEqual([]);
+  });
+
+  test('reports issues in projects by index', () => {
+    const issues = validateConfig({
+      projects: [
+        {name: 'a', source: './a.yaml', target: './a', codegen: {enumType: 'unions'}},
+        {source: './b.yaml', target: './b'},
+      ],
+    });
+
+    expect(issues.map((issue) => issue.path)).toEqual(['projects[0].codegen.enumType', 'projects[1].name']);
+  });
+
+  test('reports project options at the top level of a config with projects', () => {
+    const issues = validateConfig({source: './a.yaml', projects: [{name: 'a', source: './a.yaml', target: './a'}]});
+
+    expect(issues[0].message).toBe('Unknown option "source"');
+  });
+
+  test('reports duplicate and missing projects', () => {
+    const project = {name: 'a', source: './a.yaml', target: './a'};
+
+    expect(validateConfig({projects: [project, project]})[0].message).toBe('Duplicate project name "a"');
+    expect(validateConfig({projects: []})[0].message).toBe('"projects" must list at least one project');
+  });
+
+  test('reports invalid source options', () => {
+    const issues = validateConfig({
+      source: 'https://example.com/openapi.json',
+      target: 'out',
+      sourceOptions: {headers: {Authorization: 42}, timeout: 0, retries: 1.5},
+    });
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      '"sourceOptions.headers.Authorization" must be a string, got a number',
+      '"sourceOptions.timeout" must be at least 1, got 0',
+      '"sourceOptions.retries" must be a whole number, got 1.5',
+    ]);
+  });
+
+  test('reports invalid plugins', () => {
+    const issues = validateConfig({
+      source: 'a.yaml',
+      target: 'out',
+      plugins: [{name: 'ok', renderFile: () => undefined}, {onSchema: 'rename'}],
+    });
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      'Missing required option "plugins[1].name"',
+      '"plugins[1].onSchema" must be a function, got a string',
+    ]);
+  });
+
+  test('reports invalid templates', () => {
+    const issues = validateConfig({source: 'a.yaml', target: 'out', templates: {base: './base.ts', method: 42}});
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      '"templates.method" must be a function or a string, got a number',
+    ]);
+  });
+
+  test('reports invalid filters', () => {
+    const issues = validateConfig({
+      source: 'a.yaml',
+      target: 'out',
+      filter: {
+        include: {tags: ['pets'], methods: ['GET'], deprecated: 'no'},
+        exclude: {extensions: {'x-internal': true, 'x-owner': null}},
+      },
+    });
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      'Invalid value "GET" for "filter.include.methods[0]", expected one of "get", "put", "post", "delete", "options", "head", "patch", "trace". Did you mean "get"?',
+      '"filter.include.deprecated" must be a boolean, got a string',
+      '"filter.exclude.extensions.x-owner" must be a string, a number or a boolean, got null',
+    ]);
+  });
+
+  test('reports a config that is not an object', () => {
+    expect(validateConfig(['./openapi.yaml'])[0].message).toBe('Config must be an object, got an array');
+  });
+});
+
+describe('validateProjectPatch', () => {
+  test('does not require source and target', () => {
+    expect(validateProjectPatch({codegen: {enumType: 'union'}})).toEqual([]);
+  });
+
+  test('reports invalid values', () => {
+    expect(validateProjectPatch({codegen: {enumTyp: 'union'}})[0].message).toBe(
+      'Unknown option "codegen.enumTyp". Did you mean "enumType"?',
+    );
+  });
+});
+
+describe('coerceProjectPatch', () => {
+  test('converts strings to the numbers and booleans options expect', () => {
+    const patch = coerceProjectPatch({
+      sourceOptions: {timeout: '5000', proxy: '8080'},
+      filter: {include: {deprecated: 'false', extensions: {'x-internal': 'true', 'x-version': '2', 'x-owner': 'api'}}},
+      codegen: {enumType: 'union'},
+    });
+
+    expect(patch).toEqual({
+      sourceOptions: {timeout: 5000, proxy: '8080'},
+      filter: {include: {deprecated: false, extensions: {'x-internal': true, 'x-version': 2, 'x-owner': 'api'}}},
+      codegen: {enumType: 'union'},
+    });
+    expect(validateProjectPatch(patch)).toEqual([]);
+  });
+
+  test('leaves values that are not written as the expected type for validation', () => {
+    const patch = coerceProjectPatch({sourceOptions: {retries: 'many'}, filter: {include: {deprecated: 'yes'}}});
+
+    expect(validateProjectPatch(patch).map((issue) => issue.message)).toEqual([
+      '"sourceOptions.retries" must be a whole number, got a string',
+      '"filter.include.deprecated" must be a boolean, got a string',
+    ]);
+  });
+});
+
+describe('assertValidConfig', () => {
+  test('throws a ConfigValidationError listing every issue', () => {
+    try {
+      assertValidConfig({source: 'a.yaml', codegen: {dateType: 'date'}});
+      throw new Error('Expected assertValidConfig to throw');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ConfigValidationError);
+      expect((error as ConfigValidationError).issues).toHaveLength(2);
+      expect((error as Error).message).toBe(
+        [
+          'Invalid config:',
+          '  - Missing required option "target"',
+          '  - Invalid value "date" for "codegen.dateType", expected one of "string", "Date". Did you mean "Date"?',
+        ].join('\n'),
+      );
+    }
+  });
+});
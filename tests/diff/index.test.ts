@@ -0,0 +1,290 @@
+import {describe, expect, test} from 'bun:test';
+import type {OpenAPIV3} from 'openapi-types';
+import {diffSpecs} from '../../src/diff/index.js';
+
+// Helper to create a minimal OpenAPI document
+const createDoc = (
+  paths: OpenAPIV3.PathsObject,
+  schemas: Record<string, OpenAPIV3.SchemaObject> = {},
+): OpenAPIV3.Document => ({
+  openapi: '3.0.0',
+  info: {title: 'Test', version: '1.0.0'},
+  paths,
+  components: {schemas},
+});
+
+const okResponse = (schema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject): OpenAPIV3.ResponsesObject => ({
+  '200': {description: 'OK', content: {'application/json': {schema}}},
+});
+
+const petSchema: OpenAPIV3.SchemaObject = {
+  type: 'object',
+  required: ['name'],
+  properties: {
+    name: {type: 'string'},
+    status: {type: 'string', enum: ['available', 'sold']},
+  },
+};
+
+const petsPaths: OpenAPIV3.PathsObject = {
+  '/pets': {
+    get: {operationId: 'listPets', tags: ['pets'], responses: okResponse({$ref: '#/components/schemas/Pet'})},
+  },
+  '/pets/{petId}': {
+    get: {
+      operationId: 'getPet',
+      tags: ['pets'],
+      parameters: [{name: 'petId', in: 'path', required: true, schema: {type: 'string'}}],
+      responses: okResponse({$ref: '#/components/schemas/Pet'}),
+    },
+  },
+};
+
+const codes = (doc: OpenAPIV3.Document, newDoc: OpenAPIV3.Document) =>
+  diffSpecs(doc, newDoc).changes.map((change) => [change.code, change.breaking]);
+
+describe('diffSpecs', () => {
+  test('returns no changes for identical documents', () => {
+    const doc = createDoc(petsPaths, {Pet: petSchema});
+
+    expect(diffSpecs(doc, structuredClone(doc))).toEqual({changes: [], breakingCount: 0, files: []});
+  });
+
+  test('reports removed and added operations', () => {
+    const oldDoc = createDoc(petsPaths, {Pet: petSchema});
+    const newDoc = createDoc(
+      {
+        '/pets': petsPaths['/pets'],
+        '/owners': {get: {operationId: 'listOwners', tags: ['owners'], responses: {'204': {description: 'None'}}}},
+      },
+      {Pet: petSchema},
+    );
+
+    const result = diffSpecs(oldDoc, newDoc);
+
+    expect(result.changes).toEqual([
+      {
+        breaking: true,
+        code: 'operation-removed',
+        message: 'GET /pets/{petId} (getPet) was removed',
+        pointer: '/paths/~1pets~1{petId}/get',
+        files: ['pets-client.ts'],
+      },
+      {
+        breaking: false,
+        code: 'operation-added',
+        message: 'GET /owners was added',
+        pointer: '/paths/~1owners/get',
+        files: ['owners-client.ts'],
+      },
+    ]);
+    expect(result.breakingCount).toBe(1);
+  });
+
+  test('reports renamed operationIds and moved operations', () => {
+    const oldDoc = createDoc(petsPaths, {Pet: petSchema});
+    const newDoc = structuredClone(oldDoc);
+    newDoc.paths['/pets']!.get!.operationId = 'findPets';
+    newDoc.paths['/pets/{petId}']!.get!.tags = ['animals'];
+
+    const result = diffSpecs(oldDoc, newDoc);
+
+    expect(result.changes.map((change) => change.message)).toEqual([
+      'operationId of GET /pets changed from listPets to findPets',
+      'Tags of GET /pets/{petId} changed from pets to animals',
+    ]);
+    expect(result.changes[1].files).toEqual(['animals-client.ts', 'pets-client.ts']);
+  });
+
+  test('matches operations whose path parameters were renamed', () => {
+    const oldDoc = createDoc(petsPaths, {Pet: petSchema});
+    const {'/pets/{petId}': getPet, ...rest} = petsPaths;
+    const renamed = structuredClone(getPet)!;
+    (renamed.get!.parameters![0] as OpenAPIV3.ParameterObject).name = 'id';
+    const newDoc = createDoc({...rest, '/pets/{id}': renamed}, {Pet: petSchema});
+
+    expect(diffSpecs(oldDoc, newDoc).changes).toEqual([]);
+  });
+
+  test('classifies parameter changes', () => {
+    const withParams = (parameters: OpenAPIV3.ParameterObject[]) =>
+      createDoc({'/pets': {get: {operationId: 'listPets', tags: ['pets'], parameters, responses: {}}}});
+
+    const oldDoc = withParams([
+      {name: 'limit', in: 'query', schema: {type: 'integer'}},
+      {name: 'offset', in: 'query', schema: {type: 'integer'}},
+      {name: 'sort', in: 'query', schema: {type: 'string'}},
+    ]);
+    const newDoc = withParams([
+      {name: 'limit', in: 'query', required: true, schema: {type: 'integer'}},
+      {name: 'sort', in: 'query', schema: {type: 'integer'}},
+      {name: 'tenant', in: 'header', required: true, schema: {type: 'string'}},
+      {name: 'q', in: 'query', schema: {type: 'string'}},
+    ]);
+
+    expect(codes(oldDoc, newDoc)).toEqual([
+      ['parameter-removed', true],
+      ['parameter-now-required', true],
+      ['type-changed', true],
+      ['required-parameter-added', true],
+      ['parameter-added', false],
+    ]);
+  });
+
+  test('classifies schema changes', () => {
+    const oldDoc = createDoc({}, {Pet: petSchema, Tag: {type: 'string'}});
+    const newDoc = createDoc(
+      {},
+      {
+        Pet: {
+          type: 'object',
+          required: ['name', 'age'],
+          properties: {
+            status: {type: 'string', enum: ['available', 'pending']},
+            age: {type: 'integer'},
+            nickname: {type: 'string'},
+          },
+        },
+        Owner: {type: 'object'},
+      },
+    );
+
+    const result = diffSpecs(oldDoc, newDoc);
+
+    expect(result.changes.map((change) => [change.code, change.breaking, change.pointer])).toEqual([
+      ['schema-removed', true, '/components/schemas/Tag'],
+      ['property-removed', true, '/components/schemas/Pet/properties/name'],
+      ['enum-narrowed', true, '/components/schemas/Pet/properties/status/enum'],
+      ['enum-widened', false, '/components/schemas/Pet/properties/status/enum'],
+      ['required-property-added', true, '/components/schemas/Pet/properties/age'],
+      ['property-added', false, '/components/schemas/Pet/properties/nickname'],
+      ['schema-added', false, '/components/schemas/Owner'],
+    ]);
+    expect(result.files).toEqual([{fileName: 'types.ts', status: 'changed'}]);
+  });
+
+  test('reports nullable and type changes', () => {
+    const oldDoc = createDoc({}, {Pet: {type: 'object', properties: {age: {type: 'integer'}, name: {type: 'string'}}}});
+    const newDoc = createDoc(
+      {},
+      {Pet: {type: 'object', properties: {age: {type: 'string'}, name: {type: 'string', nullable: true}}}},
+    );
+
+    expect(diffSpecs(oldDoc, newDoc).changes.map((change) => change.message)).toEqual([
+      'Type of Pet.age changed from integer to string',
+      'Type of Pet.name changed from string to string | null',
+    ]);
+  });
+
+  test('compares arrays with type lists and without items', () => {
+    const oldDoc = createDoc(
+      {},
+      {
+        Tags: {type: ['array', 'null'], items: {type: 'string'}} as unknown as OpenAPIV3.SchemaObject,
+        Pair: {type: 'array', prefixItems: [{type: 'string'}]} as unknown as OpenAPIV3.SchemaObject,
+      },
+    );
+    const newDoc = createDoc(
+      {},
+      {
+        Tags: {type: ['array', 'null'], items: {type: 'integer'}} as unknown as OpenAPIV3.SchemaObject,
+        Pair: {type: 'array', prefixItems: [{type: 'integer'}]} as unknown as OpenAPIV3.SchemaObject,
+      },
+    );
+
+    expect(diffSpecs(oldDoc, newDoc).changes.map((change) => change.message)).toEqual([
+      'Type of Tags[] changed from string to integer',
+    ]);
+  });
+
+  test('compares composed schemas member by member', () => {
+    const oldDoc = createDoc(
+      {},
+      {
+        Dog: {allOf: [{$ref: '#/components/schemas/Pet'}, {type: 'object', properties: {bark: {type: 'string'}}}]},
+        Id: {oneOf: [{type: 'string'}, {type: 'integer'}]},
+        Shape: {anyOf: [{type: 'object', properties: {radius: {type: 'number'}}}]},
+      },
+    );
+    const newDoc = createDoc(
+      {},
+      {
+        Dog: {allOf: [{$ref: '#/components/schemas/Pet'}, {type: 'object', properties: {bark: {type: 'boolean'}}}]},
+        Id: {oneOf: [{type: 'string'}]},
+        Shape: {anyOf: [{type: 'object', properties: {radius: {type: 'number'}}}, {type: 'object'}]},
+      },
+    );
+
+    expect(diffSpecs(oldDoc, newDoc).changes.map((change) => [change.code, change.breaking, change.pointer])).toEqual([
+      ['type-changed', true, '/components/schemas/Dog/allOf/1/properties/bark'],
+      ['composition-member-removed', true, '/components/schemas/Id/oneOf/1'],
+      ['composition-member-added', false, '/components/schemas/Shape/anyOf/1'],
+    ]);
+  });
+
+  test('compares additional properties and const values', () => {
+    const oldDoc = createDoc(
+      {},
+      {
+        Labels: {type: 'object', additionalProperties: {type: 'string'}},
+        Meta: {type: 'object', additionalProperties: {type: 'string'}},
+        Kind: {type: 'string', const: 'dog'} as OpenAPIV3.SchemaObject,
+      },
+    );
+    const newDoc = createDoc(
+      {},
+      {
+        Labels: {type: 'object', additionalProperties: {type: 'integer'}},
+        Meta: {type: 'object', additionalProperties: true},
+        Kind: {type: 'string', const: 'cat'} as OpenAPIV3.SchemaObject,
+      },
+    );
+
+    expect(diffSpecs(oldDoc, newDoc).changes.map((change) => change.message)).toEqual([
+      'Type of Labels[key] changed from string to integer',
+      'Schema of additional properties was removed from Meta',
+      'Kind changed from "dog" to "cat"',
+    ]);
+  });
+
+  test('reports response and request body schema changes', () => {
+    const oldDoc = createDoc({
+      '/pets': {
+        post: {
+          operationId: 'createPet',
+          tags: ['pets'],
+          requestBody: {content: {'application/json': {schema: {$ref: '#/components/schemas/NewPet'}}}},
+          responses: okResponse({$ref: '#/components/schemas/Pet'}),
+        },
+      },
+    });
+    const newDoc = structuredClone(oldDoc);
+    newDoc.paths['/pets']!.post!.requestBody = {
+      required: true,
+      content: {'application/json': {schema: {$ref: '#/components/schemas/NewPet'}}},
+    };
+    newDoc.paths['/pets']!.post!.responses = okResponse({type: 'array', items: {$ref: '#/components/schemas/Pet'}});
+
+    expect(diffSpecs(oldDoc, newDoc).changes.map((change) => [change.code, change.message])).toEqual([
+      ['request-body-now-required', 'Request body of POST /pets is now required'],
+      ['type-changed', 'Type of response of POST /pets changed from Pet to array'],
+    ]);
+  });
+
+  test('reports affected client files and classes', () => {
+    const oldDoc = createDoc(petsPaths, {Pet: petSchema});
+    const newDoc = createDoc(
+      {
+        '/pets': {get: {...petsPaths['/pets']!.get!, tags: ['animals']}},
+        '/pets/{petId}': petsPaths['/pets/{petId}'],
+      },
+      {Pet: petSchema},
+    );
+
+    expect(diffSpecs(oldDoc, newDoc, {clientSuffix: 'Api'}).files).toEqual([
+      {fileName: 'animals-client.ts', className: 'AnimalsApi', status: 'added'},
+      {fileName: 'index.ts', status: 'changed'},
+      {fileName: 'pets-client.ts', className: 'PetsApi', status: 'changed'},
+    ]);
+  });
+});
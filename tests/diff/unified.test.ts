@@ -0,0 +1,44 @@
+import {describe, expect, test} from 'bun:test';
+import {createUnifiedDiff} from '../../src/diff/unified.js';
+
+describe('createUnifiedDiff', () => {
+  test('returns an empty string for equal texts', () => {
+    expect(createUnifiedDiff('a\nb\n', 'a\nb\n', 'a/x.ts', 'b/x.ts')).toBe('');
+  });
+
+  test('shows changed lines with context', () => {
+    const oldText = ['1', '2', '3', '4', '5', '6', '7', '8'].join('\n') + '\n';
+    const newText = ['1', '2', '3', '4', 'five', '6', '7', '8'].join('\n') + '\n';
+
+    expect(createUnifiedDiff(oldText, newText, 'a/x.ts', 'b/x.ts')).toBe(
+      ['--- a/x.ts', '+++ b/x.ts', '@@ -2,7 +2,7 @@', ' 2', ' 3', ' 4', '-5', '+five', ' 6', ' 7', ' 8', ''].join('\n'),
+    );
+  });
+
+  test('splits distant changes into separate hunks', () => {
+    const lines = Array.from({length: 20}, (_, i) => `line ${i + 1}`);
+    const changed = [...lines];
+    changed[1] = 'changed 2';
+    changed[18] = 'changed 19';
+
+    const diff = createUnifiedDiff(lines.join('\n'), changed.join('\n'), 'a', 'b');
+
+    expect(diff.split('\n').filter((line) => line.startsWith('@@'))).toEqual(['@@ -1,5 +1,5 @@', '@@ -16,5 +16,5 @@']);
+  });
+
+  test('diffs added and removed files', () => {
+    expect(createUnifiedDiff('', 'a\nb\n', '/dev/null', 'b/x.ts')).toBe('--- /dev/null\n+++ b/x.ts\n@@ -0,0 +1,2 @@\n+a\n+b\n');
+    expect(createUnifiedDiff('a\n', '', 'a/x.ts', '/dev/null')).toBe('--- a/x.ts\n+++ /dev/null\n@@ -1 +0,0 @@\n-a\n');
+  });
+
+  test('diffs large files that have nothing in common', () => {
+    const oldText = Array.from({length: 6000}, (_, i) => `old ${i}`).join('\n');
+    const newText = Array.from({length: 5000}, (_, i) => `new ${i}`).join('\n');
+
+    const lines = createUnifiedDiff(oldText, newText, 'a', 'b').split('\n');
+
+    expect(lines[2]).toBe('@@ -1,6000 +1,5000 @@');
+    expect(lines.filter((line) => line.startsWith('-old')).length).toBe(6000);
+    expect(lines.filter((line) => line.startsWith('+new')).length).toBe(5000);
+  });
+});
@@ -0,0 +1,11 @@
+import {defineConfig} from '../../src/index.js';
+
+export default defineConfig({
+  codegen: {
+    enumType: 'union',
+  },
+  projects: [
+    {name: 'pets', source: './petstore.yaml', target: './gen/pets'},
+    {name: 'store', source: './store.yaml', target: './gen/store', codegen: {dateType: 'Date'}},
+  ],
+});
@@ -0,0 +1,258 @@
+import {afterAll, beforeAll, describe, expect, test} from 'bun:test';
+import {join} from 'node:path';
+import type {OpenAPIV3} from 'openapi-types';
+import {generateTypes} from '../../src/codegen/types.js';
+import {bundleDocument} from '../../src/parser/bundler.js';
+import {parseOpenApiSpec} from '../../src/parser/index.js';
+import {loadDocument} from '../../src/parser/loader.js';
+
+// Path to test fixtures
+const fixturesDir = join(import.meta.dir, '../fixtures');
+const multiFileDir = join(fixturesDir, 'multi-file');
+
+// Helper to create a minimal OpenAPI document
+const createDoc = (overrides: Partial<OpenAPIV3.Document> = {}): OpenAPIV3.Document => ({
+  openapi: '3.0.0',
+  info: {title: 'Test', version: '1.0.0'},
+  paths: {},
+  ...overrides,
+});
+
+describe('bundleDocument', () => {
+  test('moves whole-file schema refs into components named after the file', async () => {
+    const doc = await parseOpenApiSpec(join(multiFileDir, 'openapi.yaml'));
+    const response = doc.paths['/pets']!.get!.responses['200'] as OpenAPIV3.ResponseObject;
+
+    expect(response.content?.['application/json']?.schema).toEqual({
+      type: 'array',
+      items: {$ref: '#/components/schemas/Pet'},
+    });
+    expect(doc.components?.schemas?.Pet).toMatchObject({type: 'object', required: ['name']});
+  });
+
+  test('resolves refs relative to the referencing file', async () => {
+    const doc = await parseOpenApiSpec(join(multiFileDir, 'openapi.yaml'));
+    const pet = doc.components?.schemas?.Pet as OpenAPIV3.SchemaObject;
+
+    expect(pet.properties?.owner).toEqual({$ref: '#/components/schemas/Owner'});
+    expect(pet.properties?.tag).toEqual({$ref: '#/components/schemas/Tag'});
+    expect(doc.components?.schemas?.Tag).toEqual({type: 'object', properties: {label: {type: 'string'}}});
+  });
+
+  test('handles cyclic refs between files', async () => {
+    const doc = await parseOpenApiSpec(join(multiFileDir, 'openapi.yaml'));
+    const owner = doc.components?.schemas?.Owner as OpenAPIV3.SchemaObject;
+
+    expect(owner.properties?.pets).toEqual({type: 'array', items: {$ref: '#/components/schemas/Pet'}});
+  });
+
+  test('keeps the component name when a component entry is an external ref', async () => {
+    const doc = await parseOpenApiSpec(join(multiFileDir, 'openapi.yaml'));
+
+    expect(doc.components?.schemas?.Error).toEqual({type: 'object', properties: {message: {type: 'string'}}});
+    expect(doc.components?.schemas?.Error2).toBeUndefined();
+  });
+
+  test('moves parameter refs into components.parameters', async () => {
+    const doc = await parseOpenApiSpec(join(multiFileDir, 'openapi.yaml'));
+
+    expect(doc.paths['/pets']!.get!.parameters).toEqual([{$ref: '#/components/parameters/Limit'}]);
+    expect(doc.components?.parameters?.Limit).toMatchObject({name: 'limit', in: 'query'});
+  });
+
+  test('inlines path item refs', async () => {
+    const doc = await parseOpenApiSpec(join(multiFileDir, 'openapi.yaml'));
+    const getOwner = doc.paths['/owners/{ownerId}']!.get!;
+    const response = getOwner.responses['200'] as OpenAPIV3.ResponseObject;
+
+    expect(getOwner.operationId).toBe('getOwner');
+    expect(response.content?.['application/json']?.schema).toEqual({$ref: '#/components/schemas/Owner'});
+  });
+
+  test('returns every file that was read', async () => {
+    const root = join(multiFileDir, 'openapi.yaml');
+    const {data} = await loadDocument(root);
+    const {sources} = await bundleDocument(data as OpenAPIV3.Document, root);
+
+    expect(sources[0]).toBe(root);
+    expect(sources.sort()).toEqual(
+      [
+        root,
+        join(multiFileDir, 'parameters.yaml'),
+        join(multiFileDir, 'paths/owner.yaml'),
+        join(multiFileDir, 'schemas/error.yaml'),
+        join(multiFileDir, 'schemas/owner.yaml'),
+        join(multiFileDir, 'schemas/pet.yaml'),
+      ].sort(),
+    );
+  });
+
+  test('produces stable type names for generated code', async () => {
+    const doc = await parseOpenApiSpec(join(multiFileDir, 'openapi.yaml'));
+    const types = generateTypes(doc, {});
+
+    expect(types).toContain('export interface Pet {');
+    expect(types).toContain('owner?: Owner;');
+    expect(types).toContain('export interface Owner {');
+    expect(types).toContain('pets?: Pet[];');
+  });
+
+  test('renames components that collide with existing ones', async () => {
+    const doc = createDoc({
+      paths: {
+        '/pets': {
+          get: {
+            responses: {
+              '200': {
+                description: 'OK',
+                content: {'application/json': {schema: {$ref: './schemas/pet.yaml'}}},
+              },
+            },
+          },
+        },
+      },
+      components: {schemas: {Pet: {type: 'string'}}},
+    });
+
+    const {document} = await bundleDocument(doc, join(multiFileDir, 'openapi.yaml'));
+
+    expect(document.components?.schemas?.Pet).toEqual({type: 'string'});
+    expect(document.components?.schemas?.Pet2).toMatchObject({type: 'object'});
+  });
+
+  test('names components after Object.prototype keys', async () => {
+    const doc = createDoc({
+      components: {
+        schemas: {Value: {type: 'object', properties: {name: {$ref: './swagger-2.yaml#/definitions/constructor'}}}},
+      },
+    });
+
+    const {document} = await bundleDocument(doc, join(multiFileDir, 'openapi.yaml'));
+
+    expect(document.components?.schemas?.Value).toEqual({
+      type: 'object',
+      properties: {name: {$ref: '#/components/schemas/constructor'}},
+    });
+    expect(Object.hasOwn(document.components!.schemas!, 'constructor')).toBe(true);
+  });
+
+  test('upgrades referenced Swagger 2.0 documents', async () => {
+    const doc = createDoc({
+      components: {
+        schemas: {Pet: {type: 'object', properties: {animal: {$ref: './swagger-2.yaml#/definitions/Animal'}}}},
+      },
+    });
+    const warnings: string[] = [];
+
+    const {document} = await bundleDocument(doc, join(multiFileDir, 'openapi.yaml'), {
+      onWarning: (message) => warnings.push(message),
+    });
+
+    expect(document.components?.schemas?.Animal).toEqual({
+      type: 'object',
+      properties: {
+        nickname: {type: 'string', nullable: true},
+        photo: {type: 'string', format: 'binary'},
+        keeper: {$ref: '#/components/schemas/Keeper'},
+      },
+    });
+    expect(document.components?.schemas?.Keeper).toEqual({type: 'object', properties: {name: {type: 'string'}}});
+    expect(warnings).toEqual([
+      `${join(multiFileDir, 'swagger-2.yaml')}: Global formData parameter "upload" can't be shared in OpenAPI 3 and is inlined where used`,
+    ]);
+  });
+
+  test('leaves documents without external refs unchanged', async () => {
+    const doc = createDoc({
+      components: {schemas: {Pet: {type: 'object'}, Pets: {type: 'array', items: {$ref: '#/components/schemas/Pet'}}}},
+    });
+
+    const {document, sources} = await bundleDocument(doc, join(fixturesDir, 'minimal.json'));
+
+    expect(document).toEqual(doc);
+    expect(sources).toHaveLength(1);
+  });
+
+  test('throws for missing files', async () => {
+    const doc = createDoc({components: {schemas: {Pet: {$ref: './missing.yaml'}}}});
+
+    await expect(bundleDocument(doc, join(multiFileDir, 'openapi.yaml'))).rejects.toThrow();
+  });
+
+  test('throws for missing pointers', async () => {
+    const doc = createDoc({components: {schemas: {Pet: {$ref: './parameters.yaml#/Missing'}}}});
+
+    await expect(bundleDocument(doc, join(multiFileDir, 'openapi.yaml'))).rejects.toThrow('$ref not found');
+  });
+
+  describe('URL refs', () => {
+    let server: ReturnType<typeof Bun.serve>;
+    let requests: string[];
+
+    beforeAll(() => {
+      requests = [];
+      server = Bun.serve({
+        port: 0,
+        fetch(request) {
+          const {pathname} = new URL(request.url);
+          requests.push(pathname);
+          return new Response(Bun.file(join(multiFileDir, pathname)));
+        },
+      });
+    });
+
+    afterAll(() => {
+      server.stop(true);
+    });
+
+    test('bundles refs relative to a remote root document', async () => {
+      const doc = await parseOpenApiSpec(`${server.url}openapi.yaml`);
+
+      expect(doc.components?.schemas?.Pet).toBeDefined();
+      expect(doc.components?.schemas?.Owner).toBeDefined();
+      expect(requests).toContain('/schemas/pet.yaml');
+    });
+
+    test('bundles absolute URL refs from a local document', async () => {
+      const doc = createDoc({components: {schemas: {Error: {$ref: `${server.url}schemas/error.yaml#/Error`}}}});
+
+      const {document} = await bundleDocument(doc, join(fixturesDir, 'minimal.json'));
+
+      expect(document.components?.schemas?.Error).toEqual({type: 'object', properties: {message: {type: 'string'}}});
+    });
+
+    test('sends headers only to the origin of the root document', async () => {
+      const headers: (string | null)[] = [];
+      const other = Bun.serve({
+        port: 0,
+        fetch(request) {
+          headers.push(request.headers.get('authorization'));
+          return new Response(Bun.file(join(multiFileDir, 'schemas/error.yaml')));
+        },
+      });
+
+      try {
+        const root = `${server.url}openapi.yaml`;
+        const doc = createDoc({components: {schemas: {Error: {$ref: `${other.url}error.yaml#/Error`}}}});
+
+        await bundleDocument(doc, root, {fetch: {headers: {Authorization: 'Bearer secret'}}});
+
+        expect(headers).toEqual([null]);
+      } finally {
+        other.stop(true);
+      }
+    });
+
+    test('loads each document once through the shared cache', async () => {
+      requests = [];
+      const cache = new Map<string, Promise<unknown>>();
+      const doc = createDoc({components: {schemas: {Owner: {$ref: `${server.url}schemas/owner.yaml`}}}});
+
+      await bundleDocument(doc, join(fixturesDir, 'minimal.json'), {cache});
+      await bundleDocument(doc, join(fixturesDir, 'minimal.json'), {cache});
+
+      expect(requests.filter((path) => path === '/schemas/owner.yaml')).toHaveLength(1);
+      expect(requests.filter((path) => path === '/schemas/pet.yaml')).toHaveLength(1);
+    });
+  });
+});
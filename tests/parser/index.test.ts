@@ -43,10 +43,20 @@ describe('parseOpenApiSpec', () => {
       );
     });
 
-    test('throws for OpenAPI 2.x (Swagger)', async () => {
-      await expect(parseOpenApiSpec(join(fixturesDir, 'swagger-2.json'))).rejects.toThrow(
-        'Invalid OpenAPI document',
-      );
+    test('upgrades Swagger 2.0 documents to OpenAPI 3', async () => {
+      const doc = await parseOpenApiSpec(join(fixturesDir, 'swagger-2.json'));
+
+      expect(doc.openapi).toBe('3.0.3');
+      expect(doc.info.title).toBe('Swagger 2.0 Spec');
+      expect(doc.paths).toEqual({});
+    });
+
+    test('accepts OpenAPI 3.1 documents without paths', async () => {
+      const doc = await parseOpenApiSpec(join(fixturesDir, 'openapi-3.1.json'));
+
+      expect(doc.openapi).toBe('3.1.0');
+      expect(doc.paths).toEqual({});
+      expect(doc.components?.schemas?.Pet).toBeDefined();
     });
 
     test('throws for missing paths', async () => {
@@ -0,0 +1,58 @@
+import {describe, expect, test} from 'bun:test';
+import {parseJsonPath, queryJsonPath} from '../../src/parser/jsonpath.js';
+
+const doc = {
+  paths: {
+    '/pets': {
+      get: {operationId: 'listPets', tags: ['pets'], parameters: [{name: 'limit', in: 'query'}]},
+      post: {tags: ['pets'], deprecated: true},
+    },
+    '/store': {get: {operationId: 'getInventory', tags: ['store'], 'x-internal': true}},
+  },
+};
+
+const values = (path: string): unknown[] => queryJsonPath(doc, path).map((node) => node.value);
+
+describe('queryJsonPath', () => {
+  test('selects by name and quoted name', () => {
+    expect(values("$.paths['/pets'].get.operationId")).toEqual(['listPets']);
+    expect(values('$["paths"]["/store"].get["x-internal"]')).toEqual([true]);
+    expect(values('$.paths.missing')).toEqual([]);
+  });
+
+  test('selects with wildcards, indexes and several selectors', () => {
+    expect(values('$.paths.*.get.operationId')).toEqual(['listPets', 'getInventory']);
+    expect(values("$.paths['/pets'].get.parameters[0].name")).toEqual(['limit']);
+    expect(values("$.paths['/pets'].get.tags[-1]")).toEqual(['pets']);
+    expect(values("$.paths['/pets']['get','post'].tags[0]")).toEqual(['pets', 'pets']);
+  });
+
+  test('selects descendants', () => {
+    expect(values('$..operationId')).toEqual(['listPets', 'getInventory']);
+    expect(values('$..parameters[*].in')).toEqual(['query']);
+  });
+
+  test('filters with comparisons and logical operators', () => {
+    expect(values("$.paths.*[?@.operationId == 'getInventory'].tags")).toEqual([['store']]);
+    expect(values('$.paths.*[?@.deprecated].tags')).toEqual([['pets']]);
+    expect(values("$.paths.*[?(!@.operationId && @.tags[0] == 'pets')].deprecated")).toEqual([true]);
+    expect(values("$.paths.*[?@['x-internal'] == true || @.deprecated == true]").length).toBe(2);
+    expect(values('$.paths.*.get.parameters[?@.name != "limit"]')).toEqual([]);
+  });
+
+  test('returns the parent and key of each value', () => {
+    const [node] = queryJsonPath(doc, "$.paths['/pets'].get.tags[0]");
+
+    expect(node.parent).toBe(doc.paths['/pets'].get.tags);
+    expect(node.key).toBe(0);
+  });
+});
+
+describe('parseJsonPath', () => {
+  test('reports invalid and unsupported expressions with their position', () => {
+    expect(() => parseJsonPath('paths')).toThrow('Invalid JSONPath "paths": expected "$" at position 0');
+    expect(() => parseJsonPath('$.paths[')).toThrow('expected a selector at position 8');
+    expect(() => parseJsonPath('$.tags[0:2]')).toThrow('slices are not supported');
+    expect(() => parseJsonPath('$[?length(@) > 1]')).toThrow('function extensions are not supported');
+  });
+});
@@ -0,0 +1,161 @@
+import {describe, expect, test} from 'bun:test';
+import type {OpenAPIV3} from 'openapi-types';
+import {lintSpec} from '../../src/parser/linter.js';
+
+// Helper to create a minimal OpenAPI document
+const createDoc = (paths: OpenAPIV3.PathsObject, components: OpenAPIV3.ComponentsObject = {}): OpenAPIV3.Document => ({
+  openapi: '3.0.0',
+  info: {title: 'Test', version: '1.0.0'},
+  paths,
+  components,
+});
+
+const petResponse: OpenAPIV3.ResponseObject = {
+  description: 'A pet',
+  content: {'application/json': {schema: {$ref: '#/components/schemas/Pet'}}},
+};
+
+describe('lintSpec', () => {
+  test('returns no diagnostics for a well-formed operation', () => {
+    const doc = createDoc({
+      '/pets': {get: {operationId: 'listPets', tags: ['pets'], responses: {'200': petResponse}}},
+    });
+
+    expect(lintSpec(doc)).toEqual([]);
+  });
+
+  test('reports missing operationIds and tags as warnings', () => {
+    const doc = createDoc({
+      '/pets': {get: {responses: {'200': petResponse}}},
+    });
+
+    expect(lintSpec(doc)).toEqual([
+      {
+        severity: 'warning',
+        code: 'operation-id',
+        message: 'GET /pets has no operationId',
+        pointer: '/paths/~1pets/get',
+      },
+      {severity: 'warning', code: 'operation-tags', message: 'GET /pets has no tags', pointer: '/paths/~1pets/get'},
+    ]);
+  });
+
+  test('reports successful responses without a schema', () => {
+    const doc = createDoc({
+      '/pets': {
+        get: {
+          operationId: 'listPets',
+          tags: ['pets'],
+          responses: {
+            '200': {description: 'OK', content: {'application/json': {}}},
+            '201': {description: 'Created'},
+            '204': {description: 'No content'},
+            '404': {description: 'Not found'},
+          },
+        },
+      },
+    });
+
+    expect(lintSpec(doc).map((d) => [d.code, d.pointer])).toEqual([
+      ['typed-responses', '/paths/~1pets/get/responses/200/content/application~1json'],
+      ['typed-responses', '/paths/~1pets/get/responses/201'],
+    ]);
+  });
+
+  test('checks responses referenced from components', () => {
+    const doc = createDoc(
+      {
+        '/pets': {
+          get: {operationId: 'listPets', tags: ['pets'], responses: {'200': {$ref: '#/components/responses/Empty'}}},
+        },
+      },
+      {responses: {Empty: {description: 'Nothing'}}},
+    );
+
+    expect(lintSpec(doc)[0]).toMatchObject({
+      code: 'typed-responses',
+      message: '200 response of GET /pets has no content',
+    });
+  });
+
+  test('reports inline object schemas in bodies', () => {
+    const doc = createDoc({
+      '/pets': {
+        post: {
+          operationId: 'createPet',
+          tags: ['pets'],
+          requestBody: {
+            content: {'application/json': {schema: {type: 'object', properties: {name: {type: 'string'}}}}},
+          },
+          responses: {
+            '200': {
+              description: 'OK',
+              content: {
+                'application/json': {
+                  schema: {type: 'array', items: {type: 'object', properties: {id: {type: 'integer'}}}},
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    expect(lintSpec(doc).map((d) => [d.code, d.pointer])).toEqual([
+      ['no-inline-schemas', '/paths/~1pets/post/requestBody/content/application~1json/schema'],
+      ['no-inline-schemas', '/paths/~1pets/post/responses/200/content/application~1json/schema'],
+    ]);
+  });
+
+  test('allows inline schemas without properties', () => {
+    const doc = createDoc({
+      '/pets/count': {
+        get: {
+          operationId: 'countPets',
+          tags: ['pets'],
+          responses: {'200': {description: 'OK', content: {'application/json': {schema: {type: 'integer'}}}}},
+        },
+      },
+    });
+
+    expect(lintSpec(doc)).toEqual([]);
+  });
+
+  test('allows array schemas without items', () => {
+    const doc = createDoc({
+      '/pets/pair': {
+        get: {
+          operationId: 'getPair',
+          tags: ['pets'],
+          responses: {
+            '200': {
+              description: 'OK',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'array',
+                    prefixItems: [{type: 'string'}, {type: 'integer'}],
+                  } as unknown as OpenAPIV3.SchemaObject,
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    expect(lintSpec(doc)).toEqual([]);
+  });
+
+  test('uses the configured severity per rule', () => {
+    const doc = createDoc({
+      '/pets': {get: {responses: {'200': petResponse}}},
+    });
+
+    const diagnostics = lintSpec(doc, {rules: {'operation-id': 'error', 'operation-tags': 'off'}});
+
+    expect(diagnostics).toEqual([
+      {severity: 'error', code: 'operation-id', message: 'GET /pets has no operationId', pointer: '/paths/~1pets/get'},
+    ]);
+  });
+});
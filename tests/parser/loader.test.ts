@@ -0,0 +1,165 @@
+import {afterAll, afterEach, beforeAll, beforeEach, describe, expect, spyOn, test} from 'bun:test';
+import {mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync} from 'node:fs';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import {loadDocument} from '../../src/parser/loader.js';
+
+// Path to test fixtures
+const fixturesDir = join(import.meta.dir, '../fixtures');
+const petstore = readFileSync(join(fixturesDir, 'petstore.yaml'), 'utf-8');
+
+describe('loadDocument from a URL', () => {
+  let server: ReturnType<typeof Bun.serve>;
+  /** Requests seen per path */
+  let attempts: Map<string, number>;
+
+  beforeAll(() => {
+    attempts = new Map();
+    server = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        const {pathname} = new URL(request.url);
+        const attempt = (attempts.get(pathname) ?? 0) + 1;
+        attempts.set(pathname, attempt);
+
+        switch (pathname) {
+          case '/private.yaml':
+            return request.headers.get('authorization') === 'Bearer secret'
+              ? new Response(petstore)
+              : new Response('Unauthorized', {status: 401, statusText: 'Unauthorized'});
+          case '/flaky.yaml':
+            return attempt < 3
+              ? new Response('Busy', {status: 503, statusText: 'Service Unavailable'})
+              : new Response(petstore);
+          case '/etag.yaml':
+            return request.headers.get('if-none-match') === '"v1"'
+              ? new Response(null, {status: 304})
+              : new Response(petstore, {headers: {etag: '"v1"'}});
+          case '/down.yaml':
+            return attempt === 1
+              ? new Response(petstore)
+              : new Response('Down', {status: 502, statusText: 'Bad Gateway'});
+          case '/slow.yaml':
+            await Bun.sleep(500);
+            return new Response(petstore);
+          default:
+            return new Response('Not found', {status: 404, statusText: 'Not Found'});
+        }
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  test('sends headers', async () => {
+    const {data} = await loadDocument(`${server.url}private.yaml`, {headers: {Authorization: 'Bearer secret'}});
+
+    expect((data as {info: {title: string}}).info.title).toBe('Petstore');
+  });
+
+  test('reports the status of a failed request', async () => {
+    await expect(loadDocument(`${server.url}private.yaml`)).rejects.toThrow('401 Unauthorized');
+  });
+
+  test('retries server errors', async () => {
+    const {data} = await loadDocument(`${server.url}flaky.yaml`, {retries: 2});
+
+    expect(data).toBeDefined();
+    expect(attempts.get('/flaky.yaml')).toBe(3);
+  });
+
+  test('gives up after the last retry', async () => {
+    attempts.delete('/flaky.yaml');
+
+    await expect(loadDocument(`${server.url}flaky.yaml`, {retries: 1})).rejects.toThrow('503 Service Unavailable');
+    expect(attempts.get('/flaky.yaml')).toBe(2);
+  });
+
+  test('does not retry client errors', async () => {
+    await expect(loadDocument(`${server.url}missing.yaml`, {retries: 2})).rejects.toThrow('404 Not Found');
+    expect(attempts.get('/missing.yaml')).toBe(1);
+  });
+
+  test('times out slow responses', async () => {
+    await expect(loadDocument(`${server.url}slow.yaml`, {timeout: 50, retries: 0})).rejects.toThrow(
+      'timed out after 50ms',
+    );
+  });
+
+  describe('with a cache', () => {
+    let cacheDir: string;
+
+    beforeEach(() => {
+      cacheDir = mkdtempSync(join(tmpdir(), 'opencodegen-'));
+    });
+
+    afterEach(() => {
+      rmSync(cacheDir, {recursive: true, force: true});
+    });
+
+    test('revalidates the cached copy with its ETag', async () => {
+      const first = await loadDocument(`${server.url}etag.yaml`, {cacheDir});
+      const second = await loadDocument(`${server.url}etag.yaml`, {cacheDir});
+
+      expect(first.remote).toMatchObject({status: 'fresh'});
+      expect(second.remote).toMatchObject({status: 'cached', reason: 'not-modified', hash: first.remote?.hash});
+      expect((second.data as {info: {title: string}}).info.title).toBe('Petstore');
+    });
+
+    test('uses only the cache when offline', async () => {
+      await loadDocument(`${server.url}etag.yaml`, {cacheDir});
+      attempts.delete('/etag.yaml');
+
+      const {remote} = await loadDocument(`${server.url}etag.yaml`, {cacheDir, offline: true});
+
+      expect(remote).toMatchObject({status: 'cached', reason: 'offline'});
+      expect(attempts.has('/etag.yaml')).toBe(false);
+    });
+
+    test('throws when offline without a cached copy', async () => {
+      await expect(loadDocument(`${server.url}etag.yaml`, {cacheDir, offline: true})).rejects.toThrow(
+        'No cached copy of',
+      );
+    });
+
+    test('falls back to the cached copy when the server is unavailable', async () => {
+      await loadDocument(`${server.url}down.yaml`, {cacheDir});
+
+      const {remote} = await loadDocument(`${server.url}down.yaml`, {cacheDir, retries: 0});
+
+      expect(remote).toMatchObject({status: 'cached', reason: 'unavailable'});
+      expect(remote?.error).toContain('502 Bad Gateway');
+    });
+
+    test('does not fall back when the request is refused', async () => {
+      await loadDocument(`${server.url}private.yaml`, {cacheDir, headers: {Authorization: 'Bearer secret'}});
+
+      await expect(loadDocument(`${server.url}private.yaml`, {cacheDir})).rejects.toThrow('401 Unauthorized');
+    });
+
+    test('caches the same URL loaded several times at once', async () => {
+      const loaded = await Promise.all([1, 2, 3].map(() => loadDocument(`${server.url}etag.yaml`, {cacheDir})));
+
+      expect(loaded.map(({remote}) => remote?.status)).toEqual(['fresh', 'fresh', 'fresh']);
+      expect(readdirSync(cacheDir)).toHaveLength(1);
+    });
+
+    test('warns instead of failing when the cache cannot be written', async () => {
+      const file = join(cacheDir, 'file');
+      writeFileSync(file, '');
+      const warn = spyOn(console, 'warn').mockImplementation(() => {});
+
+      try {
+        const {remote} = await loadDocument(`${server.url}etag.yaml`, {cacheDir: join(file, 'cache')});
+
+        expect(remote).toMatchObject({status: 'fresh'});
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(warn.mock.calls[0][0]).toStartWith(`Warning: Failed to cache ${server.url}etag.yaml`);
+      } finally {
+        warn.mockRestore();
+      }
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import {afterEach, beforeEach, describe, expect, test} from 'bun:test';
+import {mkdtempSync, rmSync, writeFileSync} from 'node:fs';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import {applyOverlay, loadOpenApiSpec, type OpenAPIV3, type OverlayDocument} from '../../src/parser/index.js';
+
+const fixturesDir = join(import.meta.dir, '../fixtures');
+
+const createDoc = (): OpenAPIV3.Document => ({
+  openapi: '3.0.0',
+  info: {title: 'Pets', version: '1.0.0'},
+  paths: {
+    '/pets': {
+      get: {tags: ['pets'], responses: {'200': {description: 'OK'}}},
+      delete: {operationId: 'deletePets', tags: [], responses: {'204': {description: 'Gone'}}},
+    },
+  },
+  components: {schemas: {Pet: {type: 'object', properties: {id: {type: 'string'}}}}},
+});
+
+const createOverlay = (actions: OverlayDocument['actions']): OverlayDocument => ({
+  overlay: '1.0.0',
+  info: {title: 'Fixes', version: '1.0.0'},
+  actions,
+});
+
+describe('applyOverlay', () => {
+  test('merges updates into the targets and appends to arrays', () => {
+    const doc = createDoc();
+
+    const result = applyOverlay(
+      doc,
+      createOverlay([
+        {target: "$.paths['/pets'].get", update: {operationId: 'listPets', tags: ['animals']}},
+        {target: "$.paths['/pets'].delete.tags", update: 'admin'},
+        {target: '$.components.schemas.Pet.properties.id', update: {type: 'integer', format: 'int64'}},
+      ]),
+    );
+
+    expect(result.paths['/pets']!.get).toMatchObject({operationId: 'listPets', tags: ['pets', 'animals']});
+    expect(result.paths['/pets']!.delete!.tags).toEqual(['admin']);
+    expect(result.components!.schemas!.Pet).toEqual({
+      type: 'object',
+      properties: {id: {type: 'integer', format: 'int64'}},
+    });
+    expect(doc).toEqual(createDoc());
+  });
+
+  test('removes the targets', () => {
+    const result = applyOverlay(
+      createDoc(),
+      createOverlay([{target: "$.paths['/pets'][?@.operationId == 'deletePets']", remove: true}]),
+    );
+
+    expect(Object.keys(result.paths['/pets']!)).toEqual(['get']);
+  });
+
+  test('removes array items selected in any order or more than once', () => {
+    const doc = createDoc();
+    doc.paths['/pets']!.get!.parameters = ['p', 'q', 'r'].map((name) => ({name, in: 'query'}));
+    const remove = (target: string): string[] => {
+      const result = applyOverlay(doc, createOverlay([{target, remove: true}]));
+      return result.paths['/pets']!.get!.parameters!.map((param) => (param as OpenAPIV3.ParameterObject).name);
+    };
+
+    expect(remove('$..parameters[2,0]')).toEqual(['q']);
+    expect(remove('$..parameters[0,2]')).toEqual(['q']);
+    expect(remove('$..parameters[0,0]')).toEqual(['q', 'r']);
+    expect(remove("$..parameters[?@.name != 'q']")).toEqual(['q']);
+  });
+
+  test('rejects an action whose target matches nothing', () => {
+    const overlay = createOverlay([
+      {target: '$.info', update: {description: 'Patched'}},
+      {target: '$.paths.*.patch', description: 'Add summaries', update: {summary: 'Patch'}},
+    ]);
+
+    expect(() => applyOverlay(createDoc(), overlay)).toThrow(
+      'Overlay action 2 (Add summaries): target $.paths.*.patch matched nothing',
+    );
+  });
+});
+
+describe('loadOpenApiSpec with overlays', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'opencodegen-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, {recursive: true, force: true});
+  });
+
+  test('applies overlay files in order and lists them as sources', async () => {
+    const first = join(dir, 'first.yaml');
+    const second = join(dir, 'second.json');
+    writeFileSync(
+      first,
+      [
+        'overlay: 1.0.0',
+        'info: {title: Tags, version: 1.0.0}',
+        'actions:',
+        "  - target: $.paths['/pets'].get",
+        '    update:',
+        '      tags: [pets]',
+      ].join('\n'),
+    );
+    writeFileSync(second, JSON.stringify(createOverlay([{target: '$..[?@.tags]', update: {tags: ['animals']}}])));
+
+    const spec = await loadOpenApiSpec(join(fixturesDir, 'petstore.yaml'), {overlays: [first, second]});
+
+    expect(spec.document.paths['/pets']!.get!.tags).toEqual(['pets', 'animals']);
+    expect(spec.sources).toEqual([join(fixturesDir, 'petstore.yaml'), first, second]);
+  });
+
+  test('names the overlay that failed', async () => {
+    const overlay = join(dir, 'overlay.json');
+    writeFileSync(overlay, JSON.stringify({overlay: '1.0.0', info: {title: 'x', version: '1'}, actions: [{}]}));
+
+    await expect(loadOpenApiSpec(join(fixturesDir, 'petstore.yaml'), {overlays: [overlay]})).rejects.toThrow(
+      `Failed to apply overlay ${overlay}: Invalid overlay document: actions[0] must have a "target"`,
+    );
+  });
+});
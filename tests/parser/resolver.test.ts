@@ -1,6 +1,6 @@
 import {describe, expect, test} from 'bun:test';
 import type {OpenAPIV3} from 'openapi-types';
-import {isRef, resolveIfRef, resolveRef} from '../../src/parser/resolver.js';
+import {dereferenceDocument, isRef, resolveIfRef, resolveRef} from '../../src/parser/resolver.js';
 
 // Helper to create a minimal OpenAPI document
 const createDoc = (schemas: Record<string, OpenAPIV3.SchemaObject> = {}): OpenAPIV3.Document => ({
@@ -132,3 +132,61 @@ describe('resolveIfRef', () => {
     expect(result).toBe(schema); // Same reference, not a copy
   });
 });
+
+describe('dereferenceDocument', () => {
+  test('replaces refs with their targets', () => {
+    const doc = createDoc({
+      Id: {type: 'string'},
+      Pet: {type: 'object', properties: {id: {$ref: '#/components/schemas/Id'}}},
+    });
+    doc.paths['/pets'] = {
+      get: {
+        responses: {
+          '200': {description: 'OK', content: {'application/json': {schema: {$ref: '#/components/schemas/Pet'}}}},
+        },
+      },
+    };
+
+    const result = dereferenceDocument(doc);
+
+    expect(result.paths['/pets']!.get!.responses['200']).toEqual({
+      description: 'OK',
+      content: {'application/json': {schema: {type: 'object', properties: {id: {type: 'string'}}}}},
+    });
+    expect(result.components!.schemas!.Pet).toEqual({type: 'object', properties: {id: {type: 'string'}}});
+    expect(doc.components!.schemas!.Pet).toEqual({
+      type: 'object',
+      properties: {id: {$ref: '#/components/schemas/Id'}},
+    });
+  });
+
+  test('keeps circular refs', () => {
+    const doc = createDoc({
+      Node: {type: 'object', properties: {next: {$ref: '#/components/schemas/Node'}}},
+    });
+
+    const result = dereferenceDocument(doc);
+
+    expect(result.components!.schemas!.Node).toEqual({
+      type: 'object',
+      properties: {next: {type: 'object', properties: {next: {$ref: '#/components/schemas/Node'}}}},
+    });
+  });
+
+  test('merges ref siblings over the target', () => {
+    const doc = createDoc({
+      Id: {type: 'string'},
+      Pet: {
+        type: 'object',
+        properties: {id: {$ref: '#/components/schemas/Id', description: 'Pet ID'} as OpenAPIV3.ReferenceObject},
+      },
+    });
+
+    const result = dereferenceDocument(doc);
+
+    expect(result.components!.schemas!.Pet).toEqual({
+      type: 'object',
+      properties: {id: {type: 'string', description: 'Pet ID'}},
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import {describe, expect, test} from 'bun:test';
+import {readFileSync} from 'node:fs';
+import {join} from 'node:path';
+import type {OpenAPIV2, OpenAPIV3} from 'openapi-types';
+import {isSwagger2Doc, upgradeSwagger2} from '../../src/parser/swagger2.js';
+
+// Path to test fixtures
+const fixturesDir = join(import.meta.dir, '../fixtures');
+
+const loadPetstore = (): OpenAPIV2.Document =>
+  JSON.parse(readFileSync(join(fixturesDir, 'swagger-2-petstore.json'), 'utf-8'));
+
+// Helper to create a minimal Swagger 2.0 document
+const createDoc = (overrides: Partial<OpenAPIV2.Document> = {}): OpenAPIV2.Document => ({
+  swagger: '2.0',
+  info: {title: 'Test', version: '1.0.0'},
+  paths: {},
+  ...overrides,
+});
+
+describe('isSwagger2Doc', () => {
+  test('returns true for Swagger 2.0 documents', () => {
+    expect(isSwagger2Doc(createDoc())).toBe(true);
+  });
+
+  test('returns false for OpenAPI 3 documents', () => {
+    expect(isSwagger2Doc({openapi: '3.0.0', info: {}, paths: {}})).toBe(false);
+  });
+
+  test('returns false for non-objects', () => {
+    expect(isSwagger2Doc(null)).toBe(false);
+    expect(isSwagger2Doc('2.0')).toBe(false);
+  });
+});
+
+describe('upgradeSwagger2', () => {
+  test('builds servers from host, basePath and schemes', () => {
+    const {document} = upgradeSwagger2(loadPetstore());
+
+    expect(document.openapi).toBe('3.0.3');
+    expect(document.servers).toEqual([
+      {url: 'https://petstore.example.com/v1'},
+      {url: 'http://petstore.example.com/v1'},
+    ]);
+  });
+
+  test('uses basePath as relative server when host is missing', () => {
+    const {document} = upgradeSwagger2(createDoc({basePath: '/api'}));
+
+    expect(document.servers).toEqual([{url: '/api'}]);
+  });
+
+  test('moves definitions to components.schemas and rewrites refs', () => {
+    const {document} = upgradeSwagger2(loadPetstore());
+    const pet = document.components?.schemas?.Pet as OpenAPIV3.SchemaObject;
+    const listPets = document.paths['/pets']!.get!;
+    const response = listPets.responses['200'] as OpenAPIV3.ResponseObject;
+
+    expect(pet.type).toBe('object');
+    expect(response.content?.['application/json']?.schema).toEqual({
+      type: 'array',
+      items: {$ref: '#/components/schemas/Pet'},
+    });
+  });
+
+  test('converts x-nullable and string discriminators', () => {
+    const {document} = upgradeSwagger2(loadPetstore());
+    const pet = document.components?.schemas?.Pet as OpenAPIV3.SchemaObject;
+
+    expect(pet.discriminator).toEqual({propertyName: 'petType'});
+    expect(pet.properties?.nickname).toEqual({type: 'string', nullable: true});
+  });
+
+  test('converts query parameters with collectionFormat', () => {
+    const {document} = upgradeSwagger2(loadPetstore());
+    const params = document.paths['/pets']!.get!.parameters as OpenAPIV3.ParameterObject[];
+
+    expect(params[0]).toEqual({name: 'limit', in: 'query', schema: {type: 'integer', format: 'int32'}});
+    expect(params[1]).toMatchObject({name: 'tags', style: 'form', explode: true});
+    expect(params[1].schema).toEqual({type: 'array', items: {type: 'string'}});
+  });
+
+  test('converts body parameter refs to request body refs', () => {
+    const {document} = upgradeSwagger2(loadPetstore());
+    const createPet = document.paths['/pets']!.post!;
+
+    expect(createPet.requestBody).toEqual({$ref: '#/components/requestBodies/PetBody'});
+    expect(document.components?.requestBodies?.PetBody).toEqual({
+      required: true,
+      content: {'application/json': {schema: {$ref: '#/components/schemas/Pet'}}},
+    });
+  });
+
+  test('converts inline body parameters using consumes', () => {
+    const {document} = upgradeSwagger2(
+      createDoc({
+        paths: {
+          '/pets': {
+            post: {
+              consumes: ['application/xml'],
+              parameters: [{name: 'pet', in: 'body', schema: {type: 'object'}}],
+              responses: {'200': {description: 'OK'}},
+            },
+          },
+        },
+      }),
+    );
+
+    expect(document.paths['/pets']!.post!.requestBody).toEqual({
+      content: {'application/xml': {schema: {type: 'object'}}},
+    });
+  });
+
+  test('converts formData parameters to a multipart request body', () => {
+    const {document} = upgradeSwagger2(loadPetstore());
+    const upload = document.paths['/pets/{petId}/photo']!.put!;
+    const body = upload.requestBody as OpenAPIV3.RequestBodyObject;
+
+    expect(body.content['multipart/form-data'].schema).toEqual({
+      type: 'object',
+      properties: {
+        file: {type: 'string', format: 'binary'},
+        caption: {type: 'string'},
+      },
+      required: ['file'],
+    });
+  });
+
+  test('merges path-level parameters into operations', () => {
+    const {document} = upgradeSwagger2(loadPetstore());
+    const params = document.paths['/pets/{petId}/photo']!.put!.parameters as OpenAPIV3.ParameterObject[];
+
+    expect(params).toEqual([{name: 'petId', in: 'path', required: true, schema: {type: 'string'}}]);
+  });
+
+  test('converts responses, response refs and headers', () => {
+    const {document} = upgradeSwagger2(loadPetstore());
+    const listResponse = document.paths['/pets']!.get!.responses['200'] as OpenAPIV3.ResponseObject;
+
+    expect(document.paths['/pets']!.post!.responses['201']).toEqual({$ref: '#/components/responses/PetCreated'});
+    expect(document.components?.responses?.PetCreated).toEqual({
+      description: 'Created',
+      content: {'application/json': {schema: {$ref: '#/components/schemas/Pet'}}},
+    });
+    expect(listResponse.headers?.['X-Total']).toEqual({schema: {type: 'integer'}});
+  });
+
+  test('converts security definitions', () => {
+    const {document} = upgradeSwagger2(loadPetstore());
+    const schemes = document.components?.securitySchemes;
+
+    expect(schemes?.basicAuth).toEqual({type: 'http', scheme: 'basic'});
+    expect(schemes?.apiKey).toEqual({type: 'apiKey', name: 'X-API-Key', in: 'header'});
+    expect(schemes?.oauth).toEqual({
+      type: 'oauth2',
+      flows: {
+        authorizationCode: {
+          authorizationUrl: 'https://auth.example.com/authorize',
+          tokenUrl: 'https://auth.example.com/token',
+          scopes: {read: 'Read access'},
+        },
+      },
+    });
+  });
+
+  test('produces no warnings for the petstore fixture', () => {
+    const {warnings} = upgradeSwagger2(loadPetstore());
+
+    expect(warnings).toEqual([]);
+  });
+
+  test('warns about unmappable collection formats', () => {
+    const {warnings} = upgradeSwagger2(
+      createDoc({
+        paths: {
+          '/pets': {
+            get: {
+              parameters: [{name: 'ids', in: 'query', type: 'array', items: {type: 'string'}, collectionFormat: 'tsv'}],
+              responses: {'200': {description: 'OK'}},
+            },
+          },
+        },
+      }),
+    );
+
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toContain('collectionFormat "tsv"');
+  });
+
+  test('warns when body and formData parameters are mixed', () => {
+    const {document, warnings} = upgradeSwagger2(
+      createDoc({
+        paths: {
+          '/pets': {
+            post: {
+              parameters: [
+                {name: 'pet', in: 'body', schema: {type: 'object'}},
+                {name: 'name', in: 'formData', type: 'string'},
+              ],
+              responses: {'200': {description: 'OK'}},
+            },
+          },
+        },
+      }),
+    );
+
+    expect(warnings[0]).toContain('POST /pets has both body and formData parameters');
+    expect(document.paths['/pets']!.post!.requestBody).toEqual({
+      content: {'application/json': {schema: {type: 'object'}}},
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import {describe, expect, test} from 'bun:test';
+import {readFileSync} from 'node:fs';
+import {join} from 'node:path';
+import type {OpenAPIV3} from 'openapi-types';
+import {parseOpenApiSpec} from '../../src/parser/index.js';
+import {locateDiagnostics} from '../../src/parser/positions.js';
+import {validateSpec} from '../../src/parser/validator.js';
+
+// Path to test fixtures
+const fixturesDir = join(import.meta.dir, '../fixtures');
+
+// Helper to create a minimal OpenAPI document
+const createDoc = (
+  paths: OpenAPIV3.PathsObject,
+  schemas: Record<string, OpenAPIV3.SchemaObject> = {},
+): OpenAPIV3.Document => ({
+  openapi: '3.0.0',
+  info: {title: 'Test', version: '1.0.0'},
+  paths,
+  components: {schemas},
+});
+
+describe('validateSpec', () => {
+  test('returns no diagnostics for a valid document', async () => {
+    const doc = await parseOpenApiSpec(join(fixturesDir, 'petstore.yaml'));
+
+    expect(validateSpec(doc)).toEqual([]);
+  });
+
+  test('reports dangling refs', () => {
+    const doc = createDoc({}, {Pet: {type: 'object', properties: {owner: {$ref: '#/components/schemas/Owner'}}}});
+
+    expect(validateSpec(doc)).toEqual([
+      {
+        severity: 'error',
+        code: 'dangling-ref',
+        message: '$ref does not resolve: #/components/schemas/Owner',
+        pointer: '/components/schemas/Pet/properties/owner/$ref',
+      },
+    ]);
+  });
+
+  test('reports external refs that were not bundled', () => {
+    const doc = createDoc({}, {Pet: {$ref: './pet.yaml'} as OpenAPIV3.SchemaObject});
+
+    expect(validateSpec(doc)[0]).toMatchObject({severity: 'error', code: 'external-ref'});
+  });
+
+  test('reports duplicate operationIds', () => {
+    const doc = createDoc({
+      '/pets': {get: {operationId: 'listPets', responses: {}}},
+      '/animals': {get: {operationId: 'listPets', responses: {}}},
+    });
+
+    expect(validateSpec(doc)).toEqual([
+      {
+        severity: 'error',
+        code: 'duplicate-operation-id',
+        message: 'Duplicate operationId "listPets" (first used by GET /pets)',
+        pointer: '/paths/~1animals/get/operationId',
+      },
+    ]);
+  });
+
+  test('reports undeclared path parameters', () => {
+    const doc = createDoc({
+      '/pets/{petId}': {get: {responses: {}}},
+    });
+
+    expect(validateSpec(doc)).toEqual([
+      {
+        severity: 'error',
+        code: 'undeclared-path-param',
+        message: 'Path parameter "petId" in /pets/{petId} is not declared',
+        pointer: '/paths/~1pets~1{petId}/get',
+      },
+    ]);
+  });
+
+  test('accepts path parameters declared at path level or via $ref', () => {
+    const doc: OpenAPIV3.Document = {
+      ...createDoc({
+        '/pets/{petId}/toys/{toyId}': {
+          parameters: [{name: 'petId', in: 'path', required: true, schema: {type: 'string'}}],
+          get: {parameters: [{$ref: '#/components/parameters/ToyId'}], responses: {}},
+        },
+      }),
+      components: {parameters: {ToyId: {name: 'toyId', in: 'path', required: true}}},
+    };
+
+    expect(validateSpec(doc)).toEqual([]);
+  });
+
+  test('reports path parameters missing from the path and not required', () => {
+    const doc = createDoc({
+      '/pets': {
+        get: {parameters: [{name: 'petId', in: 'path', schema: {type: 'string'}}], responses: {}},
+      },
+    });
+
+    const codes = validateSpec(doc).map((d) => d.code);
+
+    expect(codes).toEqual(['unused-path-param', 'path-param-required']);
+  });
+
+  test('reports unknown types in nested schemas', () => {
+    const doc = createDoc(
+      {
+        '/pets': {
+          get: {
+            parameters: [{name: 'limit', in: 'query', schema: {type: 'int'} as unknown as OpenAPIV3.SchemaObject}],
+            responses: {
+              '200': {
+                description: 'OK',
+                content: {
+                  'application/json': {
+                    schema: {type: 'array', items: {type: 'str'} as unknown as OpenAPIV3.SchemaObject},
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      {Pet: {type: 'object', properties: {tags: {allOf: [{type: 'list'} as unknown as OpenAPIV3.SchemaObject]}}}},
+    );
+
+    const pointers = validateSpec(doc).map((d) => d.pointer);
+
+    expect(pointers).toEqual([
+      '/paths/~1pets/get/parameters/0/schema/type',
+      '/paths/~1pets/get/responses/200/content/application~1json/schema/items/type',
+      '/components/schemas/Pet/properties/tags/allOf/0/type',
+    ]);
+  });
+
+  test('allows null type only in OpenAPI 3.1', () => {
+    const schemas = {Nothing: {type: 'null'} as unknown as OpenAPIV3.SchemaObject};
+
+    expect(validateSpec(createDoc({}, schemas))).toHaveLength(1);
+    expect(validateSpec({...createDoc({}, schemas), openapi: '3.1.0'})).toEqual([]);
+  });
+
+  test('reports invalid required entries', () => {
+    const doc = createDoc(
+      {},
+      {
+        Pet: {type: 'object', required: ['name', 'age'], properties: {name: {type: 'string'}}},
+        Owner: {type: 'object', required: 'name' as unknown as string[], properties: {name: {type: 'string'}}},
+      },
+    );
+
+    expect(validateSpec(doc)).toEqual([
+      {
+        severity: 'warning',
+        code: 'invalid-required',
+        message: 'Required property "age" is not defined in properties',
+        pointer: '/components/schemas/Pet/required/1',
+      },
+      {
+        severity: 'error',
+        code: 'invalid-required',
+        message: '`required` must be an array of property names',
+        pointer: '/components/schemas/Owner/required',
+      },
+    ]);
+  });
+});
+
+describe('locateDiagnostics', () => {
+  test('adds line and column positions for YAML files', async () => {
+    const source = join(fixturesDir, 'invalid-spec.yaml');
+    const doc = await parseOpenApiSpec(source);
+
+    const diagnostics = locateDiagnostics(validateSpec(doc), readFileSync(source, 'utf-8'));
+    const byCode = Object.fromEntries(diagnostics.map((d) => [d.code, d]));
+
+    expect(byCode['dangling-ref']).toMatchObject({line: 15, column: 23});
+    expect(byCode['duplicate-operation-id']).toMatchObject({line: 18, column: 20});
+    expect(byCode['undeclared-path-param']).toMatchObject({line: 8, column: 7});
+    expect(byCode['unknown-type']).toMatchObject({line: 29, column: 17});
+    expect(byCode['invalid-required']).toMatchObject({severity: 'warning', line: 26, column: 24});
+  });
+
+  test('adds line and column positions for JSON files', () => {
+    const content = '{\n  "openapi": "3.0.0",\n  "paths": {\n    "/pets": {"get": {"operationId": "x"}}\n  }\n}';
+    const diagnostics = locateDiagnostics(
+      [{severity: 'error', code: 'test', message: 'Test', pointer: '/paths/~1pets/get/operationId'}],
+      content,
+    );
+
+    expect(diagnostics[0]).toMatchObject({line: 4, column: 38});
+  });
+
+  test('leaves diagnostics without position when the pointer is not in the content', () => {
+    const diagnostics = locateDiagnostics(
+      [{severity: 'error', code: 'test', message: 'Test', pointer: '/components/schemas/Bundled'}],
+      'openapi: 3.0.0\npaths: {}\n',
+    );
+
+    expect(diagnostics[0].line).toBeUndefined();
+    expect(diagnostics[0].column).toBeUndefined();
+  });
+
+  test('leaves diagnostics without position for Swagger 2.0 content', () => {
+    // Once upgraded, the query parameter is the first one, as the body parameter becomes the request body
+    const content = [
+      "swagger: '2.0'",
+      'paths:',
+      '  /pets:',
+      '    post:',
+      '      parameters:',
+      '        - {name: body, in: body, schema: {type: object}}',
+      '        - {name: limit, in: query, type: integer}',
+    ].join('\n');
+    const diagnostics = locateDiagnostics(
+      [{severity: 'error', code: 'test', message: 'Test', pointer: '/paths/~1pets/post/parameters/0'}],
+      content,
+    );
+
+    expect(diagnostics[0].line).toBeUndefined();
+    expect(diagnostics[0].column).toBeUndefined();
+  });
+});
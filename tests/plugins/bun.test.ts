@@ -0,0 +1,40 @@
+import {afterEach, beforeEach, describe, expect, test} from 'bun:test';
+import {copyFileSync, mkdtempSync, rmSync, writeFileSync} from 'node:fs';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import {opencodegen} from '../../src/plugins/bun.js';
+
+// Path to test fixtures
+const fixturesDir = join(import.meta.dir, '../fixtures');
+
+describe('opencodegen Bun plugin', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'opencodegen-'));
+    copyFileSync(join(fixturesDir, 'petstore.yaml'), join(dir, 'petstore.yaml'));
+    writeFileSync(
+      join(dir, 'opencodegen.config.json'),
+      JSON.stringify({projects: [{name: 'petstore', source: './petstore.yaml', target: './src/api'}]}),
+    );
+  });
+
+  afterEach(() => {
+    rmSync(dir, {recursive: true, force: true});
+  });
+
+  test('bundles a client imported from a virtual module', async () => {
+    writeFileSync(
+      join(dir, 'main.ts'),
+      "import {ApiError} from 'virtual:opencodegen/petstore';\nconsole.log(new ApiError(404, 'Not Found', null));\n",
+    );
+
+    const result = await Bun.build({
+      entrypoints: [join(dir, 'main.ts')],
+      plugins: [opencodegen({root: dir, virtual: true})],
+    });
+
+    expect(result.success).toBe(true);
+    expect(await result.outputs[0].text()).toContain('class ApiError');
+  });
+});
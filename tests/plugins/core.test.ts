@@ -0,0 +1,96 @@
+import {afterEach, beforeEach, describe, expect, test} from 'bun:test';
+import {copyFileSync, existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync} from 'node:fs';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import {createPluginContext} from '../../src/plugins/core.js';
+
+// Path to test fixtures
+const fixturesDir = join(import.meta.dir, '../fixtures');
+
+describe('createPluginContext', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'opencodegen-'));
+    copyFileSync(join(fixturesDir, 'petstore.yaml'), join(dir, 'petstore.yaml'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, {recursive: true, force: true});
+  });
+
+  const writeConfig = (config: object) => {
+    writeFileSync(join(dir, 'opencodegen.config.json'), JSON.stringify(config));
+  };
+
+  test('writes the generated files to the target', async () => {
+    writeConfig({source: './petstore.yaml', target: './src/api'});
+    const ctx = createPluginContext({root: dir});
+
+    await ctx.generate();
+
+    expect(existsSync(join(dir, 'src/api/types.ts'))).toBe(true);
+    expect(ctx.getWatchFiles()).toEqual([join(dir, 'opencodegen.config.json'), join(dir, 'petstore.yaml')]);
+    expect(ctx.loadTargetFile(join(dir, 'src/api/types.ts'))).toBe(
+      readFileSync(join(dir, 'src/api/types.ts'), 'utf-8'),
+    );
+  });
+
+  test('serves virtual modules without writing files', async () => {
+    writeConfig({projects: [{name: 'pets', source: './petstore.yaml', target: './src/api'}]});
+    const ctx = createPluginContext({root: dir, virtual: true});
+
+    await ctx.generate();
+
+    const index = ctx.resolveId('virtual:opencodegen/pets');
+    expect(index).toBe('virtual:opencodegen/pets/index.ts');
+    expect(ctx.resolveId('virtual:opencodegen')).toBe(index);
+    expect(ctx.resolveId(index!)).toBe(index);
+    expect(ctx.resolveId('./types.js', index)).toBe('virtual:opencodegen/pets/types.ts');
+    expect(ctx.load('virtual:opencodegen/pets/types.ts')).toContain('export interface Pet');
+    expect(existsSync(join(dir, 'src/api'))).toBe(false);
+  });
+
+  test('reports unknown projects', async () => {
+    writeConfig({
+      projects: [
+        {name: 'a', source: './petstore.yaml', target: './a'},
+        {name: 'b', source: './petstore.yaml', target: './b'},
+      ],
+    });
+    const ctx = createPluginContext({root: dir, virtual: true});
+    await ctx.generate();
+
+    expect(() => ctx.resolveId('virtual:opencodegen/c')).toThrow('available: a, b');
+    expect(() => ctx.resolveId('virtual:opencodegen')).toThrow('The config has several projects');
+    await expect(createPluginContext({root: dir, project: ['c']}).generate()).rejects.toThrow('Unknown project: c');
+  });
+
+  test('regenerates the projects using a changed spec', async () => {
+    writeConfig({source: './petstore.yaml', target: './src/api'});
+    const ctx = createPluginContext({root: dir, virtual: true});
+    await ctx.generate();
+
+    const spec = readFileSync(join(dir, 'petstore.yaml'), 'utf-8');
+    writeFileSync(join(dir, 'petstore.yaml'), spec.replace('name:\n', 'nickname:\n'));
+
+    expect(await ctx.update(join(dir, 'petstore.yaml'))).toEqual(['virtual:opencodegen/types.ts']);
+    expect(ctx.load('virtual:opencodegen/types.ts')).toContain('nickname');
+    expect(await ctx.update(join(dir, 'other.yaml'))).toBeUndefined();
+  });
+
+  test('keeps the previous files when regeneration fails', async () => {
+    writeConfig({source: './petstore.yaml', target: './src/api'});
+    const ctx = createPluginContext({root: dir, virtual: true});
+    await ctx.generate();
+
+    writeFileSync(join(dir, 'petstore.yaml'), 'openapi: [');
+
+    await expect(ctx.update(join(dir, 'petstore.yaml'))).rejects.toThrow('Failed to load OpenAPI spec');
+    expect(ctx.load('virtual:opencodegen/types.ts')).toContain('export interface Pet');
+  });
+
+  test('throws when no config is found', async () => {
+    await expect(createPluginContext({root: dir}).generate()).rejects.toThrow('No opencodegen config found');
+  });
+});
@@ -0,0 +1,100 @@
+import {afterEach, beforeEach, describe, expect, test} from 'bun:test';
+import {copyFileSync, mkdtempSync, readFileSync, rmSync, utimesSync, writeFileSync} from 'node:fs';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import {opencodegen, type EsbuildPlugin} from '../../src/plugins/esbuild.js';
+
+// Path to test fixtures
+const fixturesDir = join(import.meta.dir, '../fixtures');
+
+type Build = Parameters<EsbuildPlugin['setup']>[0];
+type LoadCallback = Parameters<Build['onLoad']>[1];
+
+/**
+ * Run the plugin's setup with a build that keeps its callbacks.
+ */
+const setup = (plugin: EsbuildPlugin, absWorkingDir: string) => {
+  let start: Parameters<Build['onStart']>[0] = async () => undefined;
+  const loaders: {filter: RegExp; namespace?: string; callback: LoadCallback}[] = [];
+  plugin.setup({
+    initialOptions: {absWorkingDir},
+    onStart: (callback) => (start = callback),
+    onResolve: () => undefined,
+    onLoad: ({filter, namespace}, callback) => loaders.push({filter, namespace, callback}),
+  });
+
+  const load = (path: string, namespace?: string) => {
+    const loader = loaders.find((entry) => entry.namespace === namespace && entry.filter.test(path));
+    return loader?.callback({path});
+  };
+  return {start: () => start(), load};
+};
+
+describe('esbuild plugin', () => {
+  let dir: string;
+  let spec: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'opencodegen-'));
+    spec = join(dir, 'petstore.yaml');
+    copyFileSync(join(fixturesDir, 'petstore.yaml'), spec);
+    writeFileSync(
+      join(dir, 'opencodegen.config.json'),
+      JSON.stringify({source: './petstore.yaml', target: './src/api'}),
+    );
+  });
+
+  afterEach(() => {
+    rmSync(dir, {recursive: true, force: true});
+  });
+
+  /**
+   * Set the modification time of the spec, in whole seconds so it's stored exactly.
+   */
+  const setSpecTime = (seconds: number) => {
+    utimesSync(spec, seconds, seconds);
+  };
+
+  test('generates the files in the working directory and serves them with the watched files', async () => {
+    const build = setup(opencodegen(), dir);
+
+    expect(await build.start()).toBeUndefined();
+
+    const types = join(dir, 'src/api/types.ts');
+    expect(build.load(types)).toEqual({
+      contents: readFileSync(types, 'utf-8'),
+      loader: 'ts',
+      watchFiles: [join(dir, 'opencodegen.config.json'), spec],
+    });
+    expect(build.load(join(dir, 'main.ts'))).toBeUndefined();
+  });
+
+  test('regenerates only when a watched file was modified since the previous build', async () => {
+    const build = setup(opencodegen({virtual: true}), dir);
+    setSpecTime(1_000_000);
+    await build.start();
+
+    writeFileSync(spec, readFileSync(spec, 'utf-8').replace('name:\n', 'nickname:\n'));
+    setSpecTime(1_000_000);
+    await build.start();
+    expect(build.load('virtual:opencodegen/types.ts', 'opencodegen')?.contents).not.toContain('nickname');
+
+    setSpecTime(1_000_001);
+    await build.start();
+    expect(build.load('virtual:opencodegen/types.ts', 'opencodegen')?.contents).toContain('nickname');
+  });
+
+  test('reports failures as build errors', async () => {
+    const build = setup(opencodegen({virtual: true}), dir);
+    setSpecTime(1_000_000);
+    await build.start();
+
+    writeFileSync(spec, 'openapi: [');
+    setSpecTime(1_000_001);
+    const result = await build.start();
+
+    expect(result?.errors).toHaveLength(1);
+    expect(result?.errors[0].text).toStartWith('[opencodegen] Failed to load OpenAPI spec');
+    expect(build.load('virtual:opencodegen/types.ts', 'opencodegen')?.contents).toContain('export interface Pet');
+  });
+});
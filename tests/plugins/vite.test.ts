@@ -0,0 +1,115 @@
+import {afterEach, beforeEach, describe, expect, test} from 'bun:test';
+import {copyFileSync, existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync} from 'node:fs';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import {opencodegen} from '../../src/plugins/vite.js';
+
+// Path to test fixtures
+const fixturesDir = join(import.meta.dir, '../fixtures');
+
+/**
+ * A dev server that records what the plugin does with it.
+ */
+const createServer = () => {
+  const server = {
+    watched: [] as string[],
+    errors: [] as {message: string; stack: string}[],
+    logs: [] as string[],
+    watcher: {add: (paths: string[]) => server.watched.push(...paths)},
+    moduleGraph: {getModuleById: (id: string) => (id.startsWith('virtual:') ? {id} : undefined)},
+    ws: {send: ({err}: {err: {message: string; stack: string}}) => server.errors.push(err)},
+    config: {logger: {info: (message: string) => server.logs.push(message)}},
+  };
+  return server;
+};
+
+describe('vite plugin', () => {
+  let dir: string;
+  let spec: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'opencodegen-'));
+    spec = join(dir, 'petstore.yaml');
+    copyFileSync(join(fixturesDir, 'petstore.yaml'), spec);
+  });
+
+  afterEach(() => {
+    rmSync(dir, {recursive: true, force: true});
+  });
+
+  const writeConfig = (config: object) => {
+    writeFileSync(join(dir, 'opencodegen.config.json'), JSON.stringify(config));
+  };
+
+  const start = async (plugin: ReturnType<typeof opencodegen>, server = createServer()) => {
+    const watchFiles: string[] = [];
+    plugin.configResolved({root: dir});
+    plugin.configureServer(server);
+    await plugin.buildStart.call({addWatchFile: (id) => watchFiles.push(id)});
+    return {server, watchFiles};
+  };
+
+  test('generates from the config in the Vite root and watches its files', async () => {
+    writeConfig({source: './petstore.yaml', target: './src/api'});
+
+    const {server, watchFiles} = await start(opencodegen());
+
+    const expected = [join(dir, 'opencodegen.config.json'), spec];
+    expect(existsSync(join(dir, 'src/api/types.ts'))).toBe(true);
+    expect(watchFiles).toEqual(expected);
+    expect(server.watched).toEqual(expected);
+  });
+
+  test('prefers the root given in the options to the Vite root', async () => {
+    writeConfig({source: './petstore.yaml', target: './src/api'});
+    mkdirSync(join(dir, 'app'));
+    writeFileSync(
+      join(dir, 'app/opencodegen.config.json'),
+      JSON.stringify({source: '../petstore.yaml', target: './api'}),
+    );
+
+    await start(opencodegen({root: join(dir, 'app')}));
+
+    expect(existsSync(join(dir, 'app/api/types.ts'))).toBe(true);
+    expect(existsSync(join(dir, 'src/api'))).toBe(false);
+  });
+
+  test('updates the virtual modules that changed with the spec', async () => {
+    writeConfig({source: './petstore.yaml', target: './src/api'});
+    const plugin = opencodegen({virtual: true});
+    const {server} = await start(plugin);
+    server.watched = [];
+
+    writeFileSync(spec, readFileSync(spec, 'utf-8').replace('name:\n', 'nickname:\n'));
+    const modules = await plugin.handleHotUpdate({file: spec, server});
+
+    expect(modules).toEqual([{id: 'virtual:opencodegen/types.ts'}]);
+    expect(plugin.load('virtual:opencodegen/types.ts')).toContain('nickname');
+    expect(server.watched).toEqual([join(dir, 'opencodegen.config.json'), spec]);
+    expect(server.logs).toEqual([`[opencodegen] Regenerated clients after a change to ${spec}`]);
+    expect(server.errors).toEqual([]);
+  });
+
+  test('leaves changes to other files to Vite', async () => {
+    writeConfig({source: './petstore.yaml', target: './src/api'});
+    const plugin = opencodegen({virtual: true});
+    const {server} = await start(plugin);
+
+    expect(await plugin.handleHotUpdate({file: join(dir, 'main.ts'), server})).toBeUndefined();
+    expect(server.logs).toEqual([]);
+  });
+
+  test('shows the error overlay when regeneration fails', async () => {
+    writeConfig({source: './petstore.yaml', target: './src/api'});
+    const plugin = opencodegen({virtual: true});
+    const {server} = await start(plugin);
+
+    writeFileSync(spec, 'openapi: [');
+    const modules = await plugin.handleHotUpdate({file: spec, server});
+
+    expect(modules).toEqual([]);
+    expect(server.errors).toHaveLength(1);
+    expect(server.errors[0].message).toStartWith('[opencodegen] Failed to load OpenAPI spec');
+    expect(plugin.load('virtual:opencodegen/types.ts')).toContain('export interface Pet');
+  });
+});